@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { Login } from './components/auth/Login';
 import { Signup } from './components/auth/Signup';
@@ -8,17 +8,44 @@ import { TransactionInput } from './components/TransactionInput';
 import { TransactionList } from './components/TransactionList';
 import { SpendingsSummary } from './components/SpendingsSummary';
 import { WeeklySpending } from './components/WeeklySpending';
-import { BudgetState, Transaction, ParsedExpense, TransactionCategory } from './types';
+import { BudgetState, Transaction, ParsedExpense, TransactionCategory, CategoryRule, RecurringTransaction, CategoryDefinition, Account, ImportPreset, BudgetVersion, UserPreferences } from './types';
 import { storageService } from './services/storage';
 import { timeService } from './services/time';
+import { createDefaultPreferences } from './services/defaults';
+import { BackupBundle, RestoreMode, RestoreSummary, exportBundle, restoreBundle } from './services/backup';
+import { ProgressCallback } from './services/syncQueue';
 import { HistoryView } from './components/HistoryView';
 import ErrorBoundary from './components/ErrorBoundary';
+import { SyncIndicator } from './components/SyncIndicator';
+import { RulesManager } from './components/RulesManager';
+import { Settings } from './components/Settings';
+import { RecurringManager } from './components/RecurringManager';
+import { CategoryManager } from './components/CategoryManager';
+import { FriendsLedger } from './components/FriendsLedger';
+import { AccountsManager } from './components/AccountsManager';
+import { ImportWizard } from './components/ImportWizard';
+import { learnRule } from './utils/rules';
+import { nextBudgetVersion } from './utils/budgetHistory';
+import { withLocalDate } from './utils/periods';
+import { CategoryRemapMode, DEFAULT_CATEGORIES, categoryOptions, remapCategory } from './utils/categories';
 
 const AuthenticatedApp: React.FC = () => {
   const { user, logout } = useAuth();
   const [budget, setBudget] = useState<BudgetState | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [view, setView] = useState<'dashboard' | 'history' | 'summary' | 'weekly'>('dashboard');
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  // Latest rules, for corrections made several at a time before a re-render
+  const rulesRef = useRef<CategoryRule[]>([]);
+  useEffect(() => {
+    rulesRef.current = rules;
+  }, [rules]);
+  const [recurring, setRecurring] = useState<RecurringTransaction[]>([]);
+  const [categories, setCategories] = useState<CategoryDefinition[]>(DEFAULT_CATEGORIES);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [importPresets, setImportPresets] = useState<ImportPreset[]>([]);
+  const [budgetVersions, setBudgetVersions] = useState<BudgetVersion[]>([]);
+  const [preferences, setPreferences] = useState<UserPreferences>(createDefaultPreferences);
+  const [view, setView] = useState<'dashboard' | 'history' | 'summary' | 'weekly' | 'rules' | 'recurring' | 'categories' | 'friends' | 'accounts' | 'import' | 'settings'>('dashboard');
   const [filter, setFilter] = useState<TransactionCategory | 'All'>('All');
   const [loadingData, setLoadingData] = useState(true);
 
@@ -26,11 +53,19 @@ const AuthenticatedApp: React.FC = () => {
   useEffect(() => {
     if (user?.id) {
       const initData = async () => {
-        // Initialize Time Service (Check for Week/Month resets)
+        // Initialize Time Service (Check for Week/Month resets, post due recurring items)
         await timeService.init(user.id);
+        setPreferences(await storageService.loadPreferences(user.id));
 
         const loadedBudget = await storageService.loadBudget(user.id);
         const loadedTx = await storageService.loadTransactions(user.id);
+        setCategories(await storageService.loadCategories(user.id));
+        setRules(await storageService.loadRules(user.id));
+        setRecurring(await storageService.loadRecurring(user.id));
+        setAccounts(await storageService.loadAccounts(user.id));
+        setImportPresets(await storageService.loadImportPresets(user.id));
+        const loadedVersions = await storageService.loadBudgetVersions(user.id);
+        setBudgetVersions(loadedVersions);
 
         // Legacy migration check
         if (!loadedBudget.isSet && localStorage.getItem('smartspend_budget')) {
@@ -42,6 +77,8 @@ const AuthenticatedApp: React.FC = () => {
         } else {
           setBudget(loadedBudget);
           setTransactions(loadedTx);
+          // Budgets set before versioning get their first version now
+          if (loadedVersions.length === 0) await recordBudgetVersion(loadedBudget, loadedVersions);
         }
         setLoadingData(false);
       };
@@ -59,20 +96,51 @@ const AuthenticatedApp: React.FC = () => {
   // Transaction persistence is now handled atomically via add/delete handlers
 
 
+  // Keeps the budget's history, so past periods are judged against the limits of their day
+  const recordBudgetVersion = async (next: BudgetState, versions: BudgetVersion[] = budgetVersions) => {
+    if (!user?.id) return;
+    const version = nextBudgetVersion(versions, next);
+    if (!version) return;
+    setBudgetVersions(prev => [...prev.filter(v => v.id !== version.id), version]);
+    await storageService.saveBudgetVersion(user.id, version);
+  };
+
+  // New period settings apply from now on; weeks and months already archived keep their dates
+  const handleSavePreferences = async (next: UserPreferences) => {
+    if (!user?.id) return;
+    const updated = { ...next, updatedAt: Date.now() };
+    setPreferences(updated);
+    timeService.setPeriodSettings(updated);
+    await storageService.savePreferences(user.id, updated);
+  };
+
   const handleBudgetComplete = (newBudget: BudgetState) => {
     setBudget(newBudget);
+    recordBudgetVersion(newBudget);
   };
 
   const handleAddTransaction = async (parsed: ParsedExpense) => {
     if (!parsed.amount || !parsed.category || !user?.id) return;
-    const newTransaction: Transaction = {
-      id: Date.now().toString(),
+    const newTransaction: Transaction = withLocalDate({
+      // A multi-item submit adds several entries within the same millisecond
+      id: crypto.randomUUID(),
       amount: parsed.amount,
+      direction: parsed.direction ?? 'expense',
       category: parsed.category,
       description: parsed.description,
       date: parsed.date.toISOString(),
       timestamp: Date.now(),
-    };
+      // Firestore rejects undefined fields, so only copy what exists
+      ...(parsed.subcategory ? { subcategory: parsed.subcategory } : {}),
+      ...(parsed.tags?.length ? { tags: parsed.tags } : {}),
+      ...(parsed.split ? { split: parsed.split } : {}),
+      ...(parsed.paymentMethod ? { paymentMethod: parsed.paymentMethod } : {}),
+      ...(parsed.accountId ? { accountId: parsed.accountId } : {}),
+      ...(parsed.toAccountId ? { toAccountId: parsed.toAccountId } : {}),
+      ...(parsed.reference ? { reference: parsed.reference } : {}),
+      ...(parsed.source ? { source: parsed.source } : {}),
+      ...(parsed.fields ? { provenance: parsed.fields } : {}),
+    }, preferences.timeZone);
 
     // Add to Cloud (Optimistic UI: update local first, or wait? Let's add then update)
     // Actually for speed, let's just trigger it.
@@ -80,21 +148,202 @@ const AuthenticatedApp: React.FC = () => {
 
     setTransactions(prev => {
       const updated = [newTransaction, ...prev];
-      // Trigger notification check
-      import('./utils/alerts').then(({ generateAlerts, checkAndSendNotifications }) => {
-        if (budget) {
-          const alerts = generateAlerts(budget, updated);
-          checkAndSendNotifications(alerts);
-        }
-      });
+      runAlertChecks(updated);
+      return updated;
+    });
+  };
+
+  const handleUpdateTransaction = async (edited: Transaction) => {
+    if (!user?.id) return;
+    const previous = transactions.find(t => t.id === edited.id);
+    // A moved transaction counts on its new day: the one picked in the edit form, or else the
+    // day its new timestamp falls on
+    const keepsDay = previous && (previous.date === edited.date || previous.localDate !== edited.localDate);
+    const updatedTx = keepsDay && edited.localDate ? edited : withLocalDate(edited, preferences.timeZone);
+    await storageService.updateTransaction(user.id, updatedTx);
+
+    setTransactions(prev => {
+      const updated = prev.map(t => t.id === updatedTx.id ? updatedTx : t);
+      runAlertChecks(updated);
+      return updated;
+    });
+
+    if (previous && previous.category !== updatedTx.category) {
+      handleCategoryCorrected(updatedTx.description, updatedTx.category);
+    }
+
+    // Edits to closed weeks/months must be reflected in the archived history stats. Runs after
+    // the local write above, which the recompute reads back through the offline store.
+    await timeService.recomputeArchivedPeriods(user.id, previous ? [previous, updatedTx] : [updatedTx])
+      .catch(error => console.error("Error recomputing archived history:", error));
+  };
+
+  // Repayments to or from a friend are transfers, so budgets and alerts are unaffected
+  const handleSettle = async (recorded: Transaction) => {
+    if (!user?.id) return;
+    const settlement = withLocalDate(recorded, preferences.timeZone);
+    await storageService.addTransaction(user.id, settlement);
+    setTransactions(prev => [settlement, ...prev]);
+  };
+
+  // Learn a categorisation rule from a user correction
+  const handleCategoryCorrected = (description: string, category: TransactionCategory) => {
+    // One submit can correct several items with the same pattern; each must see the rule the last one learned
+    const rule = learnRule(rulesRef.current, description, category);
+    if (!rule) return;
+    rulesRef.current = [...rulesRef.current.filter(r => r.id !== rule.id), rule];
+    handleSaveRule(rule);
+  };
+
+  const handleSaveRule = async (rule: CategoryRule) => {
+    if (!user?.id) return;
+    setRules(prev => [...prev.filter(r => r.id !== rule.id), rule]);
+    await storageService.saveRule(user.id, rule);
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    if (!user?.id) return;
+    setRules(prev => prev.filter(r => r.id !== id));
+    await storageService.deleteRule(user.id, id);
+  };
+
+  const handleSaveRecurring = async (item: RecurringTransaction) => {
+    if (!user?.id) return;
+    setRecurring(prev => [...prev.filter(r => r.id !== item.id), item]);
+    await storageService.saveRecurring(user.id, item);
+  };
+
+  const handleDeleteRecurring = async (id: string) => {
+    if (!user?.id) return;
+    setRecurring(prev => prev.filter(r => r.id !== id));
+    await storageService.deleteRecurring(user.id, id);
+  };
+
+  const handleSaveAccount = async (account: Account) => {
+    if (!user?.id) return;
+    setAccounts(prev => [...prev.filter(a => a.id !== account.id), account]);
+    await storageService.saveAccount(user.id, account);
+  };
+
+  const handleDeleteAccount = async (id: string) => {
+    if (!user?.id) return;
+    setAccounts(prev => prev.filter(a => a.id !== id));
+    await storageService.deleteAccount(user.id, id);
+  };
+
+  // Statement imports are saved in batches; alerts run once on the full result
+  const handleImportTransactions = async (imported: Transaction[], onProgress: (done: number, total: number) => void) => {
+    if (!user?.id) return;
+    await storageService.saveTransactions(user.id, imported, onProgress);
+    setTransactions(prev => {
+      const updated = [...imported, ...prev];
+      runAlertChecks(updated);
       return updated;
     });
+
+    // Statements are mostly history, so the imported rows usually land in archived weeks and months
+    await timeService.recomputeArchivedPeriods(user.id, imported)
+      .catch(error => console.error("Error recomputing archived history:", error));
+  };
+
+  const handleUndoImport = async (importId: string) => {
+    if (!user?.id) return;
+    const removed = transactions.filter(t => t.importId === importId);
+    await storageService.deleteTransactions(user.id, removed.map(t => t.id));
+    setTransactions(prev => prev.filter(t => t.importId !== importId));
+
+    await timeService.recomputeArchivedPeriods(user.id, removed)
+      .catch(error => console.error("Error recomputing archived history:", error));
+  };
+
+  const handleSaveImportPreset = async (preset: ImportPreset) => {
+    if (!user?.id) return;
+    setImportPresets(prev => [...prev.filter(p => p.id !== preset.id), preset]);
+    await storageService.saveImportPreset(user.id, preset);
+  };
+
+  const handleDeleteImportPreset = async (id: string) => {
+    if (!user?.id) return;
+    setImportPresets(prev => prev.filter(p => p.id !== id));
+    await storageService.deleteImportPreset(user.id, id);
+  };
+
+  const handleExportBackup = async (): Promise<BackupBundle | null> => {
+    if (!user?.id) return null;
+    return exportBundle(user.id);
+  };
+
+  // A restore rewrites storage underneath the app, so everything is loaded again afterwards
+  const handleRestoreBackup = async (bundle: BackupBundle, mode: RestoreMode, onProgress: ProgressCallback): Promise<RestoreSummary | null> => {
+    if (!user?.id) return null;
+    const summary = await restoreBundle(user.id, bundle, mode, onProgress);
+    setBudget(await storageService.loadBudget(user.id));
+    setTransactions(await storageService.loadTransactions(user.id));
+    setCategories(await storageService.loadCategories(user.id));
+    setRules(await storageService.loadRules(user.id));
+    setRecurring(await storageService.loadRecurring(user.id));
+    setAccounts(await storageService.loadAccounts(user.id));
+    setImportPresets(await storageService.loadImportPresets(user.id));
+    setBudgetVersions(await storageService.loadBudgetVersions(user.id));
+    const restoredPreferences = await storageService.loadPreferences(user.id);
+    setPreferences(restoredPreferences);
+    timeService.setPeriodSettings(restoredPreferences);
+    return summary;
+  };
+
+  const handleSaveCategories = async (updated: CategoryDefinition[]) => {
+    if (!user?.id) return;
+    setCategories(updated);
+    await storageService.saveCategories(user.id, updated);
+  };
+
+  // Rename/merge: re-file everything recorded under the old category
+  const handleRemapCategory = async (from: TransactionCategory, to: TransactionCategory, mode: CategoryRemapMode) => {
+    if (!user?.id || !budget) return;
+    const remap = remapCategory({ categories, transactions, rules, recurring, budget }, from, to, mode);
+
+    await handleSaveCategories(remap.categories);
+    setBudget(remap.budget);
+    await recordBudgetVersion(remap.budget);
+
+    const remapped = new Map(remap.transactions.map(t => [t.id, t]));
+    setTransactions(prev => prev.map(t => remapped.get(t.id) ?? t));
+    for (const tx of remap.transactions) {
+      await storageService.updateTransaction(user.id, tx);
+    }
+    for (const rule of remap.rules) {
+      await handleSaveRule(rule);
+    }
+    for (const item of remap.recurring) {
+      await handleSaveRecurring(item);
+    }
+
+    // Archived weeks and months keep per-category totals
+    await timeService.recomputeArchivedPeriods(user.id, remap.transactions)
+      .catch(error => console.error("Error recomputing archived history:", error));
+  };
+
+  // Trigger notification check
+  const runAlertChecks = (updated: Transaction[]) => {
+    import('./utils/alerts').then(({ generateAlerts, checkAndSendNotifications }) => {
+      if (budget) {
+        const alerts = generateAlerts(budget, updated, recurring, categories, preferences);
+        checkAndSendNotifications(alerts);
+      }
+    });
   };
 
   const handleDeleteTransaction = async (id: string) => {
     if (!user?.id) return;
+    const deleted = transactions.find(t => t.id === id);
     await storageService.deleteTransaction(user.id, id);
     setTransactions(prev => prev.filter(t => t.id !== id));
+
+    // A transaction deleted from a closed week or month leaves its archived totals behind
+    if (deleted) {
+      await timeService.recomputeArchivedPeriods(user.id, [deleted])
+        .catch(error => console.error("Error recomputing archived history:", error));
+    }
   };
 
   const filteredTransactions = transactions.filter(t =>
@@ -128,7 +377,125 @@ const AuthenticatedApp: React.FC = () => {
     return (
       <div className="min-h-screen bg-[#0a0a0f] text-white">
         <div className="max-w-4xl mx-auto px-4 pt-6">
-          <HistoryView onBack={() => setView('dashboard')} />
+          <HistoryView categories={categories} budgetVersions={budgetVersions} onBack={() => setView('dashboard')} />
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'rules') {
+    return (
+      <div className="min-h-screen bg-[#0a0a0f] text-white">
+        <div className="max-w-4xl mx-auto px-4 pt-6">
+          <RulesManager
+            rules={rules}
+            categories={categories}
+            onSaveRule={handleSaveRule}
+            onDeleteRule={handleDeleteRule}
+            onBack={() => setView('dashboard')}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'recurring') {
+    return (
+      <div className="min-h-screen bg-[#0a0a0f] text-white">
+        <div className="max-w-4xl mx-auto px-4 pt-6">
+          <RecurringManager
+            recurring={recurring}
+            transactions={transactions}
+            categories={categories}
+            timeZone={preferences.timeZone}
+            onSave={handleSaveRecurring}
+            onDelete={handleDeleteRecurring}
+            onBack={() => setView('dashboard')}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'categories') {
+    return (
+      <div className="min-h-screen bg-[#0a0a0f] text-white">
+        <div className="max-w-4xl mx-auto px-4 pt-6">
+          <CategoryManager
+            categories={categories}
+            onSave={handleSaveCategories}
+            onRemap={handleRemapCategory}
+            onBack={() => setView('dashboard')}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'friends') {
+    return (
+      <div className="min-h-screen bg-[#0a0a0f] text-white">
+        <div className="max-w-4xl mx-auto px-4 pt-6">
+          <FriendsLedger
+            transactions={transactions}
+            onSettle={handleSettle}
+            onBack={() => setView('dashboard')}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'accounts') {
+    return (
+      <div className="min-h-screen bg-[#0a0a0f] text-white">
+        <div className="max-w-4xl mx-auto px-4 pt-6">
+          <AccountsManager
+            accounts={accounts}
+            transactions={transactions}
+            onSave={handleSaveAccount}
+            onDelete={handleDeleteAccount}
+            onBack={() => setView('dashboard')}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'import') {
+    return (
+      <div className="min-h-screen bg-[#0a0a0f] text-white">
+        <div className="max-w-4xl mx-auto px-4 pt-6">
+          <ImportWizard
+            transactions={transactions}
+            categories={categories}
+            rules={rules}
+            accounts={accounts}
+            presets={importPresets}
+            onSavePreset={handleSaveImportPreset}
+            onDeletePreset={handleDeleteImportPreset}
+            onImport={handleImportTransactions}
+            onUndo={handleUndoImport}
+            onBack={() => setView('dashboard')}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'settings') {
+    return (
+      <div className="min-h-screen bg-[#0a0a0f] text-white">
+        <div className="max-w-4xl mx-auto px-4 pt-6">
+          <Settings
+            transactions={transactions}
+            accounts={accounts}
+            preferences={preferences}
+            onSavePreferences={handleSavePreferences}
+            onExportBackup={handleExportBackup}
+            onRestoreBackup={handleRestoreBackup}
+            onBack={() => setView('dashboard')}
+          />
         </div>
       </div>
     );
@@ -141,6 +508,8 @@ const AuthenticatedApp: React.FC = () => {
           <WeeklySpending
             transactions={transactions}
             budget={budget}
+            categories={categories}
+            periodSettings={preferences}
             onUpdateBudget={handleBudgetComplete}
             onBack={() => setView('dashboard')}
           />
@@ -164,6 +533,7 @@ const AuthenticatedApp: React.FC = () => {
             SmartSpend AI
           </h1>
           <div className="flex items-center gap-4">
+            <SyncIndicator />
             <button
               onClick={() => import('./services/notifications').then(({ notificationService }) => notificationService.requestPermission())}
               className="p-2 text-gray-400 hover:text-emerald-400 transition-colors"
@@ -197,6 +567,48 @@ const AuthenticatedApp: React.FC = () => {
           >
             Monthly History
           </button>
+          <button
+            onClick={() => setView('rules')}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${view === 'rules' ? 'bg-white text-black' : 'bg-white/5 text-gray-400 hover:bg-white/10'}`}
+          >
+            Rules
+          </button>
+          <button
+            onClick={() => setView('recurring')}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${view === 'recurring' ? 'bg-white text-black' : 'bg-white/5 text-gray-400 hover:bg-white/10'}`}
+          >
+            Recurring
+          </button>
+          <button
+            onClick={() => setView('categories')}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${view === 'categories' ? 'bg-white text-black' : 'bg-white/5 text-gray-400 hover:bg-white/10'}`}
+          >
+            Categories
+          </button>
+          <button
+            onClick={() => setView('accounts')}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${view === 'accounts' ? 'bg-white text-black' : 'bg-white/5 text-gray-400 hover:bg-white/10'}`}
+          >
+            Accounts
+          </button>
+          <button
+            onClick={() => setView('import')}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${view === 'import' ? 'bg-white text-black' : 'bg-white/5 text-gray-400 hover:bg-white/10'}`}
+          >
+            Import
+          </button>
+          <button
+            onClick={() => setView('friends')}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${view === 'friends' ? 'bg-white text-black' : 'bg-white/5 text-gray-400 hover:bg-white/10'}`}
+          >
+            Friends
+          </button>
+          <button
+            onClick={() => setView('settings')}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${view === 'settings' ? 'bg-white text-black' : 'bg-white/5 text-gray-400 hover:bg-white/10'}`}
+          >
+            Settings
+          </button>
         </div>
 
         {view === 'dashboard' ? (
@@ -204,6 +616,10 @@ const AuthenticatedApp: React.FC = () => {
             <Dashboard
               budget={budget}
               transactions={transactions}
+              recurring={recurring}
+              categories={categories}
+              accounts={accounts}
+              periodSettings={preferences}
               onUpdateBudget={handleBudgetComplete}
               onResetBudget={() => setBudget({ ...budget, isSet: false })}
               onViewSummary={() => setView('summary')}
@@ -212,14 +628,25 @@ const AuthenticatedApp: React.FC = () => {
 
             <div className="mt-8">
               <h3 className="text-xl font-bold mb-4">Add Transaction</h3>
-              <TransactionInput onAddTransaction={handleAddTransaction} />
+              <TransactionInput
+                onAddTransaction={handleAddTransaction}
+                rules={rules}
+                categories={categories}
+                accounts={accounts}
+                transactions={transactions}
+                onCategoryCorrected={handleCategoryCorrected}
+              />
             </div>
 
             <div className="mt-8">
               <h3 className="text-xl font-bold mb-4">Recent Activity</h3>
               <TransactionList
                 transactions={transactions.slice(0, 5)}
+                categories={categories}
+                accounts={accounts}
+                timeZone={preferences.timeZone}
                 onDelete={handleDeleteTransaction}
+                onUpdate={handleUpdateTransaction}
               />
             </div>
           </>
@@ -233,17 +660,18 @@ const AuthenticatedApp: React.FC = () => {
                 className="bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
               >
                 <option value="All">All Categories</option>
-                <option value="Food">Food</option>
-                <option value="Shopping">Shopping</option>
-                <option value="Bills">Bills</option>
-                <option value="Transport">Transport</option>
-                <option value="Entertainment">Entertainment</option>
-                <option value="Other">Other</option>
+                {categoryOptions(categories, filter === 'All' ? null : filter).map(cat => (
+                  <option key={cat} value={cat}>{cat}</option>
+                ))}
               </select>
             </div>
             <TransactionList
               transactions={filteredTransactions}
+              categories={categories}
+              accounts={accounts}
+              timeZone={preferences.timeZone}
               onDelete={handleDeleteTransaction}
+              onUpdate={handleUpdateTransaction}
             />
           </div>
         )}
@@ -0,0 +1,6 @@
+import { createDefaultParseExpenseHandler } from '../server/parseExpenseHandler';
+
+// Vercel function: the model key lives only in the server environment
+const handler = createDefaultParseExpenseHandler();
+
+export const POST = handler;
@@ -0,0 +1,266 @@
+import React, { useMemo, useState } from 'react';
+import { Account, AccountType, ACCOUNT_TYPES, Transaction } from '../types';
+import { Card } from './ui/Card';
+import { ACCOUNT_TYPE_LABELS, accountBalances, validateAccount } from '../utils/accounts';
+
+interface AccountsManagerProps {
+    accounts: Account[];
+    transactions: Transaction[];
+    onSave: (account: Account) => void;
+    onDelete: (id: string) => void;
+    onBack: () => void;
+}
+
+interface AccountDraft {
+    name: string;
+    type: AccountType;
+    openingBalance: string;
+    creditLimit: string; // credit cards only
+    dueDay: string; // credit cards only
+    keywords: string; // comma separated
+    lastDigits: string; // account or card number ending, for matching bank SMS
+}
+
+const EMPTY_DRAFT: AccountDraft = {
+    name: '',
+    type: 'bank',
+    openingBalance: '',
+    creditLimit: '',
+    dueDay: '',
+    keywords: '',
+    lastDigits: '',
+};
+
+const inputClass = 'bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-emerald-500';
+
+const parseKeywords = (text: string): string[] =>
+    Array.from(new Set(text.split(',').map(k => k.trim().toLowerCase()).filter(Boolean)));
+
+const optionalNumber = (text: string): number | undefined => (text.trim() ? Number(text) : undefined);
+
+export const AccountsManager: React.FC<AccountsManagerProps> = ({ accounts, transactions, onSave, onDelete, onBack }) => {
+    const [draft, setDraft] = useState<AccountDraft>(EMPTY_DRAFT);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const balances = useMemo(() => accountBalances(accounts, transactions), [accounts, transactions]);
+    const archived = accounts.filter(a => a.archived);
+    const isCard = draft.type === 'credit_card';
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const openingBalance = draft.openingBalance.trim() ? Number(draft.openingBalance) : 0;
+        const creditLimit = isCard ? optionalNumber(draft.creditLimit) : undefined;
+        const dueDay = isCard ? optionalNumber(draft.dueDay) : undefined;
+        const lastDigits = draft.lastDigits.trim() || undefined;
+        const problem = validateAccount({ name: draft.name, openingBalance, creditLimit, dueDay, lastDigits }, accounts, editingId ?? undefined);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+
+        const existing = accounts.find(a => a.id === editingId);
+        const now = Date.now();
+        // Firestore rejects undefined fields, so card-only fields are left out entirely for other types
+        const { creditLimit: _limit, dueDay: _dueDay, lastDigits: _digits, ...base } = existing ?? { id: now.toString(), createdAt: now };
+        onSave({
+            ...base,
+            name: draft.name.replace(/\s+/g, ' ').trim(),
+            type: draft.type,
+            openingBalance,
+            ...(creditLimit !== undefined ? { creditLimit } : {}),
+            ...(dueDay !== undefined ? { dueDay } : {}),
+            keywords: parseKeywords(draft.keywords),
+            ...(lastDigits ? { lastDigits } : {}),
+            ...(existing ? { updatedAt: now } : {}),
+        });
+        setDraft(EMPTY_DRAFT);
+        setEditingId(null);
+        setError(null);
+    };
+
+    const startEditing = (account: Account) => {
+        setEditingId(account.id);
+        setError(null);
+        setDraft({
+            name: account.name,
+            type: account.type,
+            openingBalance: account.openingBalance.toString(),
+            creditLimit: account.creditLimit?.toString() ?? '',
+            dueDay: account.dueDay?.toString() ?? '',
+            keywords: account.keywords.join(', '),
+            lastDigits: account.lastDigits ?? '',
+        });
+    };
+
+    const cancelEditing = () => {
+        setEditingId(null);
+        setDraft(EMPTY_DRAFT);
+        setError(null);
+    };
+
+    // Accounts already named on transactions are archived rather than deleted, so history stays readable
+    const handleRemove = (account: Account) => {
+        const used = transactions.some(t => t.accountId === account.id || t.toAccountId === account.id);
+        if (used) {
+            onSave({ ...account, archived: true, updatedAt: Date.now() });
+        } else if (window.confirm(`Delete "${account.name}"?`)) {
+            onDelete(account.id);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={onBack}
+                    className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors"
+                >
+                    ← Dashboard
+                </button>
+                <h2 className="text-2xl font-bold">Accounts</h2>
+            </div>
+            <p className="text-sm text-gray-400">
+                Balances count from the opening balance and every entry that names the account, e.g. "groceries 800 on hdfc card". Moving money between accounts or paying a card bill is a transfer, not spending. Add the last digits of an account to match pasted bank SMS to it.
+            </p>
+
+            {/* Add / Edit Account */}
+            <Card>
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(e) => { setDraft({ ...draft, name: e.target.value }); setError(null); }}
+                        placeholder="Name, e.g. HDFC Card"
+                        className={inputClass}
+                    />
+                    <select
+                        value={draft.type}
+                        onChange={(e) => setDraft({ ...draft, type: e.target.value as AccountType })}
+                        className={inputClass}
+                    >
+                        {ACCOUNT_TYPES.map(type => (
+                            <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="number"
+                        value={draft.openingBalance}
+                        onChange={(e) => setDraft({ ...draft, openingBalance: e.target.value })}
+                        placeholder={isCard ? 'Amount owed now' : 'Opening balance'}
+                        className={inputClass}
+                    />
+                    {isCard && (
+                        <>
+                            <input
+                                type="number"
+                                value={draft.creditLimit}
+                                onChange={(e) => setDraft({ ...draft, creditLimit: e.target.value })}
+                                placeholder="Credit limit"
+                                className={inputClass}
+                            />
+                            <input
+                                type="number"
+                                min="1"
+                                max="31"
+                                value={draft.dueDay}
+                                onChange={(e) => setDraft({ ...draft, dueDay: e.target.value })}
+                                placeholder="Bill due day (1-31)"
+                                className={inputClass}
+                            />
+                        </>
+                    )}
+                    <input
+                        type="text"
+                        value={draft.keywords}
+                        onChange={(e) => setDraft({ ...draft, keywords: e.target.value })}
+                        placeholder="Other names, e.g. hdfc cc, regalia"
+                        className={`${isCard ? '' : 'md:col-span-2'} ${inputClass}`}
+                    />
+                    <input
+                        type="text"
+                        inputMode="numeric"
+                        value={draft.lastDigits}
+                        onChange={(e) => { setDraft({ ...draft, lastDigits: e.target.value }); setError(null); }}
+                        placeholder="Last digits, e.g. 1234"
+                        className={inputClass}
+                    />
+                    <div className="flex gap-2 md:col-span-2 md:col-start-2 justify-end">
+                        {editingId && (
+                            <button
+                                type="button"
+                                onClick={cancelEditing}
+                                className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                        <button
+                            type="submit"
+                            disabled={!draft.name.trim()}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 disabled:bg-white/10 disabled:text-gray-500 transition-colors"
+                        >
+                            {editingId ? 'Save Account' : 'Add Account'}
+                        </button>
+                    </div>
+                </form>
+                {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+            </Card>
+
+            <div className="space-y-3">
+                {balances.length === 0 ? (
+                    <div className="text-center py-10 text-gray-500">
+                        <p className="text-4xl mb-2">👛</p>
+                        <p>No accounts yet. Add cash, a bank account or a card to track balances.</p>
+                    </div>
+                ) : balances.map(({ account, balance, due, available }) => (
+                    <div key={account.id} className="flex items-center justify-between p-4 bg-white/5 hover:bg-white/10 rounded-xl border border-white/5 transition-all">
+                        <div>
+                            <p className="font-medium text-white">{account.name}</p>
+                            <p className="text-xs text-gray-500">
+                                {ACCOUNT_TYPE_LABELS[account.type]}
+                                {account.lastDigits && ` · ••${account.lastDigits}`}
+                                {account.keywords.length > 0 && ` · also "${account.keywords.join('", "')}"`}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                            <div className="text-right">
+                                {due !== undefined ? (
+                                    <>
+                                        <p className={`font-mono font-bold ${due > 0 ? 'text-amber-300' : 'text-gray-300'}`}>₹{due.toLocaleString()} due</p>
+                                        {available !== undefined && <p className="text-xs text-gray-500">₹{available.toLocaleString()} available</p>}
+                                    </>
+                                ) : (
+                                    <p className={`font-mono font-bold ${balance < 0 ? 'text-red-400' : 'text-white'}`}>₹{balance.toLocaleString()}</p>
+                                )}
+                            </div>
+                            <div className="flex flex-col gap-1 text-xs">
+                                <button onClick={() => startEditing(account)} className="text-gray-400 hover:text-white transition-colors">Edit</button>
+                                <button onClick={() => handleRemove(account)} className="text-gray-400 hover:text-red-400 transition-colors">Remove</button>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {archived.length > 0 && (
+                <>
+                    <h3 className="text-lg font-bold mt-8">Archived</h3>
+                    <div className="space-y-3">
+                        {archived.map(account => (
+                            <div key={account.id} className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/5 opacity-60">
+                                <p className="text-white">{account.name}</p>
+                                <button
+                                    onClick={() => onSave({ ...account, archived: false, updatedAt: Date.now() })}
+                                    className="text-xs text-gray-400 hover:text-white transition-colors"
+                                >
+                                    Restore
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { BudgetBucket, CategoryDefinition, TransactionCategory } from '../types';
+import { Card } from './ui/Card';
+import { CategoryRemapMode, activeCategories, normalizeCategoryName, validateCategoryName } from '../utils/categories';
+
+interface CategoryManagerProps {
+    categories: CategoryDefinition[];
+    onSave: (categories: CategoryDefinition[]) => void;
+    // Renames or merges a category and re-files everything recorded under it
+    onRemap: (from: TransactionCategory, to: TransactionCategory, mode: CategoryRemapMode) => void;
+    onBack: () => void;
+}
+
+const BUCKETS: BudgetBucket[] = ['Weekly', 'Monthly', 'Savings'];
+
+const inputClass = 'bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-emerald-500';
+
+const parseKeywords = (text: string): string[] =>
+    Array.from(new Set(text.split(',').map(k => k.trim().toLowerCase()).filter(Boolean)));
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onSave, onRemap, onBack }) => {
+    const [newName, setNewName] = useState('');
+    const [newEmoji, setNewEmoji] = useState('🏷️');
+    const [newColor, setNewColor] = useState('#10b981');
+    const [newBucket, setNewBucket] = useState<BudgetBucket>('Weekly');
+    const [error, setError] = useState<string | null>(null);
+    const [renamingName, setRenamingName] = useState<TransactionCategory | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [keywordDrafts, setKeywordDrafts] = useState<Record<TransactionCategory, string>>({});
+
+    const active = activeCategories(categories);
+    const archived = categories.filter(c => c.archived);
+
+    const update = (name: TransactionCategory, patch: Partial<CategoryDefinition>) => {
+        onSave(categories.map(c => (c.name === name ? { ...c, ...patch } : c)));
+    };
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const problem = validateCategoryName(newName, categories);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        onSave([...categories, {
+            name: normalizeCategoryName(newName),
+            emoji: newEmoji.trim() || '🏷️',
+            color: newColor,
+            bucket: newBucket,
+            keywords: [],
+        }]);
+        setNewName('');
+        setError(null);
+    };
+
+    const handleRename = (category: CategoryDefinition) => {
+        const name = normalizeCategoryName(renameValue);
+        setRenamingName(null);
+        if (name === category.name) return;
+        const problem = validateCategoryName(name, categories, category.name);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        setError(null);
+        onRemap(category.name, name, 'rename');
+    };
+
+    const handleMerge = (category: CategoryDefinition, target: TransactionCategory) => {
+        if (!target) return;
+        if (!window.confirm(`Move everything in "${category.name}" to "${target}" and remove "${category.name}"?`)) return;
+        onRemap(category.name, target, 'merge');
+    };
+
+    const handleKeywordsBlur = (category: CategoryDefinition) => {
+        const draft = keywordDrafts[category.name];
+        if (draft === undefined) return;
+        update(category.name, { keywords: parseKeywords(draft) });
+        setKeywordDrafts(({ [category.name]: _saved, ...rest }) => rest);
+    };
+
+    const renderRow = (category: CategoryDefinition) => (
+        <div key={category.name} className={`p-4 bg-white/5 hover:bg-white/10 rounded-xl border border-white/5 transition-all space-y-3 ${category.archived ? 'opacity-60' : ''}`}>
+            <div className="flex items-center gap-3">
+                <input
+                    type="text"
+                    value={category.emoji}
+                    onChange={(e) => update(category.name, { emoji: e.target.value })}
+                    className="w-12 text-center bg-black/20 border border-white/10 rounded-lg py-1.5 text-lg focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                    aria-label="Emoji"
+                />
+                <input
+                    type="color"
+                    value={category.color}
+                    onChange={(e) => update(category.name, { color: e.target.value })}
+                    className="w-8 h-8 bg-transparent border-none cursor-pointer"
+                    aria-label="Colour"
+                />
+                <div className="flex-1 min-w-0">
+                    {renamingName === category.name ? (
+                        <input
+                            autoFocus
+                            type="text"
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onBlur={() => handleRename(category)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleRename(category);
+                                if (e.key === 'Escape') setRenamingName(null);
+                            }}
+                            className="w-full bg-black/20 border border-emerald-500/50 rounded px-2 py-1 text-sm text-white focus:outline-none"
+                        />
+                    ) : category.system ? (
+                        <span className="text-white font-medium" title="Income and transfers are filed here">{category.name}</span>
+                    ) : (
+                        <button
+                            onClick={() => { setRenamingName(category.name); setRenameValue(category.name); }}
+                            className="text-white font-medium hover:text-emerald-300 transition-colors truncate"
+                            title="Click to rename"
+                        >
+                            {category.name} ✏️
+                        </button>
+                    )}
+                </div>
+                <select
+                    value={category.bucket}
+                    onChange={(e) => update(category.name, { bucket: e.target.value as BudgetBucket })}
+                    className="bg-black/20 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                    aria-label="Budget"
+                >
+                    {BUCKETS.map(bucket => (
+                        <option key={bucket} value={bucket}>{bucket}</option>
+                    ))}
+                </select>
+            </div>
+
+            <input
+                type="text"
+                value={keywordDrafts[category.name] ?? category.keywords.join(', ')}
+                onChange={(e) => setKeywordDrafts(prev => ({ ...prev, [category.name]: e.target.value }))}
+                onBlur={() => handleKeywordsBlur(category)}
+                placeholder="Keywords the parser should match, comma separated"
+                className={`w-full ${inputClass} text-xs`}
+                aria-label="Keywords"
+            />
+
+            {!category.system && (
+                <div className="flex flex-wrap items-center gap-3 text-xs">
+                    <button
+                        onClick={() => update(category.name, { archived: !category.archived })}
+                        className="text-gray-400 hover:text-white transition-colors"
+                    >
+                        {category.archived ? 'Restore' : 'Archive'}
+                    </button>
+                    <select
+                        value=""
+                        onChange={(e) => handleMerge(category, e.target.value)}
+                        className="bg-transparent border-none p-0 text-gray-400 hover:text-white focus:ring-0 cursor-pointer"
+                        aria-label="Merge into"
+                    >
+                        <option value="" className="bg-[#1a1b26]">Merge into…</option>
+                        {active.filter(c => c.name !== category.name).map(c => (
+                            <option key={c.name} value={c.name} className="bg-[#1a1b26]">{c.emoji} {c.name}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={onBack}
+                    className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors"
+                >
+                    ← Dashboard
+                </button>
+                <h2 className="text-2xl font-bold">Categories</h2>
+            </div>
+            <p className="text-sm text-gray-400">
+                Renaming or merging a category re-files your transactions, rules, recurring items and weekly limits. Archived categories stay on old transactions but are no longer offered.
+            </p>
+
+            {/* Add Category */}
+            <Card>
+                <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-3">
+                    <input
+                        type="text"
+                        value={newEmoji}
+                        onChange={(e) => setNewEmoji(e.target.value)}
+                        className={`w-14 text-center ${inputClass}`}
+                        aria-label="Emoji"
+                    />
+                    <input
+                        type="text"
+                        value={newName}
+                        onChange={(e) => { setNewName(e.target.value); setError(null); }}
+                        placeholder="New category, e.g. Pets"
+                        className={`flex-1 ${inputClass}`}
+                    />
+                    <input
+                        type="color"
+                        value={newColor}
+                        onChange={(e) => setNewColor(e.target.value)}
+                        className="w-10 h-10 bg-transparent border-none cursor-pointer"
+                        aria-label="Colour"
+                    />
+                    <select
+                        value={newBucket}
+                        onChange={(e) => setNewBucket(e.target.value as BudgetBucket)}
+                        className={inputClass}
+                    >
+                        {BUCKETS.map(bucket => (
+                            <option key={bucket} value={bucket}>{bucket}</option>
+                        ))}
+                    </select>
+                    <button
+                        type="submit"
+                        disabled={!newName.trim()}
+                        className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 disabled:bg-white/10 disabled:text-gray-500 transition-colors"
+                    >
+                        Add Category
+                    </button>
+                </form>
+                {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+            </Card>
+
+            <div className="space-y-3">
+                {active.map(renderRow)}
+            </div>
+
+            {archived.length > 0 && (
+                <>
+                    <h3 className="text-lg font-bold mt-8">Archived</h3>
+                    <div className="space-y-3">
+                        {archived.map(renderRow)}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
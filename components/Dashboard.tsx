@@ -1,21 +1,28 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip } from 'recharts';
-import { BudgetState, Transaction, CATEGORY_BUCKET_MAP, TransactionCategory } from '../types';
+import { BudgetState, Transaction, RecurringTransaction, CategoryDefinition, Account } from '../types';
 import { Card } from './ui/Card';
 import { generateAlerts, AlertItem } from '../utils/alerts';
 import { Alert } from './ui/Alert';
-import { isSameWeek } from '../utils/date';
+import { monthCashFlow, spendingAmount, isInMonth } from '../utils/cashflow';
+import { bucketOf, categoryColor } from '../utils/categories';
+import { ACCOUNT_TYPE_LABELS, accountBalances, nextCardDueDate } from '../utils/accounts';
+import { DEFAULT_PERIOD_SETTINGS, PeriodSettings, isCalendarCycle, isInWeek, periodIdFor, periodRange, periodRangeLabel } from '../utils/periods';
 
 interface DashboardProps {
     budget: BudgetState;
     transactions: Transaction[];
+    recurring?: RecurringTransaction[];
+    categories: CategoryDefinition[];
+    accounts?: Account[];
+    periodSettings?: PeriodSettings;
     onUpdateBudget: (newBudget: BudgetState) => void;
     onResetBudget: () => void;
     onViewSummary: () => void;
     onViewWeekly: () => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUpdateBudget, onResetBudget, onViewSummary, onViewWeekly }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, recurring = [], categories, accounts = [], periodSettings = DEFAULT_PERIOD_SETTINGS, onUpdateBudget, onResetBudget, onViewSummary, onViewWeekly }) => {
     // Local state for inline editing
     const [editing, setEditing] = useState<'Weekly' | 'Monthly' | 'Savings' | null>(null);
     const [editValue, setEditValue] = useState('');
@@ -25,11 +32,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
     const [dismissedIds, setDismissedIds] = useState<Set<string>>(new Set());
 
     useEffect(() => {
-        const generated = generateAlerts(budget, transactions);
+        const generated = generateAlerts(budget, transactions, recurring, categories, periodSettings);
         // Filter out alerts that have been dismissed
         const visible = generated.filter(a => !dismissedIds.has(a.id));
         setActiveAlerts(visible);
-    }, [budget, transactions, dismissedIds]);
+    }, [budget, transactions, recurring, categories, periodSettings, dismissedIds]);
 
     const handleDismiss = (id: string) => {
         setDismissedIds(prev => {
@@ -39,19 +46,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
         });
     };
 
-    // Calculate totals
-    const totalSpent = transactions.reduce((acc, t) => acc + t.amount, 0);
-    const remainingTotal = budget.monthlyIncome - totalSpent;
+    // This budgeting month's inflows and outflows; refunds reduce spending, transfers are ignored
+    const now = new Date();
+    const monthFlow = useMemo(() => monthCashFlow(transactions, budget, categories, new Date(), periodSettings), [transactions, budget, categories, periodSettings]);
+    const monthId = periodIdFor(now, periodSettings);
+    const monthRange = periodRange(monthId, periodSettings.payCycle);
 
     // Calculate Weekly Spending Logic
     const weeklySpent = transactions
-        .filter(t => isSameWeek(new Date(t.date), new Date()) && CATEGORY_BUCKET_MAP[t.category] === 'Weekly')
-        .reduce((sum, t) => sum + t.amount, 0);
+        .filter(t => isInWeek(t, now, periodSettings) && bucketOf(t.category, categories) === 'Weekly')
+        .reduce((sum, t) => sum + spendingAmount(t), 0);
 
     // Calculate Monthly Bucket Spending
     const monthlyBucketSpent = transactions
-        .filter(t => CATEGORY_BUCKET_MAP[t.category] === 'Monthly')
-        .reduce((sum, t) => sum + t.amount, 0);
+        .filter(t => isInMonth(t, now, periodSettings) && bucketOf(t.category, categories) === 'Monthly')
+        .reduce((sum, t) => sum + spendingAmount(t), 0);
 
     const spentByBucket = {
         Weekly: weeklySpent,
@@ -101,20 +110,24 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
         if (e.key === 'Escape') setEditing(null);
     };
 
-    // Pie Chart Data
+    // Pie Chart Data (this month's net spending per category)
     const pieData = useMemo(() => {
-        const catMap = transactions.reduce((acc, t) => {
-            acc[t.category] = (acc[t.category] || 0) + t.amount;
-            return acc;
-        }, {} as Record<string, number>);
+        const catMap = transactions
+            .filter(t => isInMonth(t, new Date(), periodSettings))
+            .reduce((acc, t) => {
+                acc[t.category] = (acc[t.category] || 0) + spendingAmount(t);
+                return acc;
+            }, {} as Record<string, number>);
 
-        return Object.keys(catMap).map(key => ({
-            name: key,
-            value: catMap[key]
-        }));
-    }, [transactions]);
+        return Object.keys(catMap)
+            .filter(key => catMap[key] > 0)
+            .map(key => ({
+                name: key,
+                value: catMap[key]
+            }));
+    }, [transactions, periodSettings]);
 
-    const COLORS = ['#10b981', '#8b5cf6', '#f59e0b', '#3b82f6', '#ec4899', '#6366f1'];
+    const balances = useMemo(() => accountBalances(accounts, transactions), [accounts, transactions]);
 
     return (
         <div className="space-y-6">
@@ -131,11 +144,22 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
             <div className="sticky top-0 bg-[#0a0a0f]/80 backdrop-blur-xl z-40 py-4 -mx-4 px-4 border-b border-white/5">
                 <div className="flex justify-between items-start">
                     <div>
-                        <h2 className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-1">Total Balance</h2>
-                        <div className="text-4xl font-mono font-bold text-white flex items-baseline">
-                            ₹{remainingTotal.toLocaleString()}
-                            <span className="text-sm text-gray-500 font-sans font-normal ml-2">/ ₹{budget.monthlyIncome.toLocaleString()}</span>
+                        <h2 className="text-gray-400 text-sm font-medium uppercase tracking-wider mb-1">
+                            Balance · {new Date(`${monthId}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long' })}
+                            {monthRange && !isCalendarCycle(periodSettings.payCycle) && (
+                                <span className="normal-case tracking-normal text-gray-500"> ({periodRangeLabel(monthRange.start, monthRange.end)})</span>
+                            )}
+                        </h2>
+                        <div className={`text-4xl font-mono font-bold flex items-baseline ${monthFlow.balance < 0 ? 'text-red-400' : 'text-white'}`}>
+                            ₹{monthFlow.balance.toLocaleString()}
+                            <span className="text-sm text-gray-500 font-sans font-normal ml-2">/ ₹{monthFlow.income.toLocaleString()}</span>
                         </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                            {monthFlow.incomeIsPlanned ? 'Planned income' : 'Income received'} ₹{monthFlow.income.toLocaleString()}
+                            {' · '}Spent ₹{monthFlow.netSpent.toLocaleString()}
+                            {monthFlow.refunds > 0 && ` (after ₹${monthFlow.refunds.toLocaleString()} refunds)`}
+                            {monthFlow.saved > 0 && ` · Saved ₹${monthFlow.saved.toLocaleString()}`}
+                        </p>
                     </div>
 
                     {/* Actions */}
@@ -168,7 +192,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
                 <div className="mt-4 h-1.5 w-full bg-gray-800 rounded-full overflow-hidden">
                     <div
                         className="h-full bg-gradient-to-r from-emerald-500 via-teal-500 to-cyan-500 transition-all duration-1000"
-                        style={{ width: `${Math.min(100, (remainingTotal / budget.monthlyIncome) * 100)}%` }}
+                        style={{ width: `${Math.max(0, Math.min(100, (monthFlow.balance / monthFlow.income) * 100)) || 0}%` }}
                     />
                 </div>
             </div>
@@ -268,7 +292,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
                                     </div>
                                 ) : (
                                     <div className="flex items-baseline gap-2">
-                                        <span>₹{remainingTotal.toLocaleString()}</span>
+                                        <span>₹{monthFlow.unspent.toLocaleString()}</span>
                                         <span
                                             className="text-xs text-gray-500 font-normal cursor-pointer hover:text-emerald-300 transition-colors"
                                             onClick={() => handleStartEdit('Savings', limits['Savings'])}
@@ -283,9 +307,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
                         <span className="text-2xl">🏦</span>
                     </div>
                     {/* Progress Bar for Savings: Goal / Current */}
-                    <ProgressBar current={remainingTotal} total={limits['Savings']} color="bg-emerald-500" />
+                    <ProgressBar current={monthFlow.unspent} total={limits['Savings']} color="bg-emerald-500" />
                     <p className="text-xs text-gray-500 mt-2 text-right">
-                        {Math.min(100, Math.round((remainingTotal / limits['Savings']) * 100))}% of Goal Reached
+                        {Math.max(0, Math.min(100, Math.round((monthFlow.unspent / limits['Savings']) * 100))) || 0}% of Goal Reached
                     </p>
                 </Card>
             </div>
@@ -294,7 +318,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {/* Pie Chart */}
                 <Card className="min-h-[300px] flex flex-col">
-                    <h3 className="text-lg font-semibold mb-4 text-white">Expense Distribution</h3>
+                    <h3 className="text-lg font-semibold mb-4 text-white">Expense Distribution <span className="text-sm font-normal text-gray-500">this month</span></h3>
                     {pieData.length > 0 ? (
                         <div className="flex-1 w-full min-h-[200px]">
                             <ResponsiveContainer width="100%" height="100%">
@@ -309,7 +333,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
                                         dataKey="value"
                                     >
                                         {pieData.map((entry, index) => (
-                                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} stroke="rgba(0,0,0,0)" />
+                                            <Cell key={`cell-${index}`} fill={categoryColor(entry.name, categories)} stroke="rgba(0,0,0,0)" />
                                         ))}
                                     </Pie>
                                     <RechartsTooltip
@@ -319,9 +343,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
                                 </PieChart>
                             </ResponsiveContainer>
                             <div className="flex flex-wrap gap-2 justify-center mt-4">
-                                {pieData.map((entry, index) => (
+                                {pieData.map(entry => (
                                     <div key={entry.name} className="flex items-center gap-1 text-xs text-gray-400">
-                                        <div className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+                                        <div className="w-2 h-2 rounded-full" style={{ backgroundColor: categoryColor(entry.name, categories) }} />
                                         {entry.name}
                                     </div>
                                 ))}
@@ -333,13 +357,49 @@ export const Dashboard: React.FC<DashboardProps> = ({ budget, transactions, onUp
                         </div>
                     )}
                 </Card>
+
+                {/* Accounts: balances and credit card dues */}
+                {balances.length > 0 && (
+                    <Card className="flex flex-col">
+                        <h3 className="text-lg font-semibold mb-4 text-white">Accounts</h3>
+                        <div className="space-y-3">
+                            {balances.map(({ account, balance, due, available }) => (
+                                <div key={account.id} className="flex items-center justify-between">
+                                    <div>
+                                        <p className="text-sm font-medium text-gray-200">{account.name}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {ACCOUNT_TYPE_LABELS[account.type]}
+                                            {available !== undefined && ` · ₹${available.toLocaleString()} available`}
+                                        </p>
+                                    </div>
+                                    {due !== undefined ? (
+                                        <div className="text-right">
+                                            <p className={`text-sm font-mono font-bold ${due > 0 ? 'text-amber-300' : 'text-gray-400'}`}>
+                                                ₹{due.toLocaleString()} due
+                                            </p>
+                                            {due > 0 && account.dueDay && (
+                                                <p className="text-xs text-gray-500">
+                                                    by {nextCardDueDate(account.dueDay, now).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                                                </p>
+                                            )}
+                                        </div>
+                                    ) : (
+                                        <p className={`text-sm font-mono font-bold ${balance < 0 ? 'text-red-400' : 'text-white'}`}>
+                                            ₹{balance.toLocaleString()}
+                                        </p>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </Card>
+                )}
             </div>
         </div>
     );
 };
 
 const ProgressBar = ({ current, total, color }: { current: number, total: number, color: string }) => {
-    const percentage = Math.min(100, (current / total) * 100);
+    const percentage = Math.max(0, Math.min(100, (current / total) * 100));
     return (
         <div className="h-2 w-full bg-gray-800 rounded-full overflow-hidden">
             <div
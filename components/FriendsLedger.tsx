@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { Card } from './ui/Card';
+import { FriendBalance, UNNAMED_FRIENDS, buildSettlement, friendBalances } from '../utils/ledger';
+
+interface FriendsLedgerProps {
+    transactions: Transaction[];
+    // Records a repayment; it is stored as a transfer so it never counts as spending or income
+    onSettle: (settlement: Transaction) => void;
+    onBack: () => void;
+}
+
+const describeEntry = (t: Transaction, friend: FriendBalance): string => {
+    if (t.settlement) return t.settlement.received ? 'Paid you back' : 'You paid them back';
+    if (!t.split) return '';
+    if (t.split.paidBy === null) {
+        const share = t.split.friends.find(f => f.name.toLowerCase() === friend.name.toLowerCase());
+        return `You paid · their share ₹${share?.amount.toLocaleString() ?? 0}`;
+    }
+    return `They paid · your share ₹${t.split.myShare.toLocaleString()}`;
+};
+
+export const FriendsLedger: React.FC<FriendsLedgerProps> = ({ transactions, onSettle, onBack }) => {
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [partial, setPartial] = useState<Record<string, string>>({});
+
+    const balances = useMemo(() => friendBalances(transactions), [transactions]);
+    const owedToYou = balances.filter(b => b.balance > 0).reduce((sum, b) => sum + b.balance, 0);
+    const youOwe = balances.filter(b => b.balance < 0).reduce((sum, b) => sum - b.balance, 0);
+
+    const handleSettle = (friend: FriendBalance) => {
+        const typed = parseFloat(partial[friend.name] ?? '');
+        const amount = !isNaN(typed) && typed > 0 ? Math.min(typed, Math.abs(friend.balance)) : Math.abs(friend.balance);
+        const verb = friend.balance > 0 ? `${friend.name} paid you` : `you paid ${friend.name}`;
+        if (!window.confirm(`Record that ${verb} ₹${amount.toLocaleString()}?`)) return;
+        onSettle(buildSettlement(friend, amount));
+        setPartial(({ [friend.name]: _done, ...rest }) => rest);
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={onBack}
+                    className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors"
+                >
+                    ← Dashboard
+                </button>
+                <h2 className="text-2xl font-bold">Friends</h2>
+            </div>
+            <p className="text-sm text-gray-400">
+                Balances from bills you split. Only your share of a split bill counts towards your budgets; repayments are recorded as transfers.
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+                <Card>
+                    <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Owed to you</p>
+                    <p className="text-2xl font-mono font-bold text-emerald-400">₹{owedToYou.toLocaleString()}</p>
+                </Card>
+                <Card>
+                    <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">You owe</p>
+                    <p className="text-2xl font-mono font-bold text-red-400">₹{youOwe.toLocaleString()}</p>
+                </Card>
+            </div>
+
+            {balances.length === 0 ? (
+                <div className="text-center py-10 text-gray-500">
+                    <p className="text-4xl mb-2">🤝</p>
+                    <p>No shared bills yet. Try "dinner 2400 split with rahul and priya".</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {balances.map(friend => (
+                        <div key={friend.name} className="p-4 bg-white/5 rounded-xl border border-white/5 space-y-3">
+                            <div className="flex items-center justify-between gap-3">
+                                <button
+                                    onClick={() => setExpanded(expanded === friend.name ? null : friend.name)}
+                                    className="text-left"
+                                >
+                                    <p className="font-medium text-white">
+                                        {friend.name}
+                                        {friend.name === UNNAMED_FRIENDS && (
+                                            <span className="ml-2 text-xs text-gray-500">edit the split to name them</span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-gray-500">{friend.transactions.length} entries</p>
+                                </button>
+                                <div className="text-right">
+                                    {friend.balance === 0 ? (
+                                        <p className="text-sm text-gray-400">Settled up</p>
+                                    ) : (
+                                        <>
+                                            <p className={`font-mono font-bold ${friend.balance > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                                ₹{Math.abs(friend.balance).toLocaleString()}
+                                            </p>
+                                            <p className="text-xs text-gray-500">{friend.balance > 0 ? 'owes you' : 'you owe'}</p>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+
+                            {friend.balance !== 0 && (
+                                <div className="flex items-center justify-end gap-2">
+                                    <input
+                                        type="number"
+                                        value={partial[friend.name] ?? ''}
+                                        onChange={(e) => setPartial(prev => ({ ...prev, [friend.name]: e.target.value }))}
+                                        placeholder={`Full ₹${Math.abs(friend.balance)}`}
+                                        className="w-32 bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-sm font-mono text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                                        aria-label="Amount to settle"
+                                    />
+                                    <button
+                                        onClick={() => handleSettle(friend)}
+                                        className="px-3 py-1.5 text-xs rounded-lg bg-emerald-500 text-white hover:bg-emerald-400 transition-colors"
+                                    >
+                                        Settle up
+                                    </button>
+                                </div>
+                            )}
+
+                            {expanded === friend.name && (
+                                <div className="border-t border-white/5 pt-3 space-y-2">
+                                    {friend.transactions.map(t => (
+                                        <div key={t.id} className="flex items-center justify-between text-sm">
+                                            <div>
+                                                <p className="text-gray-200">{t.description}</p>
+                                                <p className="text-xs text-gray-500">
+                                                    {new Date(t.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} · {describeEntry(t, friend)}
+                                                </p>
+                                            </div>
+                                            <span className="font-mono text-gray-300">₹{t.amount.toLocaleString()}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
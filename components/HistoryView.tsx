@@ -2,14 +2,52 @@ import React, { useEffect, useState } from 'react';
 import { collection, getDocs, query, orderBy } from 'firebase/firestore';
 import { db } from '../utils/firebase';
 import { useAuth } from '../context/AuthContext';
-import { MonthlyStats, TransactionCategory } from '../types';
+import { BudgetAllocations, BudgetVersion, CategoryDefinition, MonthlyStats, WeeklyStats, TransactionCategory } from '../types';
+import { timeService } from '../services/time';
+import { allocationsForPeriod, bucketTotals } from '../utils/budgetHistory';
+import { periodRangeLabel } from '../utils/periods';
 import { Card } from './ui/Card';
 
-export const HistoryView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+const shortDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+// "25 Jan - 24 Feb" for a month archived under a pay cycle; null for a calendar month
+const cycleDates = (month: MonthlyStats): string | null => {
+    if (!month.startDate || !month.endDate || month.startDate === `${month.monthId}-01`) return null;
+    return periodRangeLabel(new Date(month.startDate + 'T00:00:00'), new Date(month.endDate + 'T00:00:00'));
+};
+
+interface HistoryViewProps {
+    categories: CategoryDefinition[];
+    budgetVersions: BudgetVersion[];
+    onBack: () => void;
+}
+
+// Spent against a limit: the bar fills towards the limit and turns red past it
+const LimitBar: React.FC<{ spent: number; limit: number; label: string }> = ({ spent, limit, label }) => {
+    const over = spent > limit;
+    return (
+        <div className="mt-3">
+            <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                <div
+                    className={`h-full rounded-full ${over ? 'bg-red-500' : 'bg-emerald-500'}`}
+                    style={{ width: `${Math.min(100, Math.max(0, (spent / limit) * 100))}%` }}
+                />
+            </div>
+            <p className={`text-xs mt-1 ${over ? 'text-red-400' : 'text-gray-500'}`}>
+                {over
+                    ? `₹${(spent - limit).toLocaleString()} over the ${label}`
+                    : `₹${(limit - spent).toLocaleString()} under the ${label}`}
+            </p>
+        </div>
+    );
+};
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ categories, budgetVersions, onBack }) => {
     const { user } = useAuth();
     const [months, setMonths] = useState<MonthlyStats[]>([]);
     const [loading, setLoading] = useState(true);
     const [selectedMonth, setSelectedMonth] = useState<MonthlyStats | null>(null);
+    const [expandedWeek, setExpandedWeek] = useState<string | null>(null);
 
     useEffect(() => {
         const fetchHistory = async () => {
@@ -22,6 +60,24 @@ export const HistoryView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                 );
                 const snapshot = await getDocs(q);
                 const data = snapshot.docs.map(doc => doc.data() as MonthlyStats);
+
+                // Months archived before weeks were linked have no weeks; fill them from history_weeks
+                if (data.some(month => !month.weeks || month.weeks.length === 0)) {
+                    const weekSnap = await getDocs(collection(db, 'users', user.id, 'history_weeks'));
+                    const byMonth = new Map<string, WeeklyStats[]>();
+                    weekSnap.docs.forEach(d => {
+                        const week = d.data() as WeeklyStats;
+                        const monthId = week.monthId ?? timeService.getWeekMonthId(week.weekId);
+                        if (!monthId) return;
+                        const list = byMonth.get(monthId) ?? [];
+                        list.push({ ...week, monthId, splitWeek: week.splitWeek ?? timeService.isSplitWeek(week.weekId) });
+                        byMonth.set(monthId, list);
+                    });
+                    data.forEach(month => {
+                        if (month.weeks && month.weeks.length > 0) return;
+                        month.weeks = (byMonth.get(month.monthId) ?? []).sort((a, b) => a.weekId.localeCompare(b.weekId));
+                    });
+                }
                 setMonths(data);
             } catch (error) {
                 console.error("Error fetching history:", error);
@@ -37,21 +93,52 @@ export const HistoryView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
         return <div className="p-8 text-center text-gray-400">Loading history...</div>;
     }
 
+    // Archives carry the budget they were judged by; older ones fall back to the version in force then
+    const weekBudget = (week: WeeklyStats): BudgetAllocations | null => {
+        if (week.allocations) return week.allocations;
+        const range = timeService.getWeekRange(week.weekId);
+        return range ? allocationsForPeriod(budgetVersions, range.end) : null;
+    };
+    const monthBudget = (month: MonthlyStats): BudgetAllocations | null => {
+        if (month.allocations) return month.allocations;
+        const end = month.endDate ? new Date(month.endDate + 'T23:59:59') : timeService.getMonthRange(month.monthId)?.end;
+        return end ? allocationsForPeriod(budgetVersions, end) : null;
+    };
+
     // Detail View of a specific month
     if (selectedMonth) {
+        const budget = monthBudget(selectedMonth);
+        const monthlyBills = bucketTotals(selectedMonth.categoryBreakdown, categories).Monthly;
         return (
             <div className="space-y-6 animate-fade-in-up">
                 <div className="flex items-center gap-4 mb-6">
                     <button
-                        onClick={() => setSelectedMonth(null)}
+                        onClick={() => { setSelectedMonth(null); setExpandedWeek(null); }}
                         className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors"
                     >
                         ← Back
                     </button>
-                    <h2 className="text-2xl font-bold">{selectedMonth.monthName}</h2>
+                    <div>
+                        <h2 className="text-2xl font-bold">{selectedMonth.monthName}</h2>
+                        {cycleDates(selectedMonth) && <p className="text-xs text-gray-500">{cycleDates(selectedMonth)}</p>}
+                    </div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
+                    {selectedMonth.totalIncome !== undefined && (
+                        <>
+                            <Card className="bg-teal-500/10 border-teal-500/20">
+                                <p className="text-sm text-gray-400">Income</p>
+                                <p className="text-2xl font-bold text-teal-300">₹{selectedMonth.totalIncome.toLocaleString()}</p>
+                            </Card>
+                            <Card className="bg-white/5 border-white/10">
+                                <p className="text-sm text-gray-400">Balance</p>
+                                <p className={`text-2xl font-bold ${(selectedMonth.balance ?? 0) < 0 ? 'text-red-400' : 'text-white'}`}>
+                                    ₹{(selectedMonth.balance ?? 0).toLocaleString()}
+                                </p>
+                            </Card>
+                        </>
+                    )}
                     <Card className="bg-emerald-500/10 border-emerald-500/20">
                         <p className="text-sm text-gray-400">Total Spent</p>
                         <p className="text-2xl font-bold text-emerald-400">₹{selectedMonth.totalSpent.toLocaleString()}</p>
@@ -59,9 +146,26 @@ export const HistoryView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                     <Card className="bg-violet-500/10 border-violet-500/20">
                         <p className="text-sm text-gray-400">Total Saved</p>
                         <p className="text-2xl font-bold text-violet-400">₹{selectedMonth.totalSaved.toLocaleString()}</p>
+                        {budget && budget.savingsTarget > 0 && (
+                            <p className="text-xs text-gray-500 mt-1">Goal ₹{budget.savingsTarget.toLocaleString()}</p>
+                        )}
                     </Card>
                 </div>
 
+                {budget && budget.monthlyLimit > 0 && (
+                    <Card className="bg-white/5 border-white/5">
+                        <div className="flex justify-between items-center">
+                            <p className="text-sm text-gray-400">Monthly bills & expenses</p>
+                            <p className="font-mono">
+                                ₹{monthlyBills.toLocaleString()}
+                                <span className="text-xs text-gray-500"> / ₹{budget.monthlyLimit.toLocaleString()}</span>
+                            </p>
+                        </div>
+                        <LimitBar spent={monthlyBills} limit={budget.monthlyLimit} label="monthly limit" />
+                        <p className="text-xs text-gray-600 mt-2">Limits shown are the ones that applied in {selectedMonth.monthName}.</p>
+                    </Card>
+                )}
+
                 {/* Category Breakdown */}
                 <h3 className="text-lg font-bold mt-8 mb-4">Category Breakdown</h3>
                 <div className="grid gap-3">
@@ -76,20 +180,86 @@ export const HistoryView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                 {/* Weeks Breakdown (if available) */}
                 {selectedMonth.weeks && selectedMonth.weeks.length > 0 && (
                     <>
-                        <h3 className="text-lg font-bold mt-8 mb-4">Weekly Summary</h3>
+                        <h3 className="text-lg font-bold mt-8 mb-1">Weekly Summary</h3>
+                        <p className="text-xs text-gray-500 mb-4">
+                            Each week counts towards the month holding its Thursday. Weeks that cross into another month show all seven days.
+                        </p>
                         <div className="space-y-3">
-                            {selectedMonth.weeks.map(week => (
-                                <Card key={week.weekId} className="bg-white/5 border-white/5 flex justify-between items-center">
-                                    <div>
-                                        <p className="font-semibold text-white">Week {week.weekId.split('-W')[1]}</p>
-                                        <p className="text-xs text-gray-500">{week.startDate ? `${week.startDate} - ${week.endDate}` : 'Dates n/a'}</p>
-                                    </div>
-                                    <div className="text-right">
-                                        <p className="text-emerald-400">₹{week.totalSpent.toLocaleString()}</p>
-                                        <p className="text-xs text-violet-400">Saved ₹{week.totalSaved}</p>
-                                    </div>
-                                </Card>
-                            ))}
+                            {selectedMonth.weeks.map(week => {
+                                const allocations = weekBudget(week);
+                                const limit = allocations?.weeklyLimit;
+                                const weeklySpent = bucketTotals(week.categoryBreakdown, categories).Weekly;
+                                const over = limit !== undefined && limit > 0 && weeklySpent > limit;
+                                const expanded = expandedWeek === week.weekId;
+                                const spending = (Object.entries(week.categoryBreakdown) as [TransactionCategory, number][])
+                                    .filter(([, amount]) => amount !== 0)
+                                    .sort(([, a], [, b]) => b - a);
+                                return (
+                                    <Card key={week.weekId} className="bg-white/5 border-white/5">
+                                        <button
+                                            onClick={() => setExpandedWeek(expanded ? null : week.weekId)}
+                                            className="w-full text-left"
+                                        >
+                                            <div className="flex justify-between items-center">
+                                                <div>
+                                                    <p className="font-semibold text-white flex items-center gap-2">
+                                                        Week {week.weekId.split('-W')[1]}
+                                                        {week.splitWeek && (
+                                                            <span className="text-[10px] font-normal px-1.5 py-0.5 rounded bg-amber-500/15 text-amber-300">Crosses months</span>
+                                                        )}
+                                                        {week.status === 'active' && (
+                                                            <span className="text-[10px] font-normal px-1.5 py-0.5 rounded bg-sky-500/15 text-sky-300">In progress</span>
+                                                        )}
+                                                    </p>
+                                                    <p className="text-xs text-gray-500">{week.startDate ? `${shortDate(week.startDate)} - ${shortDate(week.endDate)}` : 'Dates n/a'}</p>
+                                                </div>
+                                                <div className="text-right">
+                                                    <p className={over ? 'text-red-400' : 'text-emerald-400'}>
+                                                        ₹{week.totalSpent.toLocaleString()}
+                                                    </p>
+                                                    <p className="text-xs text-violet-400">Saved ₹{week.totalSaved}</p>
+                                                </div>
+                                            </div>
+                                            {limit !== undefined && limit > 0 && (
+                                                <>
+                                                    <p className="text-xs text-gray-400 mt-2">
+                                                        Weekly spending ₹{weeklySpent.toLocaleString()} of ₹{limit.toLocaleString()}
+                                                    </p>
+                                                    <LimitBar spent={weeklySpent} limit={limit} label="weekly limit" />
+                                                </>
+                                            )}
+                                        </button>
+
+                                        {expanded && (
+                                            <div className="mt-4 pt-3 border-t border-white/5 space-y-2">
+                                                {week.totalIncome !== undefined && (
+                                                    <div className="flex justify-between text-xs text-gray-400">
+                                                        <span>Income</span>
+                                                        <span className="font-mono text-teal-300">₹{week.totalIncome.toLocaleString()}</span>
+                                                    </div>
+                                                )}
+                                                {spending.length === 0 ? (
+                                                    <p className="text-xs text-gray-500">No spending this week.</p>
+                                                ) : spending.map(([cat, amount]) => {
+                                                    const catLimit = allocations?.weeklyCategoryLimits?.[cat] ?? 0;
+                                                    return (
+                                                        <div key={cat} className="flex justify-between text-sm">
+                                                            <span className="text-gray-300">{cat}</span>
+                                                            <span className={`font-mono ${catLimit > 0 && amount > catLimit ? 'text-red-400' : ''}`}>
+                                                                ₹{amount.toLocaleString()}
+                                                                {catLimit > 0 && <span className="text-xs text-gray-500"> / ₹{catLimit.toLocaleString()}</span>}
+                                                            </span>
+                                                        </div>
+                                                    );
+                                                })}
+                                                {!allocations && (
+                                                    <p className="text-xs text-gray-600">No budget was recorded for this week.</p>
+                                                )}
+                                            </div>
+                                        )}
+                                    </Card>
+                                );
+                            })}
                         </div>
                     </>
                 )}
@@ -127,7 +297,7 @@ export const HistoryView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
                                     <h3 className="text-xl font-bold text-white group-hover:text-emerald-400 transition-colors">
                                         {month.monthName}
                                     </h3>
-                                    <span className="text-xs text-gray-500 uppercase tracking-wider">{month.monthId}</span>
+                                    <span className="text-xs text-gray-500 uppercase tracking-wider">{cycleDates(month) ?? month.monthId}</span>
                                 </div>
                                 <div className="p-2 bg-white/5 rounded-full group-hover:bg-emerald-500/20 transition-colors">
                                     <span className="text-xl">➔</span>
@@ -0,0 +1,471 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Account, CategoryDefinition, CategoryRule, ColumnMapping, DateOrder, ImportPreset, ParsedExpense, StatementFormat, Transaction, TransactionCategory } from '../types';
+import { Card } from './ui/Card';
+import { categoryOptions } from '../utils/categories';
+import { activeAccounts } from '../utils/accounts';
+import {
+    DATE_ORDER_LABELS,
+    StatementParseResult,
+    buildImportedTransactions,
+    detectFormat,
+    findPreset,
+    guessMapping,
+    headerSignature,
+    importHistory,
+    parseCsv,
+    parseCsvStatement,
+    parseOfx,
+    parseQif,
+    proposeImport,
+    validateMapping,
+} from '../utils/statementImport';
+
+interface ImportWizardProps {
+    transactions: Transaction[];
+    categories: CategoryDefinition[];
+    rules: CategoryRule[];
+    accounts: Account[];
+    presets: ImportPreset[];
+    onSavePreset: (preset: ImportPreset) => void;
+    onDeletePreset: (id: string) => void;
+    // Saves the whole import in batches, reporting progress after each one
+    onImport: (transactions: Transaction[], onProgress: (done: number, total: number) => void) => Promise<void>;
+    onUndo: (importId: string) => Promise<void>;
+    onBack: () => void;
+}
+
+type Step = 'choose' | 'map' | 'review' | 'importing' | 'done';
+
+const inputClass = 'bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-emerald-500';
+
+const FORMAT_LABELS: Record<StatementFormat, string> = {
+    csv: 'CSV',
+    ofx: 'OFX',
+    qif: 'QIF',
+};
+
+// Optional columns are stored as undefined; the select uses '' for "none"
+const columnValue = (index: number | undefined) => (index === undefined ? '' : index.toString());
+const parseColumn = (value: string) => (value === '' ? undefined : Number(value));
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({
+    transactions,
+    categories,
+    rules,
+    accounts,
+    presets,
+    onSavePreset,
+    onDeletePreset,
+    onImport,
+    onUndo,
+    onBack,
+}) => {
+    const [step, setStep] = useState<Step>('choose');
+    const [fileName, setFileName] = useState('');
+    const [fileFormat, setFileFormat] = useState<StatementFormat>('csv');
+    const [accountId, setAccountId] = useState('');
+    const [rows, setRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [presetId, setPresetId] = useState<string | null>(null);
+    const [presetName, setPresetName] = useState('');
+    const [items, setItems] = useState<ParsedExpense[]>([]);
+    const [included, setIncluded] = useState<boolean[]>([]);
+    const [skipped, setSkipped] = useState(0);
+    const [progress, setProgress] = useState({ done: 0, total: 0 });
+    const [lastImport, setLastImport] = useState<{ importId: string; count: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const history = useMemo(() => importHistory(transactions), [transactions]);
+    const header = mapping ? rows[mapping.headerRow] ?? [] : [];
+    const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const sample = useMemo(
+        () => (mapping && !validateMapping(mapping) ? parseCsvStatement(rows, mapping).entries.slice(0, 5) : []),
+        [rows, mapping]
+    );
+
+    const reset = () => {
+        setStep('choose');
+        setFileName('');
+        setRows([]);
+        setMapping(null);
+        setPresetId(null);
+        setPresetName('');
+        setItems([]);
+        setIncluded([]);
+        setError(null);
+    };
+
+    // Duplicates start unticked; everything else is imported unless the user says otherwise
+    const review = (result: StatementParseResult) => {
+        if (result.entries.length === 0) {
+            setError('No transactions found in this file');
+            return;
+        }
+        const proposed = proposeImport(result.entries, transactions, categories, rules, accounts, accountId || undefined);
+        setItems(proposed);
+        setIncluded(proposed.map(item => !item.duplicateOf));
+        setSkipped(result.skipped);
+        setError(null);
+        setStep('review');
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const text = await file.text();
+        const detected = detectFormat(file.name, text);
+        setFileName(file.name);
+        setFileFormat(detected);
+
+        if (detected === 'ofx') return review(parseOfx(text));
+        if (detected === 'qif') return review(parseQif(text));
+
+        const parsedRows = parseCsv(text);
+        if (parsedRows.length < 2) {
+            setError('This file has no rows to import');
+            return;
+        }
+        const preset = findPreset(parsedRows, presets);
+        setRows(parsedRows);
+        setMapping(preset?.mapping ?? guessMapping(parsedRows));
+        setPresetId(preset?.id ?? null);
+        setPresetName(preset?.name ?? '');
+        setError(null);
+        setStep('map');
+    };
+
+    const updateMapping = (patch: Partial<ColumnMapping>) => {
+        if (mapping) setMapping({ ...mapping, ...patch });
+        setError(null);
+    };
+
+    const applyPreset = (id: string) => {
+        const preset = presets.find(p => p.id === id);
+        setPresetId(preset?.id ?? null);
+        setPresetName(preset?.name ?? '');
+        setMapping(preset ? preset.mapping : guessMapping(rows));
+    };
+
+    const handleMapped = () => {
+        if (!mapping) return;
+        const problem = validateMapping(mapping);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        // Naming the mapping saves it (or updates the preset it came from) for this bank's next statement
+        if (presetName.trim()) {
+            const existing = presets.find(p => p.id === presetId);
+            const now = Date.now();
+            onSavePreset({
+                ...(existing ?? { id: now.toString(), createdAt: now }),
+                name: presetName.trim(),
+                headers: headerSignature(rows[mapping.headerRow] ?? []),
+                mapping,
+                ...(existing ? { updatedAt: now } : {}),
+            });
+        }
+        review(parseCsvStatement(rows, mapping));
+    };
+
+    const setCategory = (idx: number, category: TransactionCategory) => {
+        setItems(prev => prev.map((item, i) => (i === idx ? { ...item, category, fields: { ...item.fields, category: { source: 'user', confidence: 1 } } } : item)));
+    };
+
+    const handleImport = async () => {
+        const importId = Date.now().toString();
+        const chosen = buildImportedTransactions(items.filter((_, idx) => included[idx]), importId);
+        if (chosen.length === 0) return;
+        setProgress({ done: 0, total: chosen.length });
+        setStep('importing');
+        try {
+            await onImport(chosen, (done, total) => setProgress({ done, total }));
+            setLastImport({ importId, count: chosen.length });
+            setStep('done');
+        } catch (e) {
+            console.error("Error importing transactions:", e);
+            setError('The import did not finish. Anything already saved can be undone from the import list.');
+            setStep('review');
+        }
+    };
+
+    const handleUndo = async (importId: string, count: number) => {
+        if (!window.confirm(`Remove the ${count} transactions from this import?`)) return;
+        await onUndo(importId);
+        if (lastImport?.importId === importId) {
+            setLastImport(null);
+            reset();
+        }
+    };
+
+    const includedCount = included.filter(Boolean).length;
+    const duplicateCount = items.filter(item => item.duplicateOf).length;
+
+    const columnSelect = (label: string, value: number | undefined, onChange: (value: number | undefined) => void, optional = false) => (
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+            {label}
+            <select value={columnValue(value)} onChange={(e) => onChange(parseColumn(e.target.value))} className={inputClass}>
+                {optional && <option value="">None</option>}
+                {Array.from({ length: columnCount }, (_, i) => (
+                    <option key={i} value={i}>{`${i + 1}. ${header[i] || '(blank)'}`}</option>
+                ))}
+            </select>
+        </label>
+    );
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={onBack}
+                    className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors"
+                >
+                    ← Dashboard
+                </button>
+                <h2 className="text-2xl font-bold">Import Statement</h2>
+            </div>
+
+            {step === 'choose' && (
+                <>
+                    <p className="text-sm text-gray-400">
+                        Import a bank or card statement exported as CSV, OFX or QIF. You can check every row before anything is saved, and undo an import later.
+                    </p>
+                    <Card>
+                        <div className="flex flex-col md:flex-row gap-3 md:items-end">
+                            {activeAccounts(accounts).length > 0 && (
+                                <label className="flex flex-col gap-1 text-xs text-gray-400 md:w-1/3">
+                                    Statement for
+                                    <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+                                        <option value="">No account</option>
+                                        {activeAccounts(accounts).map(a => (
+                                            <option key={a.id} value={a.id}>{a.name}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            )}
+                            <label className="flex-1 cursor-pointer px-4 py-2 rounded-lg text-sm font-medium text-center bg-emerald-500 text-white hover:bg-emerald-400 transition-colors">
+                                Choose file
+                                <input type="file" accept=".csv,.txt,.ofx,.qfx,.qif" onChange={handleFile} className="hidden" />
+                            </label>
+                        </div>
+                        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+                    </Card>
+
+                    {history.length > 0 && (
+                        <>
+                            <h3 className="text-lg font-bold mt-8">Past imports</h3>
+                            <div className="space-y-3">
+                                {history.map(entry => (
+                                    <div key={entry.importId} className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/5">
+                                        <div>
+                                            <p className="text-white">{entry.count} transactions</p>
+                                            <p className="text-xs text-gray-500">Imported {format(new Date(entry.importedAt), 'd MMM yyyy, HH:mm')}</p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleUndo(entry.importId, entry.count)}
+                                            className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+                                        >
+                                            Undo import
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
+
+            {step === 'map' && mapping && (
+                <Card>
+                    <h3 className="text-lg font-semibold mb-1">Match the columns</h3>
+                    <p className="text-sm text-gray-400 mb-4">{fileName}: tell us which column is which. Name the mapping to reuse it for this bank's next statement.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {presets.length > 0 && (
+                            <label className="flex flex-col gap-1 text-xs text-gray-400">
+                                Saved mapping
+                                <div className="flex gap-2">
+                                    <select value={presetId ?? ''} onChange={(e) => applyPreset(e.target.value)} className={`flex-1 ${inputClass}`}>
+                                        <option value="">Guess from headers</option>
+                                        {presets.map(p => (
+                                            <option key={p.id} value={p.id}>{p.name}</option>
+                                        ))}
+                                    </select>
+                                    {presetId && (
+                                        <button
+                                            type="button"
+                                            onClick={() => { onDeletePreset(presetId); applyPreset(''); }}
+                                            className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+                                        >
+                                            Delete
+                                        </button>
+                                    )}
+                                </div>
+                            </label>
+                        )}
+                        <label className="flex flex-col gap-1 text-xs text-gray-400">
+                            Header row
+                            <input
+                                type="number"
+                                min="1"
+                                max={rows.length}
+                                value={mapping.headerRow + 1}
+                                onChange={(e) => updateMapping({ headerRow: Math.max(0, Math.min(rows.length - 1, Number(e.target.value) - 1)) })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs text-gray-400">
+                            Date format
+                            <select value={mapping.dateOrder} onChange={(e) => updateMapping({ dateOrder: e.target.value as DateOrder })} className={inputClass}>
+                                {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map(order => (
+                                    <option key={order} value={order}>{DATE_ORDER_LABELS[order]}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {columnSelect('Date', mapping.date, value => updateMapping({ date: value ?? 0 }))}
+                        {columnSelect('Description', mapping.description, value => updateMapping({ description: value ?? 0 }))}
+                        {columnSelect('Amount (signed)', mapping.amount, value => updateMapping({ amount: value }), true)}
+                        {mapping.amount === undefined && (
+                            <>
+                                {columnSelect('Debit / withdrawal', mapping.debit, value => updateMapping({ debit: value }), true)}
+                                {columnSelect('Credit / deposit', mapping.credit, value => updateMapping({ credit: value }), true)}
+                            </>
+                        )}
+                        {columnSelect('Reference', mapping.reference, value => updateMapping({ reference: value }), true)}
+                        <label className="flex flex-col gap-1 text-xs text-gray-400">
+                            Save mapping as
+                            <input
+                                type="text"
+                                value={presetName}
+                                onChange={(e) => setPresetName(e.target.value)}
+                                placeholder="e.g. HDFC savings"
+                                className={inputClass}
+                            />
+                        </label>
+                    </div>
+
+                    {sample.length > 0 && (
+                        <div className="mt-4 space-y-1 text-xs font-mono text-gray-400">
+                            {sample.map((entry, idx) => (
+                                <div key={idx} className="flex justify-between gap-4">
+                                    <span className="truncate">{format(entry.date, 'd MMM yyyy')} · {entry.description}</span>
+                                    <span className={entry.amount < 0 ? 'text-white' : 'text-emerald-400'}>
+                                        {entry.amount < 0 ? '-' : '+'}₹{Math.abs(entry.amount).toLocaleString()}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+                    <div className="flex justify-end gap-2 mt-4">
+                        <button onClick={reset} className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors">Cancel</button>
+                        <button
+                            onClick={handleMapped}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 transition-colors"
+                        >
+                            Next
+                        </button>
+                    </div>
+                </Card>
+            )}
+
+            {step === 'review' && (
+                <>
+                    <p className="text-sm text-gray-400">
+                        {items.length} transactions in {fileName} ({FORMAT_LABELS[fileFormat]})
+                        {skipped > 0 && `, ${skipped} rows without a date or amount skipped`}
+                        {duplicateCount > 0 && `. ${duplicateCount} look already recorded and are unticked`}.
+                    </p>
+                    <div className="space-y-2">
+                        {items.map((item, idx) => {
+                            const duplicate = item.duplicateOf ? transactions.find(t => t.id === item.duplicateOf) : undefined;
+                            return (
+                                <div key={idx} className={`flex items-center gap-3 p-3 bg-white/5 rounded-xl border border-white/5 ${included[idx] ? '' : 'opacity-50'}`}>
+                                    <input
+                                        type="checkbox"
+                                        checked={included[idx] ?? false}
+                                        onChange={() => setIncluded(prev => prev.map((value, i) => (i === idx ? !value : value)))}
+                                        aria-label="Import this transaction"
+                                    />
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm text-white truncate">{item.description}</p>
+                                        <div className="flex items-center gap-2 text-xs text-gray-500">
+                                            <span>{format(item.date, 'd MMM yyyy')}</span>
+                                            {item.direction === 'expense' || item.direction === 'refund' ? (
+                                                <select
+                                                    value={item.category ?? ''}
+                                                    onChange={(e) => setCategory(idx, e.target.value)}
+                                                    className="bg-transparent border-none p-0 text-xs text-gray-400 focus:ring-0 cursor-pointer"
+                                                    aria-label="Category"
+                                                >
+                                                    {categoryOptions(categories, item.category).map(cat => (
+                                                        <option key={cat} value={cat} className="bg-[#1a1b26]">{cat}</option>
+                                                    ))}
+                                                </select>
+                                            ) : (
+                                                <span className="uppercase text-teal-300">{item.direction}</span>
+                                            )}
+                                            {duplicate && (
+                                                <span className="text-amber-300">
+                                                    Possible duplicate of "{duplicate.description}" on {format(new Date(duplicate.date), 'd MMM')}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <span className={`font-mono font-bold ${item.direction === 'income' || item.direction === 'refund' ? 'text-emerald-400' : 'text-white'}`}>
+                                        ₹{item.amount?.toLocaleString()}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button onClick={reset} className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors">Cancel</button>
+                        <button
+                            onClick={handleImport}
+                            disabled={includedCount === 0}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 disabled:bg-white/10 disabled:text-gray-500 transition-colors"
+                        >
+                            Import {includedCount}
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {step === 'importing' && (
+                <Card>
+                    <p className="text-sm text-gray-300 mb-3">Saving {progress.done} of {progress.total}...</p>
+                    <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                        <div
+                            className="h-full bg-emerald-500 transition-all"
+                            style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                        />
+                    </div>
+                </Card>
+            )}
+
+            {step === 'done' && lastImport && (
+                <Card>
+                    <p className="text-lg font-semibold mb-1">Imported {lastImport.count} transactions</p>
+                    <p className="text-sm text-gray-400 mb-4">Something look wrong? Undo removes everything this import added.</p>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => handleUndo(lastImport.importId, lastImport.count)}
+                            className="px-4 py-2 rounded-lg text-sm bg-white/5 text-gray-300 hover:bg-white/10 hover:text-red-400 transition-colors"
+                        >
+                            Undo import
+                        </button>
+                        <button
+                            onClick={reset}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 transition-colors"
+                        >
+                            Import another
+                        </button>
+                    </div>
+                </Card>
+            )}
+        </div>
+    );
+};
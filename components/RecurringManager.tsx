@@ -0,0 +1,412 @@
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CategoryDefinition, RecurringTransaction, RecurrenceCadence, Transaction, TransactionCategory, TransactionDirection } from '../types';
+import { Card } from './ui/Card';
+import { activeCategories, categoryOptions, fallbackCategory } from '../utils/categories';
+import { CADENCE_LABELS, firstOccurrenceFrom, nextOccurrence, occurrenceKey, resumeRecurring, skipNextOccurrence } from '../utils/recurring';
+import { DetectedSubscription, detectSubscriptions, subscriptionToRecurring } from '../utils/subscriptions';
+
+interface RecurringManagerProps {
+    recurring: RecurringTransaction[];
+    transactions: Transaction[];
+    categories: CategoryDefinition[];
+    timeZone?: string;
+    onSave: (item: RecurringTransaction) => void;
+    onDelete: (id: string) => void;
+    onBack: () => void;
+}
+
+interface ScheduleDraft {
+    description: string;
+    amount: string;
+    direction: TransactionDirection;
+    category: TransactionCategory;
+    cadence: RecurrenceCadence;
+    interval: string;
+    startDate: string; // yyyy-MM-dd
+    endDate: string; // yyyy-MM-dd, empty for open-ended
+}
+
+interface OccurrenceDraft {
+    id: string;
+    key: string; // occurrence date, yyyy-MM-dd
+    amount: string;
+    description: string;
+}
+
+// Bills are the usual thing to schedule, so a new draft starts in the first monthly category
+const emptyDraft = (categories: CategoryDefinition[]): ScheduleDraft => ({
+    description: '',
+    amount: '',
+    direction: 'expense',
+    category: activeCategories(categories).find(c => c.bucket === 'Monthly')?.name ?? fallbackCategory(categories),
+    cadence: 'monthly',
+    interval: '1',
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    endDate: '',
+});
+
+const CADENCE_UNITS: Record<RecurrenceCadence, string> = {
+    daily: 'days',
+    weekly: 'weeks',
+    monthly: 'months',
+    quarterly: 'quarters',
+    yearly: 'years',
+};
+
+const inputClass = 'bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-emerald-500';
+
+export const RecurringManager: React.FC<RecurringManagerProps> = ({ recurring, transactions, categories, timeZone, onSave, onDelete, onBack }) => {
+    const [draft, setDraft] = useState<ScheduleDraft>(() => emptyDraft(categories));
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [occurrenceDraft, setOccurrenceDraft] = useState<OccurrenceDraft | null>(null);
+
+    const sorted = [...recurring].sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate));
+    const detected = useMemo(() => detectSubscriptions(transactions, recurring, new Date(), timeZone), [transactions, recurring, timeZone]);
+    const activeMonthlyCost = detected.filter(s => !s.stopped).reduce((sum, s) => sum + s.monthlyCost, 0);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = parseFloat(draft.amount);
+        const interval = parseInt(draft.interval, 10);
+        if (!draft.description.trim() || isNaN(amount) || amount <= 0 || isNaN(interval) || interval < 1 || !draft.startDate) return;
+
+        const existing = recurring.find(r => r.id === editingId);
+        const now = Date.now();
+        const startDate = parseISO(draft.startDate).toISOString();
+        // Firestore rejects undefined fields, so an open-ended schedule has no endDate at all
+        const { endDate: _previousEnd, ...base } = existing ?? { id: now.toString(), paused: false, createdAt: now };
+        const item: RecurringTransaction = {
+            ...base,
+            description: draft.description.trim(),
+            amount,
+            direction: draft.direction,
+            category: draft.category,
+            cadence: draft.cadence,
+            interval,
+            startDate,
+            nextDueDate: startDate,
+            ...(draft.endDate ? { endDate: parseISO(draft.endDate).toISOString() } : {}),
+            ...(existing ? { updatedAt: now } : {}),
+        };
+        // An edited schedule continues from where it was; occurrences already posted are not re-posted
+        if (existing) {
+            const resumeFrom = Math.max(Date.parse(existing.nextDueDate), Date.parse(startDate));
+            item.nextDueDate = firstOccurrenceFrom(item, new Date(resumeFrom)).toISOString();
+        }
+
+        onSave(item);
+        setDraft(emptyDraft(categories));
+        setEditingId(null);
+    };
+
+    const startEditing = (item: RecurringTransaction) => {
+        setEditingId(item.id);
+        setDraft({
+            description: item.description,
+            amount: item.amount.toString(),
+            direction: item.direction ?? 'expense',
+            category: item.category,
+            cadence: item.cadence,
+            interval: item.interval.toString(),
+            startDate: format(new Date(item.startDate), 'yyyy-MM-dd'),
+            endDate: item.endDate ? format(new Date(item.endDate), 'yyyy-MM-dd') : '',
+        });
+    };
+
+    const startEditingOccurrence = (item: RecurringTransaction, date: Date) => {
+        const key = occurrenceKey(date);
+        const override = item.overrides?.[key];
+        setOccurrenceDraft({
+            id: item.id,
+            key,
+            amount: (override?.amount ?? item.amount).toString(),
+            description: override?.description ?? item.description,
+        });
+    };
+
+    const saveOccurrence = (item: RecurringTransaction) => {
+        if (!occurrenceDraft) return;
+        const amount = parseFloat(occurrenceDraft.amount);
+        if (isNaN(amount) || amount <= 0) return;
+
+        const description = occurrenceDraft.description.trim();
+        const override = {
+            ...(amount !== item.amount ? { amount } : {}),
+            ...(description && description !== item.description ? { description } : {}),
+        };
+        const { [occurrenceDraft.key]: _previous, ...others } = item.overrides ?? {};
+        onSave({
+            ...item,
+            overrides: Object.keys(override).length > 0 ? { ...others, [occurrenceDraft.key]: override } : others,
+            updatedAt: Date.now(),
+        });
+        setOccurrenceDraft(null);
+    };
+
+    const togglePaused = (item: RecurringTransaction) => {
+        onSave(item.paused ? resumeRecurring(item) : { ...item, paused: true, updatedAt: Date.now() });
+    };
+
+    const describeSubscription = (s: DetectedSubscription) => {
+        const cadence = s.interval > 1 ? `every ${s.interval} ${CADENCE_UNITS[s.cadence]}` : CADENCE_LABELS[s.cadence].toLowerCase();
+        return `${cadence} · ${s.charges.length} charges · last ${format(new Date(s.lastDate), 'd MMM')}`;
+    };
+
+    const describeCadence = (item: RecurringTransaction) =>
+        item.interval > 1 ? `Every ${item.interval} ${CADENCE_UNITS[item.cadence]}` : CADENCE_LABELS[item.cadence];
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={onBack}
+                    className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors"
+                >
+                    ← Dashboard
+                </button>
+                <h2 className="text-2xl font-bold">Recurring & Bills</h2>
+            </div>
+            <p className="text-sm text-gray-400">
+                Due items are added automatically when you open the app, including any that fell due while it was closed. Upcoming bills count towards the monthly limit alerts.
+            </p>
+
+            {/* Add / Edit Schedule */}
+            <Card>
+                <form onSubmit={handleSubmit} className="space-y-3">
+                    <div className="flex flex-col md:flex-row gap-3">
+                        <input
+                            type="text"
+                            value={draft.description}
+                            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                            placeholder="e.g. Rent, Netflix, Salary"
+                            className={`flex-1 ${inputClass}`}
+                        />
+                        <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={draft.amount}
+                            onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                            placeholder="Amount"
+                            className={`md:w-32 ${inputClass}`}
+                        />
+                        <select
+                            value={draft.direction}
+                            onChange={(e) => setDraft({ ...draft, direction: e.target.value as TransactionDirection })}
+                            className={inputClass}
+                        >
+                            <option value="expense">Expense</option>
+                            <option value="income">Income</option>
+                        </select>
+                        <select
+                            value={draft.category}
+                            onChange={(e) => setDraft({ ...draft, category: e.target.value as TransactionCategory })}
+                            className={inputClass}
+                        >
+                            {categoryOptions(categories, draft.category).map(cat => (
+                                <option key={cat} value={cat}>{cat}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex flex-col md:flex-row md:items-center gap-3 text-sm text-gray-400">
+                        <label className="flex items-center gap-2">
+                            Every
+                            <input
+                                type="number"
+                                min="1"
+                                value={draft.interval}
+                                onChange={(e) => setDraft({ ...draft, interval: e.target.value })}
+                                className={`w-16 ${inputClass}`}
+                            />
+                        </label>
+                        <select
+                            value={draft.cadence}
+                            onChange={(e) => setDraft({ ...draft, cadence: e.target.value as RecurrenceCadence })}
+                            className={inputClass}
+                        >
+                            {(Object.keys(CADENCE_LABELS) as RecurrenceCadence[]).map(cadence => (
+                                <option key={cadence} value={cadence}>{CADENCE_LABELS[cadence]}</option>
+                            ))}
+                        </select>
+                        <label className="flex items-center gap-2">
+                            First due
+                            <input
+                                type="date"
+                                value={draft.startDate}
+                                onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            Ends
+                            <input
+                                type="date"
+                                value={draft.endDate}
+                                onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+                                className={inputClass}
+                            />
+                        </label>
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        {editingId && (
+                            <button
+                                type="button"
+                                onClick={() => { setEditingId(null); setDraft(emptyDraft(categories)); }}
+                                className="px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                        <button
+                            type="submit"
+                            disabled={!draft.description.trim() || !draft.amount}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 disabled:bg-white/10 disabled:text-gray-500 transition-colors"
+                        >
+                            {editingId ? 'Save Changes' : 'Add Schedule'}
+                        </button>
+                    </div>
+                </form>
+            </Card>
+
+            {/* Detected Subscriptions */}
+            {detected.length > 0 && (
+                <Card>
+                    <div className="flex items-baseline justify-between mb-3">
+                        <h3 className="font-semibold text-white">Detected Subscriptions</h3>
+                        <p className="text-xs text-gray-400">
+                            ₹{Math.round(activeMonthlyCost).toLocaleString()}/month · ₹{Math.round(activeMonthlyCost * 12).toLocaleString()}/year
+                        </p>
+                    </div>
+                    <div className="space-y-2">
+                        {detected.map(s => (
+                            <div key={s.key} className={`flex items-center justify-between gap-3 p-3 bg-black/20 rounded-lg ${s.stopped ? 'opacity-60' : ''}`}>
+                                <div className="min-w-0">
+                                    <p className="text-sm text-white truncate">
+                                        {s.description}
+                                        {s.stopped && <span className="ml-2 text-xs text-gray-400">Stopped?</span>}
+                                        {s.priceIncrease && (
+                                            <span className="ml-2 text-xs text-amber-400">
+                                                ↑ ₹{s.priceIncrease.from} → ₹{s.priceIncrease.to}
+                                            </span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-gray-500 mt-0.5">{describeSubscription(s)}</p>
+                                </div>
+                                <div className="text-right whitespace-nowrap">
+                                    <p className="text-sm font-bold text-white">₹{s.amount}</p>
+                                    <p className="text-xs text-gray-500">₹{Math.round(s.annualCost).toLocaleString()}/yr</p>
+                                </div>
+                                {s.tracked ? (
+                                    <span className="text-xs text-emerald-400 w-16 text-center">Tracked</span>
+                                ) : (
+                                    <button
+                                        onClick={() => onSave(subscriptionToRecurring(s))}
+                                        disabled={s.stopped}
+                                        className="w-16 px-2 py-1 rounded-lg text-xs font-medium bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30 disabled:bg-white/5 disabled:text-gray-600 transition-colors"
+                                        title={s.stopped ? 'No recent charges' : 'Track as a recurring bill'}
+                                    >
+                                        Track
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            )}
+
+            {/* Schedule List */}
+            {sorted.length === 0 ? (
+                <div className="text-center py-16 text-gray-500 bg-white/5 rounded-2xl border border-white/5 border-dashed">
+                    <p>No recurring items yet.</p>
+                    <p className="text-sm mt-2">Add rent, subscriptions, EMIs or your salary and they will be recorded for you.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {sorted.map(item => {
+                        const next = nextOccurrence(item);
+                        const nextOverride = next ? item.overrides?.[occurrenceKey(next)] : undefined;
+                        const isEditingOccurrence = occurrenceDraft?.id === item.id;
+                        return (
+                            <div key={item.id} className={`p-4 bg-white/5 hover:bg-white/10 rounded-xl border border-white/5 transition-all ${item.paused ? 'opacity-60' : ''}`}>
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-white font-medium truncate">
+                                            {item.description}
+                                            {item.paused && <span className="ml-2 text-xs text-amber-400">Paused</span>}
+                                        </p>
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            {describeCadence(item)} · {item.category}
+                                            {item.endDate && ` · until ${format(new Date(item.endDate), 'd MMM yyyy')}`}
+                                        </p>
+                                        <p className="text-xs text-gray-400 mt-1">
+                                            {next
+                                                ? <>Next: {format(next, 'EEE, d MMM yyyy')}{nextOverride && <span className="text-violet-300"> (edited)</span>}</>
+                                                : 'Ended'}
+                                        </p>
+                                    </div>
+                                    <p className={`font-bold whitespace-nowrap ${item.direction === 'income' ? 'text-emerald-400' : 'text-white'}`}>
+                                        {item.direction === 'income' ? '+' : ''}₹{nextOverride?.amount ?? item.amount}
+                                    </p>
+                                </div>
+
+                                {isEditingOccurrence && next ? (
+                                    <div className="flex flex-col md:flex-row gap-2 mt-3">
+                                        <input
+                                            type="text"
+                                            value={occurrenceDraft.description}
+                                            onChange={(e) => setOccurrenceDraft({ ...occurrenceDraft, description: e.target.value })}
+                                            className={`flex-1 ${inputClass}`}
+                                        />
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="any"
+                                            value={occurrenceDraft.amount}
+                                            onChange={(e) => setOccurrenceDraft({ ...occurrenceDraft, amount: e.target.value })}
+                                            className={`md:w-32 ${inputClass}`}
+                                        />
+                                        <button
+                                            onClick={() => saveOccurrence(item)}
+                                            className="px-3 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 transition-colors"
+                                        >
+                                            Save
+                                        </button>
+                                        <button
+                                            onClick={() => setOccurrenceDraft(null)}
+                                            className="px-3 py-2 rounded-lg text-sm text-gray-400 hover:text-white transition-colors"
+                                        >
+                                            Cancel
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="flex flex-wrap gap-3 mt-3 text-xs">
+                                        <button onClick={() => togglePaused(item)} className="text-gray-400 hover:text-white transition-colors">
+                                            {item.paused ? 'Resume' : 'Pause'}
+                                        </button>
+                                        {next && !item.paused && (
+                                            <>
+                                                <button onClick={() => onSave(skipNextOccurrence(item))} className="text-gray-400 hover:text-white transition-colors">
+                                                    Skip next
+                                                </button>
+                                                <button onClick={() => startEditingOccurrence(item, next)} className="text-gray-400 hover:text-white transition-colors">
+                                                    Edit next
+                                                </button>
+                                            </>
+                                        )}
+                                        <button onClick={() => startEditing(item)} className="text-gray-400 hover:text-emerald-300 transition-colors">
+                                            Edit schedule
+                                        </button>
+                                        <button onClick={() => onDelete(item.id)} className="text-gray-500 hover:text-red-400 transition-colors">
+                                            Delete
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { CategoryDefinition, CategoryRule, TransactionCategory } from '../types';
+import { Card } from './ui/Card';
+import { categoryOptions, fallbackCategory } from '../utils/categories';
+
+interface RulesManagerProps {
+    rules: CategoryRule[];
+    categories: CategoryDefinition[];
+    onSaveRule: (rule: CategoryRule) => void;
+    onDeleteRule: (id: string) => void;
+    onBack: () => void;
+}
+
+export const RulesManager: React.FC<RulesManagerProps> = ({ rules, categories, onSaveRule, onDeleteRule, onBack }) => {
+    const [newPattern, setNewPattern] = useState('');
+    const [newCategory, setNewCategory] = useState<TransactionCategory>(() => fallbackCategory(categories));
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editPattern, setEditPattern] = useState('');
+
+    const sortedRules = [...rules].sort((a, b) => a.pattern.localeCompare(b.pattern));
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const pattern = newPattern.trim().toLowerCase();
+        if (!pattern) return;
+
+        const existing = rules.find(r => r.pattern === pattern);
+        const now = Date.now();
+        onSaveRule(existing
+            ? { ...existing, category: newCategory, source: 'manual', updatedAt: now }
+            : { id: now.toString(), pattern, category: newCategory, source: 'manual', createdAt: now });
+        setNewPattern('');
+    };
+
+    const handleSavePattern = (rule: CategoryRule) => {
+        const pattern = editPattern.trim().toLowerCase();
+        if (pattern && pattern !== rule.pattern) {
+            onSaveRule({ ...rule, pattern, source: 'manual', updatedAt: Date.now() });
+        }
+        setEditingId(null);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent, rule: CategoryRule) => {
+        if (e.key === 'Enter') handleSavePattern(rule);
+        if (e.key === 'Escape') setEditingId(null);
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={onBack}
+                    className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors"
+                >
+                    ← Dashboard
+                </button>
+                <h2 className="text-2xl font-bold">Categorisation Rules</h2>
+            </div>
+            <p className="text-sm text-gray-400">
+                Rules are checked before the built-in keywords and the AI. They are learned automatically when you change the category of a parsed item.
+            </p>
+
+            {/* Add Rule */}
+            <Card>
+                <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-3">
+                    <input
+                        type="text"
+                        value={newPattern}
+                        onChange={(e) => setNewPattern(e.target.value)}
+                        placeholder="Merchant or keyword, e.g. dmart"
+                        className="flex-1 bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                    />
+                    <select
+                        value={newCategory}
+                        onChange={(e) => setNewCategory(e.target.value as TransactionCategory)}
+                        className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                    >
+                        {categoryOptions(categories, newCategory).map(cat => (
+                            <option key={cat} value={cat}>{cat}</option>
+                        ))}
+                    </select>
+                    <button
+                        type="submit"
+                        disabled={!newPattern.trim()}
+                        className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 disabled:bg-white/10 disabled:text-gray-500 transition-colors"
+                    >
+                        Add Rule
+                    </button>
+                </form>
+            </Card>
+
+            {/* Rule List */}
+            {sortedRules.length === 0 ? (
+                <div className="text-center py-16 text-gray-500 bg-white/5 rounded-2xl border border-white/5 border-dashed">
+                    <p>No rules yet.</p>
+                    <p className="text-sm mt-2">Change the category of a detected item before adding it and a rule will appear here.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {sortedRules.map(rule => (
+                        <div key={rule.id} className="group flex items-center justify-between gap-3 p-4 bg-white/5 hover:bg-white/10 rounded-xl border border-white/5 transition-all">
+                            <div className="flex-1 min-w-0">
+                                {editingId === rule.id ? (
+                                    <input
+                                        autoFocus
+                                        type="text"
+                                        value={editPattern}
+                                        onChange={(e) => setEditPattern(e.target.value)}
+                                        onBlur={() => handleSavePattern(rule)}
+                                        onKeyDown={(e) => handleKeyDown(e, rule)}
+                                        className="w-full bg-black/20 border border-emerald-500/50 rounded px-2 py-1 text-sm text-white focus:outline-none"
+                                    />
+                                ) : (
+                                    <button
+                                        onClick={() => { setEditingId(rule.id); setEditPattern(rule.pattern); }}
+                                        className="font-mono text-white hover:text-emerald-300 transition-colors truncate"
+                                        title="Click to edit pattern"
+                                    >
+                                        "{rule.pattern}" ✏️
+                                    </button>
+                                )}
+                                <p className="text-xs text-gray-500 mt-1">{rule.source === 'learned' ? 'Learned from a correction' : 'Added manually'}</p>
+                            </div>
+                            <span className="text-gray-500">→</span>
+                            <select
+                                value={rule.category}
+                                onChange={(e) => onSaveRule({ ...rule, category: e.target.value as TransactionCategory, updatedAt: Date.now() })}
+                                className="bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                            >
+                                {categoryOptions(categories, rule.category).map(cat => (
+                                    <option key={cat} value={cat}>{cat}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => onDeleteRule(rule.id)}
+                                className="p-2 text-gray-500 hover:text-red-400 transition-colors"
+                                aria-label="Delete rule"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
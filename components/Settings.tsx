@@ -0,0 +1,409 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { AIConfig, AI_PROVIDERS, ProviderId, defaultModelFor, getAIConfig, saveAIConfig, resetAIConfig, parseExpenseWithAI } from '../utils/ai';
+import { Account, PayCycle, Transaction, UserPreferences, WeekendShift, WeekStart } from '../types';
+import {
+    PAY_CYCLE_LABELS, WEEK_START_LABELS, availableTimeZones, deviceTimeZone, getWeekRange, isValidTimeZone,
+    periodIdFor, periodLabel, periodRange, periodRangeLabel, validatePayCycle
+} from '../utils/periods';
+import { BackupBundle, BackupError, RestoreMode, RestoreSummary, backupFileName, parseBundle, transactionsToCsv, transactionsToOfx } from '../services/backup';
+
+interface SettingsProps {
+    transactions: Transaction[];
+    accounts: Account[];
+    preferences: UserPreferences;
+    onSavePreferences: (preferences: UserPreferences) => Promise<void>;
+    onExportBackup: () => Promise<BackupBundle | null>;
+    onRestoreBackup: (bundle: BackupBundle, mode: RestoreMode, onProgress: (done: number, total: number) => void) => Promise<RestoreSummary | null>;
+    onBack: () => void;
+}
+
+// Saves text as a file through a temporary link
+const downloadFile = (name: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const inputClass = "w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+const WEEKEND_SHIFT_LABELS: Record<WeekendShift, string> = {
+    none: 'Stays on the weekend',
+    before: 'Moves to the Friday before',
+    after: 'Moves to the Monday after',
+};
+
+export const Settings: React.FC<SettingsProps> = ({ transactions, accounts, preferences, onSavePreferences, onExportBackup, onRestoreBackup, onBack }) => {
+    const [aiConfig, setAIConfig] = useState<AIConfig>(getAIConfig);
+    const [status, setStatus] = useState<string | null>(null);
+    const [payCycle, setPayCycle] = useState<PayCycle>(preferences.payCycle);
+    const [weekStartsOn, setWeekStartsOn] = useState<WeekStart>(preferences.weekStartsOn);
+    const [timeZone, setTimeZone] = useState(preferences.timeZone);
+    const [cycleStatus, setCycleStatus] = useState<string | null>(null);
+    const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+    const [dataStatus, setDataStatus] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const update = (patch: Partial<AIConfig>) => {
+        setAIConfig(prev => ({ ...prev, ...patch }));
+        setStatus(null);
+    };
+
+    const handleProviderChange = (provider: ProviderId) => {
+        update({ provider, model: defaultModelFor(provider) });
+    };
+
+    const handleSave = () => {
+        saveAIConfig(aiConfig);
+        setStatus('Saved');
+    };
+
+    const handleReset = () => {
+        setAIConfig(resetAIConfig());
+        setStatus('Reset to defaults');
+    };
+
+    const handleTest = async () => {
+        saveAIConfig(aiConfig);
+        setStatus('Testing...');
+        const result = await parseExpenseWithAI('spent 200 on lunch');
+        const accepted = result.find(item => !item.rejectedReason);
+        setStatus(accepted
+            ? `Works: parsed ₹${accepted.amount} (${accepted.category})`
+            : result[0]?.rejectedReason ?? 'No answer from the provider, check the console');
+    };
+
+    const updateCycle = (patch: Partial<PayCycle>) => {
+        setPayCycle(prev => ({ ...prev, ...patch }));
+        setCycleStatus(null);
+    };
+
+    const updateWeekStart = (day: WeekStart) => {
+        setWeekStartsOn(day);
+        setCycleStatus(null);
+    };
+
+    const updateTimeZone = (zone: string) => {
+        setTimeZone(zone);
+        setCycleStatus(null);
+    };
+
+    const cycleError = validatePayCycle(payCycle)
+        ?? (isValidTimeZone(timeZone.trim()) ? null : 'Pick a time zone from the list, e.g. Asia/Kolkata');
+    const draftSettings = { payCycle, weekStartsOn, timeZone: timeZone.trim() };
+    const cycleMonthId = cycleError ? '' : periodIdFor(new Date(), draftSettings);
+    const cycleRange = cycleError ? null : periodRange(cycleMonthId, payCycle);
+    const weekRange = cycleError ? null : getWeekRange(new Date(), draftSettings);
+
+    const handleSaveCycle = async () => {
+        if (cycleError) return;
+        // Only the fields that apply to the chosen start; Firestore rejects undefined ones
+        const cycle: PayCycle = payCycle.start === 'fixed_day'
+            ? { start: 'fixed_day', day: payCycle.day ?? 1, weekendShift: payCycle.weekendShift ?? 'none' }
+            : { start: payCycle.start };
+        try {
+            await onSavePreferences({ ...preferences, payCycle: cycle, weekStartsOn, timeZone: timeZone.trim() });
+            setCycleStatus('Saved');
+        } catch (e) {
+            console.error("Error saving preferences:", e);
+            setCycleStatus('Could not save, try again');
+        }
+    };
+
+    const handleExportJson = async () => {
+        setBusy(true);
+        setDataStatus('Preparing backup...');
+        try {
+            const bundle = await onExportBackup();
+            if (!bundle) {
+                setDataStatus(null);
+                return;
+            }
+            downloadFile(backupFileName('json'), JSON.stringify(bundle, null, 2), 'application/json');
+            setDataStatus(`Exported ${bundle.transactions.length} transactions and settings`);
+        } catch (e) {
+            console.error("Error exporting backup:", e);
+            setDataStatus('Export failed, check your connection and try again');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const bundle = parseBundle(await file.text());
+            const warning = restoreMode === 'replace'
+                ? `Replace ALL your data with the backup from ${new Date(bundle.exportedAt).toLocaleDateString()}? Anything not in the backup will be deleted.`
+                : `Add ${bundle.transactions.length} transactions and settings from the backup of ${new Date(bundle.exportedAt).toLocaleDateString()}?`;
+            if (!window.confirm(warning)) return;
+
+            setBusy(true);
+            const summary = await onRestoreBackup(bundle, restoreMode, (done, total) => setDataStatus(`Restoring ${done} of ${total} transactions...`));
+            if (!summary) return;
+            setDataStatus(`Restored: ${summary.transactionsWritten} transactions written${summary.transactionsRemoved ? `, ${summary.transactionsRemoved} removed` : ''}`);
+        } catch (error) {
+            console.error("Error restoring backup:", error);
+            setDataStatus(error instanceof BackupError ? error.message : 'Restore failed part-way; run it again to finish');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={onBack}
+                    className="p-2 -ml-2 text-gray-400 hover:text-white transition-colors"
+                >
+                    ← Dashboard
+                </button>
+                <h2 className="text-2xl font-bold">Settings</h2>
+            </div>
+
+            {/* AI Provider */}
+            <Card>
+                <h3 className="text-lg font-semibold mb-1">AI Parser</h3>
+                <p className="text-sm text-gray-400 mb-4">
+                    Used to refine what the built-in parser detects. Stored on this device only.
+                </p>
+                <div className="space-y-4">
+                    <label className="block">
+                        <span className="text-xs text-gray-500">Provider</span>
+                        <select
+                            value={aiConfig.provider}
+                            onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                            className={inputClass}
+                        >
+                            {AI_PROVIDERS.map(p => (
+                                <option key={p.id} value={p.id}>{p.label}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    {aiConfig.provider === 'proxy' && (
+                        <p className="text-xs text-gray-500">The model and its key are configured on the server.</p>
+                    )}
+
+                    {aiConfig.provider === 'openai-compatible' && (
+                        <label className="block">
+                            <span className="text-xs text-gray-500">Model</span>
+                            <input
+                                type="text"
+                                value={aiConfig.model}
+                                onChange={(e) => update({ model: e.target.value })}
+                                className={inputClass}
+                            />
+                        </label>
+                    )}
+
+                    {aiConfig.provider === 'openai-compatible' && (
+                        <label className="block">
+                            <span className="text-xs text-gray-500">Server URL</span>
+                            <input
+                                type="url"
+                                value={aiConfig.baseUrl}
+                                onChange={(e) => update({ baseUrl: e.target.value })}
+                                placeholder="http://localhost:11434/v1"
+                                className={inputClass}
+                            />
+                        </label>
+                    )}
+
+                    {aiConfig.provider === 'openai-compatible' && (
+                        <label className="block">
+                            <span className="text-xs text-gray-500">API key (optional)</span>
+                            <input
+                                type="password"
+                                value={aiConfig.apiKey}
+                                onChange={(e) => update({ apiKey: e.target.value })}
+                                className={inputClass}
+                            />
+                        </label>
+                    )}
+
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={handleSave}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 transition-colors"
+                        >
+                            Save
+                        </button>
+                        <button
+                            onClick={handleTest}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-white/10 text-gray-300 hover:bg-white/20 transition-colors"
+                        >
+                            Test
+                        </button>
+                        <button
+                            onClick={handleReset}
+                            className="px-4 py-2 rounded-lg text-sm text-gray-500 hover:text-gray-300 transition-colors"
+                        >
+                            Reset
+                        </button>
+                        {status && <span className="text-xs text-gray-400">{status}</span>}
+                    </div>
+                </div>
+            </Card>
+
+            {/* Weeks and months */}
+            <Card>
+                <h3 className="text-lg font-semibold mb-1">Weeks & Months</h3>
+                <p className="text-sm text-gray-400 mb-4">
+                    When your weeks and months start, and the time zone days are counted in. Limits, alerts and history follow these; periods already archived keep their dates.
+                </p>
+                <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="block">
+                            <span className="text-xs text-gray-500">Week starts on</span>
+                            <select
+                                value={weekStartsOn}
+                                onChange={(e) => updateWeekStart(Number(e.target.value) as WeekStart)}
+                                className={inputClass}
+                            >
+                                {(Object.keys(WEEK_START_LABELS).map(Number) as WeekStart[]).map(day => (
+                                    <option key={day} value={day}>{WEEK_START_LABELS[day]}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block">
+                            <span className="text-xs text-gray-500">Time zone</span>
+                            <input
+                                type="text"
+                                list="time-zones"
+                                value={timeZone}
+                                onChange={(e) => updateTimeZone(e.target.value)}
+                                className={inputClass}
+                            />
+                            <datalist id="time-zones">
+                                {availableTimeZones().map(zone => <option key={zone} value={zone} />)}
+                            </datalist>
+                        </label>
+                    </div>
+                    {timeZone !== deviceTimeZone() && (
+                        <button
+                            onClick={() => updateTimeZone(deviceTimeZone())}
+                            className="text-xs text-emerald-400 hover:text-emerald-300"
+                        >
+                            Use this device's time zone ({deviceTimeZone()})
+                        </button>
+                    )}
+
+                    <label className="block">
+                        <span className="text-xs text-gray-500">Month starts on</span>
+                        <select
+                            value={payCycle.start}
+                            onChange={(e) => updateCycle({ start: e.target.value as PayCycle['start'] })}
+                            className={inputClass}
+                        >
+                            {(Object.keys(PAY_CYCLE_LABELS) as PayCycle['start'][]).map(start => (
+                                <option key={start} value={start}>{PAY_CYCLE_LABELS[start]}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    {payCycle.start === 'fixed_day' && (
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="block">
+                                <span className="text-xs text-gray-500">Payday</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={31}
+                                    value={payCycle.day ?? ''}
+                                    onChange={(e) => updateCycle({ day: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                    className={inputClass}
+                                />
+                            </label>
+                            <label className="block">
+                                <span className="text-xs text-gray-500">On a weekend, payday</span>
+                                <select
+                                    value={payCycle.weekendShift ?? 'none'}
+                                    onChange={(e) => updateCycle({ weekendShift: e.target.value as WeekendShift })}
+                                    className={inputClass}
+                                >
+                                    {(Object.keys(WEEKEND_SHIFT_LABELS) as WeekendShift[]).map(shift => (
+                                        <option key={shift} value={shift}>{WEEKEND_SHIFT_LABELS[shift]}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        </div>
+                    )}
+
+                    {cycleError ? (
+                        <p className="text-xs text-red-400">{cycleError}</p>
+                    ) : cycleRange && weekRange && (
+                        <p className="text-xs text-gray-400">
+                            This week: {periodRangeLabel(weekRange.start, weekRange.end)}. This month is {periodLabel(cycleMonthId)}: {periodRangeLabel(cycleRange.start, cycleRange.end)}
+                        </p>
+                    )}
+
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={handleSaveCycle}
+                            disabled={!!cycleError}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 disabled:bg-white/10 disabled:text-gray-500 transition-colors"
+                        >
+                            Save
+                        </button>
+                        {cycleStatus && <span className="text-xs text-gray-400">{cycleStatus}</span>}
+                    </div>
+                </div>
+            </Card>
+
+            {/* Export / Restore */}
+            <Card>
+                <h3 className="text-lg font-semibold mb-1">Your Data</h3>
+                <p className="text-sm text-gray-400 mb-4">
+                    A backup holds your budget and its past versions, your week, month and time zone settings, transactions, categories, rules, schedules, accounts and monthly history. CSV and OFX exports hold transactions only, for spreadsheets and other finance apps.
+                </p>
+                <div className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-3">
+                        <button
+                            onClick={handleExportJson}
+                            disabled={busy}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-emerald-500 text-white hover:bg-emerald-400 disabled:bg-white/10 disabled:text-gray-500 transition-colors"
+                        >
+                            Download backup
+                        </button>
+                        <button
+                            onClick={() => downloadFile(backupFileName('csv'), transactionsToCsv(transactions, accounts, preferences.timeZone), 'text/csv')}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-white/10 text-gray-300 hover:bg-white/20 transition-colors"
+                        >
+                            Export CSV
+                        </button>
+                        <button
+                            onClick={() => downloadFile(backupFileName('ofx'), transactionsToOfx(transactions), 'application/x-ofx')}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-white/10 text-gray-300 hover:bg-white/20 transition-colors"
+                        >
+                            Export OFX
+                        </button>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-3">
+                        <select
+                            value={restoreMode}
+                            onChange={(e) => setRestoreMode(e.target.value as RestoreMode)}
+                            className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                            aria-label="Restore mode"
+                        >
+                            <option value="merge">Merge with my data</option>
+                            <option value="replace">Replace my data</option>
+                        </select>
+                        <label className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${busy ? 'bg-white/10 text-gray-500' : 'cursor-pointer bg-white/10 text-gray-300 hover:bg-white/20'}`}>
+                            Restore from backup
+                            <input type="file" accept=".json,application/json" onChange={handleRestore} disabled={busy} className="hidden" />
+                        </label>
+                    </div>
+                    {dataStatus && <p className="text-xs text-gray-400">{dataStatus}</p>}
+                </div>
+            </Card>
+        </div>
+    );
+};
@@ -1,6 +1,6 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Transaction } from '../types';
-import { generateAnalytics } from '../utils/analytics';
+import { SpendingPivot, generateAnalytics, pivotSpending } from '../utils/analytics';
 import { Card } from './ui/Card';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
 
@@ -9,11 +9,25 @@ interface SpendingsSummaryProps {
     onBack: () => void;
 }
 
+type GroupBy = 'overview' | SpendingPivot;
+
+const GROUP_BY_OPTIONS: { value: GroupBy; label: string }[] = [
+    { value: 'overview', label: 'Overview' },
+    { value: 'category', label: 'Category' },
+    { value: 'subcategory', label: 'Sub-category' },
+    { value: 'tag', label: 'Tag' },
+];
+
 export const SpendingsSummary: React.FC<SpendingsSummaryProps> = ({ transactions, onBack }) => {
-    const { totalSpent, breakdown, topCategories, personalPurchases, insights } = useMemo(
+    const [groupBy, setGroupBy] = useState<GroupBy>('overview');
+    const { totalSpent, breakdown: overview, topCategories, personalPurchases, insights } = useMemo(
         () => generateAnalytics(transactions),
         [transactions]
     );
+    const breakdown = useMemo(
+        () => (groupBy === 'overview' ? overview : pivotSpending(transactions, groupBy)),
+        [groupBy, overview, transactions]
+    );
 
     const COLORS = ['#10b981', '#8b5cf6', '#f59e0b', '#3b82f6', '#ec4899', '#6366f1', '#14b8a6', '#f43f5e'];
 
@@ -99,7 +113,23 @@ export const SpendingsSummary: React.FC<SpendingsSummaryProps> = ({ transactions
 
                 {/* Detailed List */}
                 <div className="space-y-4">
-                    <h3 className="text-lg font-semibold text-white">Category Details</h3>
+                    <div className="flex items-center justify-between gap-3">
+                        <h3 className="text-lg font-semibold text-white">Details</h3>
+                        <div className="flex gap-1 bg-white/5 rounded-lg p-1">
+                            {GROUP_BY_OPTIONS.map(option => (
+                                <button
+                                    key={option.value}
+                                    onClick={() => setGroupBy(option.value)}
+                                    className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${groupBy === option.value ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'}`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    {groupBy === 'tag' && (
+                        <p className="text-xs text-gray-500">A transaction with several tags counts towards each of them.</p>
+                    )}
                     {breakdown.map((item, index) => (
                         <div key={item.name} className="flex items-center justify-between p-3 bg-white/5 rounded-xl border border-white/5 hover:bg-white/10 transition-colors">
                             <div className="flex items-center gap-3">
@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { storageService } from '../services/storage';
+import { SyncStatus } from '../services/syncQueue';
+
+export const SyncIndicator: React.FC = () => {
+    const [status, setStatus] = useState<SyncStatus | null>(null);
+
+    useEffect(() => storageService.syncQueue.subscribe(setStatus), []);
+
+    if (!status) return null;
+
+    const { pending, online, syncing, lastError } = status;
+
+    if (pending === 0 && online) {
+        return (
+            <span className="text-xs text-gray-500" title="All changes saved to the cloud">
+                ☁️ Synced
+            </span>
+        );
+    }
+
+    const label = !online
+        ? `📴 Offline${pending > 0 ? ` · ${pending} pending` : ''}`
+        : syncing
+            ? `🔄 Syncing ${pending}…`
+            : `⏳ ${pending} pending`;
+
+    return (
+        <button
+            onClick={() => storageService.syncQueue.flush()}
+            className="text-xs px-2 py-1 rounded-full bg-amber-500/10 text-amber-400 border border-amber-500/20 hover:bg-amber-500/20 transition-colors"
+            title={lastError ? `Last sync error: ${lastError}. Click to retry.` : 'Changes are saved on this device and will sync when online. Click to retry now.'}
+        >
+            {label}
+        </button>
+    );
+};
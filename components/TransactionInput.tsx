@@ -1,33 +1,87 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { parseExpenseInput, parseMultipleExpenses } from '../utils/parser';
-import { parseExpenseWithAI } from '../utils/groq';
-import { ParsedExpense } from '../types';
+import { parseExpenseWithAI } from '../utils/ai';
+import { applyRules } from '../utils/rules';
+import { mergeParsedExpenses, lowConfidenceFields } from '../utils/merge';
+import { looksLikeBankMessages, markDuplicates, parseBankMessages } from '../utils/smsParser';
+import { Account, CategoryDefinition, CategoryRule, ParsedExpense, ParsedField, Transaction, TransactionCategory } from '../types';
+import { DEFAULT_CATEGORIES, categoryEmoji, categoryOptions, fallbackCategory } from '../utils/categories';
+import { PAYMENT_METHOD_LABELS, findAccount } from '../utils/accounts';
 
 interface TransactionInputProps {
   onAddTransaction: (expense: ParsedExpense) => void;
+  rules?: CategoryRule[];
+  categories?: CategoryDefinition[];
+  accounts?: Account[]; // named in the text ("on hdfc card") to fill in the account
+  transactions?: Transaction[]; // pasted bank messages already recorded are flagged rather than added twice
+  // Called when the user changes the category of a parsed item before adding it
+  onCategoryCorrected?: (description: string, category: TransactionCategory) => void;
 }
 
-export const TransactionInput: React.FC<TransactionInputProps> = ({ onAddTransaction }) => {
+// True when a field of a preview item kept its value through the AI merge
+const sameField = (before: ParsedExpense | undefined, after: ParsedExpense | undefined, field: ParsedField): boolean => {
+  if (!before || !after) return false;
+  if (field === 'date') return before.date.getTime() === after.date.getTime();
+  return before[field] === after[field];
+};
+
+// The same item in both previews: the user's picks for it still apply
+const sameItem = (before: ParsedExpense | undefined, after: ParsedExpense | undefined): boolean =>
+  sameField(before, after, 'description') && sameField(before, after, 'amount');
+
+export const TransactionInput: React.FC<TransactionInputProps> = ({ onAddTransaction, rules = [], categories = DEFAULT_CATEGORIES, accounts = [], transactions = [], onCategoryCorrected }) => {
   const [input, setInput] = useState('');
   const [isFocused, setIsFocused] = useState(false);
-  const [preview, setPreview] = useState<ParsedExpense[] | null>(null); // Changed type to array
+  const [parsedPreview, setPreview] = useState<ParsedExpense[] | null>(null);
+  const [hoveredIdx, setHoveredIdx] = useState<number | null>(null);
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<number, TransactionCategory>>({});
+  const [confirmedFields, setConfirmedFields] = useState<Record<number, ParsedField[]>>({});
+  const [showConfirmHint, setShowConfirmHint] = useState(false);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
   // Actually, let's rewrite the effect to be cleaner and correct with cleanup
   useEffect(() => {
     let debounceTimer: NodeJS.Timeout;
+    // An answer that arrives after the input changed (or was submitted) must not bring back its preview
+    let cancelled = false;
+    const controller = new AbortController();
+    setCategoryOverrides({});
+    setConfirmedFields({});
+    setShowConfirmHint(false);
 
-    if (input.trim().length > 3) {
-      // 1. Instant Sync
-      const syncParsed = parseMultipleExpenses(input);
+    if (input.trim().length > 3 && looksLikeBankMessages(input)) {
+      // Pasted bank/UPI messages follow fixed formats, so the AI has nothing to add
+      const parsed = parseBankMessages(input, new Date(), categories, accounts).map(item => applyRules(item, rules));
+      setPreview(parsed.length > 0 ? parsed : null);
+    } else if (input.trim().length > 3) {
+      // 1. Instant Sync (user rules win over the keyword guess)
+      const regexParsed = parseMultipleExpenses(input, new Date(), categories, accounts);
+      const syncParsed = regexParsed.map(item => applyRules(item, rules));
       setPreview(syncParsed.length > 0 ? syncParsed : null);
 
-      // 2. AI Upgrade
+      // 2. AI Upgrade (user rules win over the model too)
       debounceTimer = setTimeout(async () => {
         try {
-          const aiParsed = await parseExpenseWithAI(input);
-          if (aiParsed && aiParsed.length > 0) {
-            setPreview(aiParsed);
+          const aiParsed = await parseExpenseWithAI(input, categories, controller.signal);
+          if (cancelled) return;
+          const rejected = aiParsed.filter(item => item.rejectedReason);
+          if (aiParsed.length > rejected.length) {
+            // Merge rather than replace, so a wildly different AI amount cannot silently win
+            const merged = mergeParsedExpenses(regexParsed, aiParsed).map(item => (item.rejectedReason ? item : applyRules(item, rules)));
+            setPreview(merged);
+            // Picks made on the instant preview survive for items the merge left alone;
+            // a confirmation only holds while the value it confirmed is unchanged
+            setCategoryOverrides(prev => Object.fromEntries(
+              Object.entries(prev).filter(([idx]) => sameItem(syncParsed[Number(idx)], merged[Number(idx)]))
+            ));
+            setConfirmedFields(prev => Object.fromEntries(
+              (Object.entries(prev) as [string, ParsedField[]][])
+                .filter(([idx]) => sameItem(syncParsed[Number(idx)], merged[Number(idx)]))
+                .map(([idx, fields]) => [idx, fields.filter(field => sameField(syncParsed[Number(idx)], merged[Number(idx)], field))])
+            ));
+          } else if (rejected.length > 0) {
+            // Nothing usable from the AI: keep the instant result and explain what was dropped
+            setPreview([...syncParsed, ...rejected]);
           }
         } catch (e) {
           // Silent fail
@@ -37,18 +91,65 @@ export const TransactionInput: React.FC<TransactionInputProps> = ({ onAddTransac
       setPreview(null);
     }
 
-    return () => clearTimeout(debounceTimer);
-  }, [input]);
+    return () => {
+      cancelled = true;
+      clearTimeout(debounceTimer);
+      controller.abort();
+    };
+  }, [input, rules, categories, accounts]);
+
+  // Pasted bank messages already recorded are flagged. Kept out of the parsing effect, so a change
+  // to the transactions (a sync, an edit) neither re-parses the text nor drops the user's picks.
+  const preview = useMemo(
+    () => (parsedPreview ? markDuplicates(parsedPreview, transactions) : null),
+    [parsedPreview, transactions]
+  );
 
 
+  // Applies the user's category picks and confirmations to a preview item
+  const resolveItem = (item: ParsedExpense, idx: number): ParsedExpense => {
+    const fields = { ...item.fields };
+    (confirmedFields[idx] ?? []).forEach(name => {
+      const provenance = fields[name];
+      if (provenance) fields[name] = { ...provenance, confirmed: true };
+    });
+    const corrected = categoryOverrides[idx];
+    if (corrected && corrected !== item.category) {
+      return { ...item, category: corrected, fields: { ...fields, category: { source: 'user', confidence: 1 } } };
+    }
+    return { ...item, fields };
+  };
+
+  const confirmField = (idx: number, field: ParsedField) => {
+    setConfirmedFields(prev => ({ ...prev, [idx]: [...(prev[idx] ?? []), field] }));
+  };
+
+  const needsConfirmation = preview
+    ? preview.some((item, idx) => !isSkipped(item) && lowConfidenceFields(resolveItem(item, idx)).length > 0)
+    : false;
+
   const handleSubmit = async () => {
-    if (preview && preview.length > 0) {
-      preview.forEach(item => onAddTransaction(item));
+    if (preview && preview.some(item => !isSkipped(item))) {
+      if (needsConfirmation) {
+        setShowConfirmHint(true);
+        return;
+      }
+      preview.forEach((item, idx) => {
+        if (isSkipped(item)) return;
+        const resolved = resolveItem(item, idx);
+        if (resolved.category !== item.category && resolved.category) {
+          onCategoryCorrected?.(item.description, resolved.category);
+        }
+        onAddTransaction(resolved);
+      });
       setInput('');
       setPreview(null);
     } else {
       // Fallback immediate parse if user types fast and hits enter
-      const syncParsed = parseMultipleExpenses(input);
+      const parsed = looksLikeBankMessages(input)
+        ? markDuplicates(parseBankMessages(input, new Date(), categories, accounts), transactions).filter(item => !isSkipped(item))
+        : parseMultipleExpenses(input, new Date(), categories, accounts);
+      const syncParsed = parsed.map(item => applyRules(item, rules));
       if (syncParsed.length > 0) {
         syncParsed.forEach(item => onAddTransaction(item));
         setInput('');
@@ -57,6 +158,89 @@ export const TransactionInput: React.FC<TransactionInputProps> = ({ onAddTransac
     }
   };
 
+  const renderPreviewItem = (item: ParsedExpense, idx: number) => {
+    const resolved = resolveItem(item, idx);
+    const flagged = lowConfidenceFields(resolved);
+    const flagClass = 'text-amber-300 underline decoration-dotted decoration-amber-400 underline-offset-2';
+    const flagTitle = (field: ParsedField) =>
+      `Low confidence (${resolved.fields?.[field]?.source ?? 'parser'}), click to confirm`;
+    const showDate = flagged.includes('date') || resolved.date.toDateString() !== new Date().toDateString();
+    // The named account, else just how it was paid ("UPI")
+    const paidWith = findAccount(item.toAccountId ?? item.accountId, accounts)?.name
+      ?? (item.paymentMethod ? PAYMENT_METHOD_LABELS[item.paymentMethod] : null);
+
+    return (
+      <div
+        key={idx}
+        className={`flex items-center justify-between rounded-lg -mx-1 px-1 transition-colors ${hoveredIdx === idx ? 'bg-white/5' : ''}`}
+        onMouseEnter={() => setHoveredIdx(idx)}
+        onMouseLeave={() => setHoveredIdx(null)}
+      >
+        <div className="flex items-center space-x-3">
+          <div className="w-8 h-8 rounded-full bg-emerald-500/20 flex items-center justify-center text-lg">
+            {categoryEmoji(resolved.category, categories)}
+          </div>
+          <div>
+            <p className="font-medium text-sm text-emerald-300">
+              {item.description}
+              {item.direction && item.direction !== 'expense' && (
+                <span className="ml-2 text-[10px] uppercase text-teal-300 bg-teal-500/10 px-1.5 py-0.5 rounded">{item.direction}</span>
+              )}
+              {item.source === 'ai' && <span className="ml-2 text-[10px] text-violet-300/70">✨ AI</span>}
+            </p>
+            <div className="flex items-center gap-2">
+              <select
+                value={resolved.category ?? fallbackCategory(categories)}
+                onChange={(e) => setCategoryOverrides(prev => ({ ...prev, [idx]: e.target.value as TransactionCategory }))}
+                className={`text-xs bg-transparent border-none p-0 focus:ring-0 cursor-pointer ${flagged.includes('category') ? 'text-amber-300' : 'text-gray-500 hover:text-gray-300'}`}
+                aria-label="Category"
+              >
+                {categoryOptions(categories, resolved.category).map(cat => (
+                  <option key={cat} value={cat} className="bg-[#1a1b26]">{cat}</option>
+                ))}
+              </select>
+              {flagged.includes('category') && (
+                <button onClick={() => confirmField(idx, 'category')} className="text-[10px] text-amber-300 hover:text-white" title={flagTitle('category')}>
+                  ✓ ok
+                </button>
+              )}
+              {showDate && (
+                flagged.includes('date') ? (
+                  <button onClick={() => confirmField(idx, 'date')} className={`text-xs ${flagClass}`} title={flagTitle('date')}>
+                    {resolved.date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}?
+                  </button>
+                ) : (
+                  <span className="text-xs text-gray-500">{resolved.date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                )
+              )}
+              {item.subcategory && <span className="text-xs text-gray-500">› {item.subcategory}</span>}
+              {item.tags?.map(tag => (
+                <span key={tag} className="text-xs text-indigo-300">#{tag}</span>
+              ))}
+              {paidWith && <span className="text-xs text-gray-500">{paidWith}</span>}
+              {item.split && (
+                <span className="text-xs text-amber-300" title={`Split with ${item.split.friends.map(f => f.name).join(', ')}`}>
+                  your share ₹{item.split.myShare.toLocaleString()}
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+        {flagged.includes('amount') ? (
+          <button onClick={() => confirmField(idx, 'amount')} className={`font-mono font-bold ${flagClass}`} title={flagTitle('amount')}>
+            {amountSign(item)}₹{item.amount?.toLocaleString()}?
+          </button>
+        ) : (
+          <span className={`font-mono font-bold ${item.direction === 'income' || item.direction === 'refund' ? 'text-emerald-400' : 'text-white'}`}>
+            {amountSign(item)}₹{item.amount?.toLocaleString()}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const acceptedCount = preview ? preview.filter(item => !isSkipped(item)).length : 0;
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -66,35 +250,51 @@ export const TransactionInput: React.FC<TransactionInputProps> = ({ onAddTransac
 
   return (
     <div className={`fixed bottom-0 left-0 w-full p-4 z-50 transition-all duration-300 ${isFocused ? 'pb-4' : 'pb-4'}`}>
-      <div className="max-w-4xl mx-auto relative">
+      <div
+        className="max-w-4xl mx-auto relative"
+        onFocus={() => setIsFocused(true)}
+        onBlur={(e) => {
+          // Stay open while focus moves between the textarea and the preview controls
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+            setTimeout(() => setIsFocused(false), 200);
+          }
+        }}
+      >
         {/* Preview Bubble */}
         {preview && isFocused && (
           <div className="absolute bottom-full left-0 mb-4 w-full animate-bounce-slight max-h-60 overflow-y-auto custom-scrollbar">
             <div className="bg-[#1a1b26]/90 backdrop-blur-md border border-emerald-500/30 text-white p-4 rounded-xl shadow-lg">
               <div className="flex justify-between items-center mb-2 border-b border-white/10 pb-2">
-                <span className="text-xs text-emerald-400 font-medium tracking-wide">DETECTED {preview.length} ITEMS</span>
-                <span className="text-xs text-gray-400">Total: ₹{preview.reduce((sum, item) => sum + (item.amount || 0), 0).toLocaleString()}</span>
+                <span className="text-xs text-emerald-400 font-medium tracking-wide">DETECTED {acceptedCount} ITEMS</span>
+                <span className="text-xs text-gray-400">Total: ₹{preview.filter(item => !isSkipped(item)).reduce((sum, item) => sum + (item.amount || 0), 0).toLocaleString()}</span>
               </div>
+              {preview.some(item => item.span) && (
+                <p className="text-xs text-gray-400 mb-3 whitespace-pre-wrap break-words">
+                  {renderHighlightedInput(input, preview, hoveredIdx)}
+                </p>
+              )}
               <div className="space-y-3">
-                {preview.map((item, idx) => (
-                  <div key={idx} className="flex items-center justify-between">
+                {preview.map((item, idx) => isSkipped(item) ? (
+                  <div key={idx} className="flex items-center justify-between rounded-lg -mx-1 px-1 opacity-70">
                     <div className="flex items-center space-x-3">
-                      <div className="w-8 h-8 rounded-full bg-emerald-500/20 flex items-center justify-center text-lg">
-                        {getCategoryEmoji(item.category || 'Other')}
-                      </div>
+                      <div className="w-8 h-8 rounded-full bg-red-500/20 flex items-center justify-center text-lg">⚠️</div>
                       <div>
-                        <p className="font-medium text-sm text-emerald-300">
-                          {item.description}
-                        </p>
-                        <p className="text-xs text-gray-500">{item.category}</p>
+                        <p className="font-medium text-sm text-gray-400 line-through">{item.description}</p>
+                        <p className="text-xs text-red-400">{item.duplicateOf ? 'Already added' : `Skipped: ${item.rejectedReason}`}</p>
                       </div>
                     </div>
-                    <span className="font-mono font-bold text-white">₹{item.amount?.toLocaleString()}</span>
+                    <span className="font-mono text-gray-500">—</span>
                   </div>
-                ))}
+                ) : renderPreviewItem(item, idx))}
               </div>
               <div className="mt-3 text-center">
-                <span className="text-[10px] text-gray-500 bg-white/5 px-2 py-0.5 rounded uppercase">Press Enter to Add All</span>
+                {needsConfirmation ? (
+                  <span className={`text-[10px] px-2 py-0.5 rounded uppercase ${showConfirmHint ? 'text-amber-300 bg-amber-500/20' : 'text-amber-400/80 bg-white/5'}`}>
+                    Tap the highlighted values to confirm them
+                  </span>
+                ) : (
+                  <span className="text-[10px] text-gray-500 bg-white/5 px-2 py-0.5 rounded uppercase">Press Enter to Add All</span>
+                )}
               </div>
             </div>
           </div>
@@ -107,8 +307,6 @@ export const TransactionInput: React.FC<TransactionInputProps> = ({ onAddTransac
               ref={inputRef}
               value={input}
               onChange={(e) => setInput(e.target.value)}
-              onFocus={() => setIsFocused(true)}
-              onBlur={() => setTimeout(() => setIsFocused(false), 200)}
               onKeyDown={handleKeyDown}
               placeholder="Type naturally... 'Spent 200 on burgers, 500 on taxi'"
               className="w-full bg-transparent border-none text-white placeholder-gray-500 text-lg p-3 resize-none focus:ring-0 max-h-24 font-medium"
@@ -118,8 +316,8 @@ export const TransactionInput: React.FC<TransactionInputProps> = ({ onAddTransac
           </div>
           <button
             onClick={handleSubmit}
-            disabled={!preview || preview.length === 0}
-            className={`p-4 rounded-xl transition-all duration-200 ${preview && preview.length > 0
+            disabled={acceptedCount === 0}
+            className={`p-4 rounded-xl transition-all duration-200 ${acceptedCount > 0
               ? 'bg-emerald-500 text-white hover:bg-emerald-400 shadow-lg'
               : 'bg-white/10 text-gray-500 cursor-not-allowed'
               }`}
@@ -134,17 +332,40 @@ export const TransactionInput: React.FC<TransactionInputProps> = ({ onAddTransac
   );
 };
 
-function getCategoryEmoji(category: string): string {
-  const map: Record<string, string> = {
-    Groceries: '🥦',
-    Outings: '🎉',
-    BodyCare: '🧴',
-    Orders: '📦',
-    Petrol: '⛽',
-    Miscellaneous: '🧩',
-    Bills: '⚡',
-    Savings: '🏦',
-    Other: '📝'
-  };
-  return map[category] || '📝';
+// Items shown in the preview but never added: failed AI validation, or a bank message already recorded
+function isSkipped(item: ParsedExpense): boolean {
+  return Boolean(item.rejectedReason || item.duplicateOf);
+}
+
+// Renders the raw input with each item's source span underlined; the hovered item is highlighted
+function renderHighlightedInput(input: string, items: ParsedExpense[], activeIdx: number | null): React.ReactNode[] {
+  const spans = items
+    .map((item, idx) => ({ span: item.span, idx }))
+    .filter((s): s is { span: { start: number; end: number }; idx: number } => Boolean(s.span))
+    .sort((a, b) => a.span.start - b.span.start);
+
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach(({ span, idx }) => {
+    if (span.start < cursor) return; // overlapping spans: keep the first
+    if (span.start > cursor) nodes.push(input.slice(cursor, span.start));
+    nodes.push(
+      <mark
+        key={idx}
+        className={`rounded px-0.5 transition-colors ${idx === activeIdx ? 'bg-emerald-500/30 text-emerald-200' : 'bg-transparent text-gray-300 underline decoration-emerald-500/40 underline-offset-2'}`}
+      >
+        {input.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  if (cursor < input.length) nodes.push(input.slice(cursor));
+  return nodes;
+}
+
+// Money coming in is shown with a plus; expenses keep the plain amount as before
+function amountSign(item: ParsedExpense): string {
+  if (item.direction === 'income' || item.direction === 'refund') return '+';
+  if (item.direction === 'transfer') return '⇄ ';
+  return '';
 }
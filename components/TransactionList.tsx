@@ -1,12 +1,120 @@
-import React from 'react';
-import { Transaction } from '../types';
+import React, { useState } from 'react';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { Account, CategoryDefinition, PaymentMethod, PAYMENT_METHODS, Transaction, TransactionCategory, TransactionDirection, TRANSACTION_DIRECTIONS } from '../types';
+import { directionOf } from '../utils/cashflow';
+import { categoryColor, categoryEmoji, categoryOptions } from '../utils/categories';
+import { normalizeSubcategory, parseTagList } from '../utils/tags';
+import { buildSplit, formatSplitInputs, parseSplitInputs } from '../utils/ledger';
+import { PAYMENT_METHOD_LABELS, findAccount } from '../utils/accounts';
+import { deviceTimeZone, transactionDay } from '../utils/periods';
 
 interface TransactionListProps {
   transactions: Transaction[];
+  categories: CategoryDefinition[];
+  accounts?: Account[];
+  timeZone?: string; // the user's, for entries saved before local dates were kept
   onDelete: (id: string) => void;
+  onUpdate?: (transaction: Transaction) => void;
 }
 
-export const TransactionList: React.FC<TransactionListProps> = ({ transactions, onDelete }) => {
+interface EditDraft {
+  amount: string;
+  direction: TransactionDirection;
+  category: TransactionCategory;
+  description: string;
+  date: string; // yyyy-MM-dd
+  subcategory: string;
+  tags: string; // comma separated
+  splitWith: string; // "Rahul, Priya", "Rahul 600" or "Rahul 30%"; empty when not shared
+  paidBy: string; // friend who paid; empty when the user did
+  paymentMethod: PaymentMethod | '';
+  accountId: string; // empty for none
+  toAccountId: string; // transfers only
+}
+
+export const TransactionList: React.FC<TransactionListProps> = ({ transactions, categories, accounts = [], timeZone = deviceTimeZone(), onDelete, onUpdate }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EditDraft | null>(null);
+  const [splitError, setSplitError] = useState<string | null>(null);
+
+  const handleStartEdit = (t: Transaction) => {
+    setEditingId(t.id);
+    setDraft({
+      amount: t.amount.toString(),
+      direction: directionOf(t),
+      category: t.category,
+      description: t.description,
+      date: format(transactionDay(t, timeZone), 'yyyy-MM-dd'),
+      subcategory: t.subcategory ?? '',
+      tags: (t.tags ?? []).join(', '),
+      splitWith: t.split ? formatSplitInputs(t.split) : '',
+      paidBy: t.split?.paidBy ?? '',
+      paymentMethod: t.paymentMethod ?? '',
+      accountId: t.accountId ?? '',
+      toAccountId: t.toAccountId ?? '',
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setDraft(null);
+    setSplitError(null);
+  };
+
+  const handleSaveEdit = (original: Transaction) => {
+    if (!draft || !onUpdate) return;
+    const amount = parseFloat(draft.amount);
+    if (isNaN(amount) || amount <= 0 || !draft.date) return;
+
+    // Keep the original time of day, only move it by the days between the old and new date
+    const [year, month, day] = draft.date.split('-').map(Number);
+    const date = addDays(new Date(original.date), differenceInCalendarDays(new Date(year, month - 1, day), transactionDay(original, timeZone)));
+
+    // Only an expense can be shared with friends
+    let split: Transaction['split'];
+    if (draft.splitWith.trim() && draft.direction === 'expense') {
+      const { method, friends } = parseSplitInputs(draft.splitWith);
+      try {
+        split = buildSplit(amount, method, friends, draft.paidBy.trim() || null);
+      } catch (err) {
+        setSplitError(err instanceof Error ? err.message : 'Invalid split');
+        return;
+      }
+    }
+
+    // Cleared optional fields are dropped rather than stored as undefined, which Firestore rejects
+    const {
+      subcategory: _subcategory, tags: _tags, split: _split,
+      paymentMethod: _paymentMethod, accountId: _accountId, toAccountId: _toAccountId,
+      ...rest
+    } = original;
+    const toAccountId = draft.direction === 'transfer' ? draft.toAccountId : '';
+    const subcategory = normalizeSubcategory(draft.subcategory);
+    const tags = parseTagList(draft.tags);
+
+    onUpdate({
+      ...rest,
+      ...(subcategory ? { subcategory } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(split ? { split } : {}),
+      ...(draft.paymentMethod ? { paymentMethod: draft.paymentMethod } : {}),
+      ...(draft.accountId ? { accountId: draft.accountId } : {}),
+      ...(toAccountId ? { toAccountId } : {}),
+      amount,
+      direction: draft.direction,
+      category: draft.category,
+      description: draft.description.trim() || original.description,
+      date: date.toISOString(),
+      localDate: draft.date,
+    });
+    handleCancelEdit();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, original: Transaction) => {
+    if (e.key === 'Enter') handleSaveEdit(original);
+    if (e.key === 'Escape') handleCancelEdit();
+  };
+
   if (transactions.length === 0) {
     return (
       <div className="text-center py-10 text-gray-500">
@@ -18,28 +126,199 @@ export const TransactionList: React.FC<TransactionListProps> = ({ transactions,
 
   return (
     <div className="space-y-3 pb-24">
-      {transactions.map((t) => (
+      {transactions.map((t) => editingId === t.id && draft ? (
+        <div
+          key={t.id}
+          className="p-4 bg-white/10 rounded-xl border border-emerald-500/30 space-y-3"
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              autoFocus
+              type="number"
+              value={draft.amount}
+              onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+              onKeyDown={(e) => handleKeyDown(e, t)}
+              className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm font-mono text-white focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              aria-label="Amount"
+            />
+            <select
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value as TransactionCategory })}
+              className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              aria-label="Category"
+            >
+              {categoryOptions(categories, draft.category).map(cat => (
+                <option key={cat} value={cat}>{cat}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              onKeyDown={(e) => handleKeyDown(e, t)}
+              className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              aria-label="Description"
+            />
+            <input
+              type="date"
+              value={draft.date}
+              onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+              onKeyDown={(e) => handleKeyDown(e, t)}
+              className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              aria-label="Date"
+            />
+            <input
+              type="text"
+              value={draft.subcategory}
+              onChange={(e) => setDraft({ ...draft, subcategory: e.target.value })}
+              onKeyDown={(e) => handleKeyDown(e, t)}
+              placeholder="Sub-category"
+              className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              aria-label="Sub-category"
+            />
+            <input
+              type="text"
+              value={draft.tags}
+              onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+              onKeyDown={(e) => handleKeyDown(e, t)}
+              placeholder="Tags, comma separated"
+              className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              aria-label="Tags"
+            />
+            <select
+              value={draft.direction}
+              onChange={(e) => setDraft({ ...draft, direction: e.target.value as TransactionDirection })}
+              className="col-span-2 bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              aria-label="Direction"
+            >
+              {TRANSACTION_DIRECTIONS.map(direction => (
+                <option key={direction} value={direction}>{DIRECTION_LABELS[direction]}</option>
+              ))}
+            </select>
+            <select
+              value={draft.paymentMethod}
+              onChange={(e) => setDraft({ ...draft, paymentMethod: e.target.value as PaymentMethod | '' })}
+              className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              aria-label="Payment method"
+            >
+              <option value="">Payment method</option>
+              {PAYMENT_METHODS.map(method => (
+                <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+            {accounts.length > 0 && (
+              <select
+                value={draft.accountId}
+                onChange={(e) => setDraft({ ...draft, accountId: e.target.value })}
+                className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                aria-label={draft.direction === 'transfer' ? 'From account' : 'Account'}
+              >
+                <option value="">{draft.direction === 'transfer' ? 'From account' : 'No account'}</option>
+                {accountChoices(accounts, draft.accountId).map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            )}
+            {accounts.length > 0 && draft.direction === 'transfer' && (
+              <select
+                value={draft.toAccountId}
+                onChange={(e) => setDraft({ ...draft, toAccountId: e.target.value })}
+                className="col-span-2 bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                aria-label="To account"
+              >
+                <option value="">To account</option>
+                {accountChoices(accounts, draft.toAccountId).map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            )}
+            {draft.direction === 'expense' && (
+              <>
+                <input
+                  type="text"
+                  value={draft.splitWith}
+                  onChange={(e) => { setDraft({ ...draft, splitWith: e.target.value }); setSplitError(null); }}
+                  onKeyDown={(e) => handleKeyDown(e, t)}
+                  placeholder="Split with: Rahul, Priya (or Rahul 600 / Rahul 30%)"
+                  className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                  aria-label="Split with"
+                />
+                <input
+                  type="text"
+                  value={draft.paidBy}
+                  onChange={(e) => { setDraft({ ...draft, paidBy: e.target.value }); setSplitError(null); }}
+                  onKeyDown={(e) => handleKeyDown(e, t)}
+                  disabled={!draft.splitWith.trim()}
+                  placeholder="Paid by (blank if you paid)"
+                  className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-600 disabled:opacity-40 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                  aria-label="Paid by"
+                />
+              </>
+            )}
+          </div>
+          {splitError && <p className="text-xs text-red-400">{splitError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={handleCancelEdit}
+              className="px-3 py-1.5 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleSaveEdit(t)}
+              className="px-3 py-1.5 text-xs rounded-lg bg-emerald-500 text-white hover:bg-emerald-400 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
         <div 
           key={t.id} 
           className="group flex items-center justify-between p-4 bg-white/5 hover:bg-white/10 rounded-xl border border-white/5 transition-all duration-200"
         >
           <div className="flex items-center gap-4">
-            <div className={`w-12 h-12 rounded-full flex items-center justify-center text-xl bg-gradient-to-br ${getCategoryColor(t.category)}`}>
-              {getCategoryEmoji(t.category)}
+            <div
+              className="w-12 h-12 rounded-full flex items-center justify-center text-xl"
+              style={{ backgroundColor: `${categoryColor(t.category, categories)}33` }}
+            >
+              {categoryEmoji(t.category, categories)}
             </div>
             <div>
               <p className="font-semibold text-white">{t.description}</p>
-              <div className="flex items-center gap-2 text-xs text-gray-400">
-                <span>{new Date(t.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                <span>{transactionDay(t, timeZone).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
                 <span>•</span>
-                <span className="bg-white/5 px-2 py-0.5 rounded">{t.category}</span>
+                <span className="bg-white/5 px-2 py-0.5 rounded" title={describeCategorySource(t)}>
+                  {t.category}{t.subcategory ? ` › ${t.subcategory}` : ''}
+                </span>
+                {t.tags?.map(tag => (
+                  <span key={tag} className="text-indigo-300">#{tag}</span>
+                ))}
+                {describePayment(t, accounts) && <span>{describePayment(t, accounts)}</span>}
+                {t.split && (
+                  <span className="text-amber-300" title={`Split with ${t.split.friends.map(f => f.name).join(', ')}`}>
+                    your share ₹{t.split.myShare.toLocaleString()}{t.split.paidBy ? ` · ${t.split.paidBy} paid` : ''}
+                  </span>
+                )}
               </div>
             </div>
           </div>
           <div className="flex items-center gap-4">
-            <span className="text-lg font-mono font-medium text-white">
-              -₹{t.amount.toLocaleString()}
+            <span className={`text-lg font-mono font-medium ${AMOUNT_STYLES[directionOf(t)].className}`}>
+              {AMOUNT_STYLES[directionOf(t)].sign}₹{t.amount.toLocaleString()}
             </span>
+            {onUpdate && (
+              <button
+                onClick={() => handleStartEdit(t)}
+                className="opacity-0 group-hover:opacity-100 p-2 text-gray-500 hover:text-emerald-400 transition-opacity"
+                aria-label="Edit"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+              </button>
+            )}
             <button 
               onClick={() => onDelete(t.id)}
               className="opacity-0 group-hover:opacity-100 p-2 text-gray-500 hover:text-red-400 transition-opacity"
@@ -56,26 +335,36 @@ export const TransactionList: React.FC<TransactionListProps> = ({ transactions,
   );
 };
 
-function getCategoryEmoji(category: string): string {
-    const map: Record<string, string> = {
-      Food: '🍔',
-      Shopping: '🛍️',
-      Bills: '⚡',
-      Transport: '🚕',
-      Entertainment: '🎮',
-      Other: '📝'
-    };
-    return map[category] || '📝';
+const DIRECTION_LABELS: Record<TransactionDirection, string> = {
+  expense: 'Expense',
+  income: 'Income',
+  refund: 'Refund',
+  transfer: 'Transfer (own accounts)',
+};
+
+const AMOUNT_STYLES: Record<TransactionDirection, { sign: string; className: string }> = {
+  expense: { sign: '-', className: 'text-white' },
+  income: { sign: '+', className: 'text-emerald-400' },
+  refund: { sign: '+', className: 'text-teal-300' },
+  transfer: { sign: '⇄ ', className: 'text-gray-400' },
+};
+
+// Archived accounts stay selectable on entries that already use them
+const accountChoices = (accounts: Account[], current: string): Account[] =>
+  accounts.filter(a => !a.archived || a.id === current);
+
+// "HDFC Card", "UPI", or "HDFC → Cash" for a transfer between accounts
+function describePayment(t: Transaction, accounts: Account[]): string | undefined {
+  const from = findAccount(t.accountId, accounts)?.name;
+  const to = findAccount(t.toAccountId, accounts)?.name;
+  if (to) return from ? `${from} → ${to}` : `→ ${to}`;
+  return from ?? (t.paymentMethod ? PAYMENT_METHOD_LABELS[t.paymentMethod] : undefined);
 }
 
-function getCategoryColor(category: string): string {
-    const map: Record<string, string> = {
-        Food: 'from-orange-500/20 to-red-500/20 text-orange-400',
-        Shopping: 'from-purple-500/20 to-pink-500/20 text-purple-400',
-        Bills: 'from-blue-500/20 to-cyan-500/20 text-blue-400',
-        Transport: 'from-yellow-500/20 to-orange-500/20 text-yellow-400',
-        Entertainment: 'from-indigo-500/20 to-violet-500/20 text-indigo-400',
-        Other: 'from-gray-500/20 to-gray-400/20 text-gray-400'
-    };
-    return map[category] || map['Other'];
+// How the category was decided when the entry was added, for spotting misclassifications
+function describeCategorySource(t: Transaction): string | undefined {
+  const provenance = t.provenance?.category;
+  if (!provenance) return t.source ? `Parsed by ${t.source}` : undefined;
+  const confidence = `${Math.round(provenance.confidence * 100)}%`;
+  return `Category from ${provenance.source} (${confidence}${provenance.confirmed ? ', confirmed' : ''})`;
 }
@@ -1,40 +1,44 @@
 import React, { useMemo, useState } from 'react';
-import { Transaction, BudgetState, TransactionCategory, CATEGORY_BUCKET_MAP } from '../types';
+import { Transaction, BudgetState, TransactionCategory, CategoryDefinition } from '../types';
 import { Card } from './ui/Card';
-import { isSameWeek } from '../utils/date';
+import { DEFAULT_PERIOD_SETTINGS, PeriodSettings, isInWeek } from '../utils/periods';
+import { spendingAmount } from '../utils/cashflow';
+import { bucketOf, weeklyLimitCategories } from '../utils/categories';
 import { generateAnalytics } from '../utils/analytics';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
 
 interface WeeklySpendingProps {
     transactions: Transaction[];
     budget: BudgetState;
+    categories: CategoryDefinition[];
+    periodSettings?: PeriodSettings;
     onUpdateBudget: (newBudget: BudgetState) => void;
     onBack: () => void;
 }
 
-const MANDATORY_CATEGORIES: TransactionCategory[] = [
-    'Groceries', 'Outings', 'BodyCare', 'Orders', 'Miscellaneous', 'Petrol'
-];
-
-export const WeeklySpending: React.FC<WeeklySpendingProps> = ({ transactions, budget, onUpdateBudget, onBack }) => {
+export const WeeklySpending: React.FC<WeeklySpendingProps> = ({ transactions, budget, categories, periodSettings = DEFAULT_PERIOD_SETTINGS, onUpdateBudget, onBack }) => {
     // Local State for Inline Editing
     const [editingCategory, setEditingCategory] = useState<TransactionCategory | null>(null);
     const [editValue, setEditValue] = useState('');
 
+    // Active weekly categories, each with its own limit
+    const limitCategories = useMemo(() => weeklyLimitCategories(categories), [categories]);
+
     // 1. Filter for Current Week
     const weeklyTransactions = useMemo(() => {
         const now = new Date();
-        return transactions.filter(t => isSameWeek(new Date(t.date), now) && CATEGORY_BUCKET_MAP[t.category] === 'Weekly');
-    }, [transactions]);
+        return transactions.filter(t => isInWeek(t, now, periodSettings) && bucketOf(t.category, categories) === 'Weekly');
+    }, [transactions, categories, periodSettings]);
 
     // 2. Calculate Spend per Category
     const categorySpend = useMemo(() => {
         const spend: Partial<Record<TransactionCategory, number>> = {};
-        MANDATORY_CATEGORIES.forEach(cat => spend[cat] = 0); // Init 0
+        const names = limitCategories.map(c => c.name);
+        names.forEach(cat => spend[cat] = 0); // Init 0
 
         weeklyTransactions.forEach(t => {
-            if (MANDATORY_CATEGORIES.includes(t.category)) {
-                spend[t.category] = (spend[t.category] || 0) + t.amount;
+            if (names.includes(t.category)) {
+                spend[t.category] = (spend[t.category] || 0) + spendingAmount(t);
             } else {
                 // Map 'Food' to 'Groceries' or 'Orders' if not migrated? 
                 // For now, assume 'Miscellaneous' if unknown, or strict matching.
@@ -43,16 +47,14 @@ export const WeeklySpending: React.FC<WeeklySpendingProps> = ({ transactions, bu
             }
         });
         return spend;
-    }, [weeklyTransactions]);
+    }, [weeklyTransactions, limitCategories]);
 
     // 3. Overall Stats
-    const totalWeeklySpent = weeklyTransactions.reduce((acc, t) => acc + t.amount, 0);
+    const totalWeeklySpent = weeklyTransactions.reduce((acc, t) => acc + spendingAmount(t), 0);
     const weeklyLimit = budget.allocations.weeklyLimit;
     const remaining = weeklyLimit - totalWeeklySpent;
     const progress = Math.min(100, (totalWeeklySpent / weeklyLimit) * 100);
 
-    const COLORS = ['#10b981', '#f59e0b', '#ec4899', '#8b5cf6', '#3b82f6', '#6366f1'];
-
     // Handlers for Editing
     const handleStartEdit = (category: TransactionCategory, currentLimit: number) => {
         setEditingCategory(category);
@@ -81,9 +83,10 @@ export const WeeklySpending: React.FC<WeeklySpendingProps> = ({ transactions, bu
     };
 
     // Chart Data
-    const pieData = MANDATORY_CATEGORIES.map(cat => ({
-        name: cat,
-        value: categorySpend[cat] || 0
+    const pieData = limitCategories.map(cat => ({
+        name: cat.name,
+        value: categorySpend[cat.name] || 0,
+        color: cat.color
     })).filter(d => d.value > 0);
 
     return (
@@ -128,7 +131,7 @@ export const WeeklySpending: React.FC<WeeklySpendingProps> = ({ transactions, bu
             {/* Category Grid */}
             <h2 className="text-lg font-bold text-white mt-8 mb-4">Category Budgets</h2>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {MANDATORY_CATEGORIES.map((cat, index) => {
+                {limitCategories.map(({ name: cat, emoji, color }) => {
                     const spent = categorySpend[cat] || 0;
                     const limit = budget.allocations.weeklyCategoryLimits?.[cat] || 0;
                     const catProgress = limit > 0 ? Math.min(100, (spent / limit) * 100) : 0;
@@ -139,8 +142,8 @@ export const WeeklySpending: React.FC<WeeklySpendingProps> = ({ transactions, bu
                         <Card key={cat} className={`bg-white/5 border ${isOver ? 'border-red-500/30' : 'border-white/5'} hover:border-white/20 transition-all`}>
                             <div className="flex justify-between items-start mb-3">
                                 <div className="flex items-center gap-2">
-                                    <div className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
-                                    <h3 className="font-medium text-gray-200">{cat}</h3>
+                                    <div className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                                    <h3 className="font-medium text-gray-200">{emoji} {cat}</h3>
                                 </div>
                                 {editingCategory === cat ? (
                                     <div className="flex items-center gap-2 bg-black/40 rounded px-2 py-1 border border-violet-500/50">
@@ -176,8 +179,8 @@ export const WeeklySpending: React.FC<WeeklySpendingProps> = ({ transactions, bu
 
                             <div className="h-2 w-full bg-gray-800 rounded-full overflow-hidden">
                                 <div
-                                    className={`h-full transition-all duration-1000 ${isOver ? 'bg-red-500' : isNear ? 'bg-amber-500' : COLORS[index % COLORS.length]}`}
-                                    style={{ width: `${limit > 0 ? catProgress : 0}%` }}
+                                    className={`h-full transition-all duration-1000 ${isOver ? 'bg-red-500' : isNear ? 'bg-amber-500' : ''}`}
+                                    style={{ width: `${limit > 0 ? catProgress : 0}%`, ...(isOver || isNear ? {} : { backgroundColor: color }) }}
                                 />
                             </div>
                             {isOver && <p className="text-xs text-red-400 mt-2">Exceeded by ₹{(spent - limit).toLocaleString()}</p>}
@@ -203,7 +206,7 @@ export const WeeklySpending: React.FC<WeeklySpendingProps> = ({ transactions, bu
                                     dataKey="value"
                                 >
                                     {pieData.map((entry, index) => (
-                                        <Cell key={`cell-${index}`} fill={COLORS[MANDATORY_CATEGORIES.indexOf(entry.name as TransactionCategory) % COLORS.length]} stroke="rgba(0,0,0,0)" />
+                                        <Cell key={`cell-${index}`} fill={entry.color} stroke="rgba(0,0,0,0)" />
                                     ))}
                                 </Pie>
                                 <RechartsTooltip
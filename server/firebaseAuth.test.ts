@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { TokenVerificationError, createFirebaseTokenVerifier } from './firebaseAuth';
+
+const PROJECT_ID = 'smartspend-test';
+const KEY_ID = 'test-key';
+
+let privateKey: CryptoKey;
+
+const base64Url = (bytes: Uint8Array): string =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const encodeJson = (value: unknown): string => base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+const signToken = async (claims: Record<string, unknown>, header: Record<string, unknown> = { alg: 'RS256', kid: KEY_ID }): Promise<string> => {
+    const unsigned = `${encodeJson(header)}.${encodeJson(claims)}`;
+    const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', privateKey, new TextEncoder().encode(unsigned));
+    return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+};
+
+const validClaims = (overrides: Record<string, unknown> = {}) => {
+    const now = Math.floor(Date.now() / 1000);
+    return {
+        aud: PROJECT_ID,
+        iss: `https://securetoken.google.com/${PROJECT_ID}`,
+        sub: 'user-1',
+        iat: now - 60,
+        exp: now + 3600,
+        auth_time: now - 60,
+        ...overrides,
+    };
+};
+
+const rejection = async (token: string): Promise<string> => {
+    try {
+        await createFirebaseTokenVerifier(PROJECT_ID)(token);
+    } catch (error) {
+        expect(error).toBeInstanceOf(TokenVerificationError);
+        return (error as Error).message;
+    }
+    throw new Error('Token was accepted');
+};
+
+beforeAll(async () => {
+    const pair = await crypto.subtle.generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        true,
+        ['sign', 'verify']
+    );
+    privateKey = pair.privateKey;
+    const jwk = { ...await crypto.subtle.exportKey('jwk', pair.publicKey), kid: KEY_ID };
+    // Stands in for Google's published keys
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ keys: [jwk] }), {
+        headers: { 'Cache-Control': 'public, max-age=3600' },
+    })));
+});
+
+afterAll(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('createFirebaseTokenVerifier', () => {
+    it('returns the user of a valid token', async () => {
+        const token = await signToken(validClaims());
+        await expect(createFirebaseTokenVerifier(PROJECT_ID)(token)).resolves.toEqual({ uid: 'user-1' });
+    });
+
+    it('rejects malformed tokens', async () => {
+        expect(await rejection('not-a-token')).toBe('Malformed token');
+        expect(await rejection('a.b.c')).toBe('Malformed token');
+    });
+
+    it('rejects unexpected algorithms and unknown keys', async () => {
+        expect(await rejection(await signToken(validClaims(), { alg: 'HS256', kid: KEY_ID }))).toBe('Unexpected token algorithm');
+        expect(await rejection(await signToken(validClaims(), { alg: 'RS256', kid: 'other-key' }))).toBe('Unknown signing key');
+    });
+
+    it('rejects a token whose payload was changed after signing', async () => {
+        const [header, , signature] = (await signToken(validClaims())).split('.');
+        expect(await rejection(`${header}.${encodeJson(validClaims({ sub: 'someone-else' }))}.${signature}`)).toBe('Invalid signature');
+    });
+
+    it('checks the claims', async () => {
+        const now = Math.floor(Date.now() / 1000);
+        expect(await rejection(await signToken(validClaims({ aud: 'other-project' })))).toBe('Token is for another project');
+        expect(await rejection(await signToken(validClaims({ iss: 'https://example.com' })))).toBe('Unexpected issuer');
+        expect(await rejection(await signToken(validClaims({ exp: now - 3600 })))).toBe('Token expired');
+        expect(await rejection(await signToken(validClaims({ iat: now + 3600 })))).toBe('Token issued in the future');
+        expect(await rejection(await signToken(validClaims({ sub: '' })))).toBe('Missing subject');
+    });
+
+    it('caches the signing keys', async () => {
+        await createFirebaseTokenVerifier(PROJECT_ID)(await signToken(validClaims()));
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+});
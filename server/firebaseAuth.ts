@@ -0,0 +1,99 @@
+// Verifies Firebase ID tokens with WebCrypto against Google's published keys,
+// following https://firebase.google.com/docs/auth/admin/verify-id-tokens#verify_id_tokens_using_a_third-party_jwt_library
+
+const JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface VerifiedUser {
+    uid: string;
+}
+
+export type TokenVerifier = (idToken: string) => Promise<VerifiedUser>;
+
+export class TokenVerificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TokenVerificationError';
+    }
+}
+
+interface JwtHeader {
+    alg?: string;
+    kid?: string;
+}
+
+interface FirebaseClaims {
+    aud?: string;
+    iss?: string;
+    sub?: string;
+    exp?: number;
+    iat?: number;
+    auth_time?: number;
+}
+
+const base64UrlDecode = (segment: string): Uint8Array => {
+    const base64 = segment.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(segment.length / 4) * 4, '=');
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const decodeJson = <T>(segment: string): T => JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+
+// Keys rotate every few hours; honour the max-age Google sends
+let keyCache: { keys: Map<string, CryptoKey>; expiresAt: number } | null = null;
+
+const loadSigningKeys = async (): Promise<Map<string, CryptoKey>> => {
+    if (keyCache && keyCache.expiresAt > Date.now()) return keyCache.keys;
+
+    const response = await fetch(JWKS_URL);
+    if (!response.ok) throw new Error(`Could not fetch signing keys (${response.status})`);
+    const { keys } = await response.json() as { keys: (JsonWebKey & { kid: string })[] };
+
+    const imported = new Map<string, CryptoKey>();
+    for (const jwk of keys) {
+        imported.set(jwk.kid, await crypto.subtle.importKey(
+            'jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']
+        ));
+    }
+
+    const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get('cache-control') || '')?.[1] ?? 3600);
+    keyCache = { keys: imported, expiresAt: Date.now() + maxAge * 1000 };
+    return imported;
+};
+
+export const createFirebaseTokenVerifier = (projectId: string): TokenVerifier => async (idToken) => {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) throw new TokenVerificationError('Malformed token');
+
+    const [headerPart, payloadPart, signaturePart] = parts;
+    let header: JwtHeader;
+    let claims: FirebaseClaims;
+    try {
+        header = decodeJson<JwtHeader>(headerPart);
+        claims = decodeJson<FirebaseClaims>(payloadPart);
+    } catch {
+        throw new TokenVerificationError('Malformed token');
+    }
+
+    if (header.alg !== 'RS256' || !header.kid) throw new TokenVerificationError('Unexpected token algorithm');
+
+    const key = (await loadSigningKeys()).get(header.kid);
+    if (!key) throw new TokenVerificationError('Unknown signing key');
+
+    const valid = await crypto.subtle.verify(
+        'RSASSA-PKCS1-v1_5',
+        key,
+        base64UrlDecode(signaturePart),
+        new TextEncoder().encode(`${headerPart}.${payloadPart}`)
+    );
+    if (!valid) throw new TokenVerificationError('Invalid signature');
+
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.aud !== projectId) throw new TokenVerificationError('Token is for another project');
+    if (claims.iss !== `https://securetoken.google.com/${projectId}`) throw new TokenVerificationError('Unexpected issuer');
+    if (!claims.exp || claims.exp + CLOCK_SKEW_SECONDS < now) throw new TokenVerificationError('Token expired');
+    if (!claims.iat || claims.iat - CLOCK_SKEW_SECONDS > now) throw new TokenVerificationError('Token issued in the future');
+    if (claims.auth_time && claims.auth_time - CLOCK_SKEW_SECONDS > now) throw new TokenVerificationError('Invalid auth time');
+    if (!claims.sub || claims.sub.length > 128) throw new TokenVerificationError('Missing subject');
+
+    return { uid: claims.sub };
+};
@@ -0,0 +1,45 @@
+// In-memory limits for the AI proxy. State lives per server instance, which is
+// enough to stop a runaway client without needing a shared store.
+
+export class RateLimiter {
+    private hits = new Map<string, number[]>();
+
+    constructor(private limit: number, private windowMs: number) { }
+
+    // Records a hit and returns 0 if allowed, otherwise the ms until the next slot frees up
+    take(key: string, now: number = Date.now()): number {
+        const recent = (this.hits.get(key) ?? []).filter(t => now - t < this.windowMs);
+        if (recent.length >= this.limit) {
+            this.hits.set(key, recent);
+            return this.windowMs - (now - recent[0]);
+        }
+        recent.push(now);
+        this.hits.set(key, recent);
+        return 0;
+    }
+}
+
+export class ResponseCache<T> {
+    private entries = new Map<string, { value: T; expiresAt: number }>();
+
+    constructor(private ttlMs: number, private maxEntries: number) { }
+
+    get(key: string, now: number = Date.now()): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= now) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    }
+
+    set(key: string, value: T, now: number = Date.now()): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+        // Map keeps insertion order, so the first key is the oldest
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+}
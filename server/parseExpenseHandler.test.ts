@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createDefaultParseExpenseHandler, createParseExpenseHandler, createServerProvider } from './parseExpenseHandler';
+import { TokenVerificationError, TokenVerifier } from './firebaseAuth';
+import { RateLimiter } from './limits';
+import { MockProvider } from '../utils/ai/mock';
+
+const NOW = new Date(2025, 2, 14, 12, 0, 0);
+
+const verifyToken: TokenVerifier = async (idToken) => {
+    if (idToken !== 'good-token') throw new TokenVerificationError('Invalid signature');
+    return { uid: 'user-1' };
+};
+
+const post = (body: unknown, token: string | null = 'good-token') =>
+    new Request('http://localhost/api/parse-expense', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+const handlerWith = (options: { rateLimiter?: RateLimiter; maxInputLength?: number } = {}) =>
+    createParseExpenseHandler({ verifyToken, provider: new MockProvider({ now: () => NOW }), ...options });
+
+describe('parse-expense handler', () => {
+    it('answers from the mock provider and caches the answer', async () => {
+        const handler = handlerWith();
+
+        const first = await handler(post({ text: 'Spent 200 on lunch' }));
+        expect(first.status).toBe(200);
+        expect(first.headers.get('X-Cache')).toBe('MISS');
+        const { expenses } = await first.json();
+        expect(expenses).toHaveLength(1);
+        expect(expenses[0]).toMatchObject({ amount: 200, category: 'Outings', description: 'Lunch' });
+
+        const second = await handler(post({ text: '  spent 200   on LUNCH ' }));
+        expect(second.headers.get('X-Cache')).toBe('HIT');
+    });
+
+    it('splits several expenses in one message', async () => {
+        const response = await handlerWith()(post({ text: 'milk 60 and bread 40' }));
+        const { expenses } = await response.json();
+        expect(expenses.map((e: { amount: number }) => e.amount)).toEqual([60, 40]);
+    });
+
+    it('rejects requests without a valid ID token', async () => {
+        const handler = handlerWith();
+        expect((await handler(post({ text: 'spent 200 on lunch' }, null))).status).toBe(401);
+
+        const response = await handler(post({ text: 'spent 200 on lunch' }, 'forged'));
+        expect(response.status).toBe(401);
+        expect(await response.json()).toEqual({ error: 'Invalid signature' });
+    });
+
+    it('answers 503 when the token cannot be checked', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const handler = createParseExpenseHandler({
+            verifyToken: async () => { throw new Error('Could not fetch signing keys (500)'); },
+            provider: new MockProvider(),
+        });
+        expect((await handler(post({ text: 'spent 200 on lunch' }))).status).toBe(503);
+    });
+
+    it('only accepts POST', async () => {
+        const response = await handlerWith()(new Request('http://localhost/api/parse-expense'));
+        expect(response.status).toBe(405);
+        expect(response.headers.get('Allow')).toBe('POST');
+    });
+
+    it('validates the body', async () => {
+        const handler = handlerWith({ maxInputLength: 20 });
+        expect((await handler(post('not json'))).status).toBe(400);
+        expect((await handler(post({ text: '   ' }))).status).toBe(400);
+        expect((await handler(post({ text: 'x'.repeat(21) }))).status).toBe(413);
+        expect((await handler(post({ text: 'tea 20', categories: [{ name: 42 }] }))).status).toBe(400);
+        expect((await handler(post({ text: 'tea 20', timeZone: 'Mars/Olympus' }))).status).toBe(400);
+        expect((await handler(post({ text: 'tea 20', timeZone: 'Asia/Kolkata' }))).status).toBe(200);
+    });
+
+    it('limits requests per user', async () => {
+        const handler = handlerWith({ rateLimiter: new RateLimiter(1, 60_000) });
+        expect((await handler(post({ text: 'tea 20' }))).status).toBe(200);
+
+        const limited = await handler(post({ text: 'coffee 30' }));
+        expect(limited.status).toBe(429);
+        expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    });
+});
+
+describe('createDefaultParseExpenseHandler', () => {
+    it('answers 503 when FIREBASE_PROJECT_ID is missing', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const handler = createDefaultParseExpenseHandler({ AI_PROVIDER: 'mock' });
+        const response = await handler(post({ text: 'spent 200 on lunch' }));
+        expect(response.status).toBe(503);
+        expect(await response.json()).toEqual({ error: 'Auth is not configured' });
+    });
+
+    it('answers 503 when the AI provider is not configured', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const handler = createDefaultParseExpenseHandler({ FIREBASE_PROJECT_ID: 'demo' });
+        expect((await handler(post({ text: 'spent 200 on lunch' }))).status).toBe(503);
+    });
+});
+
+describe('createServerProvider', () => {
+    it('uses the mock provider only in development', () => {
+        expect(createServerProvider({ NODE_ENV: 'development' }).id).toBe('mock');
+        expect(createServerProvider({ AI_PROVIDER: 'mock' }).id).toBe('mock');
+        expect(() => createServerProvider({})).toThrow(/GROQ_API_KEY/);
+    });
+
+    it('rejects an unknown provider', () => {
+        expect(() => createServerProvider({ AI_PROVIDER: 'nope' })).toThrow(/Unknown AI_PROVIDER/);
+    });
+});
@@ -0,0 +1,149 @@
+import { ParsedExpense } from '../types';
+import { ExpenseParserProvider, PromptCategory } from '../utils/ai/provider';
+import { GroqProvider } from '../utils/ai/groq';
+import { OpenAICompatibleProvider } from '../utils/ai/openaiCompatible';
+import { MockProvider } from '../utils/ai/mock';
+import { TokenVerifier, TokenVerificationError, createFirebaseTokenVerifier } from './firebaseAuth';
+import { RateLimiter, ResponseCache } from './limits';
+import { isValidTimeZone, localDateKey } from '../utils/periods';
+
+export interface ParseExpenseHandlerOptions {
+    verifyToken: TokenVerifier;
+    provider: ExpenseParserProvider;
+    rateLimiter?: RateLimiter;
+    cache?: ResponseCache<ParsedExpense[]>;
+    maxInputLength?: number;
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers }
+    });
+
+// Relative dates ("yesterday") depend on the day, so cached answers only live within one: the
+// user's day, in the time zone the client sent (UTC without one). The answer also depends on
+// which categories the model could choose from.
+const cacheKey = (uid: string, text: string, categories?: PromptCategory[], timeZone = 'UTC') =>
+    `${uid}|${localDateKey(new Date(), timeZone)}|${categories ? JSON.stringify(categories) : ''}|${text.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+
+const MAX_CATEGORIES = 50;
+const MAX_CATEGORY_TEXT = 30;
+const MAX_CATEGORY_EXAMPLES = 4;
+
+const isShortString = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_CATEGORY_TEXT;
+
+// The optional category list ends up in the prompt, so it is held to a strict shape
+const parseCategories = (raw: unknown): PromptCategory[] | undefined | null => {
+    if (raw === undefined) return undefined;
+    if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_CATEGORIES) return null;
+    const categories: PromptCategory[] = [];
+    for (const item of raw) {
+        const { name, examples = [] } = (item ?? {}) as { name?: unknown; examples?: unknown };
+        if (!isShortString(name)) return null;
+        if (!Array.isArray(examples) || examples.length > MAX_CATEGORY_EXAMPLES || !examples.every(isShortString)) return null;
+        categories.push({ name, examples });
+    }
+    return categories;
+};
+
+// POST { text, categories?, timeZone? } with "Authorization: Bearer <Firebase ID token>" -> { expenses: ParsedExpense[] }
+export const createParseExpenseHandler = ({
+    verifyToken,
+    provider,
+    rateLimiter = new RateLimiter(30, 60_000),
+    cache = new ResponseCache<ParsedExpense[]>(10 * 60_000, 500),
+    maxInputLength = 1000
+}: ParseExpenseHandlerOptions) => async (request: Request): Promise<Response> => {
+    if (request.method !== 'POST') {
+        return json({ error: 'Method not allowed' }, 405, { Allow: 'POST' });
+    }
+
+    const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!token) return json({ error: 'Missing ID token' }, 401);
+
+    let uid: string;
+    try {
+        ({ uid } = await verifyToken(token));
+    } catch (error) {
+        if (error instanceof TokenVerificationError) return json({ error: error.message }, 401);
+        console.error("Error verifying ID token:", error);
+        return json({ error: 'Could not verify ID token' }, 503);
+    }
+
+    let text: unknown;
+    let rawCategories: unknown;
+    let timeZone: unknown;
+    try {
+        ({ text, categories: rawCategories, timeZone } = await request.json());
+    } catch {
+        return json({ error: 'Body must be JSON' }, 400);
+    }
+    if (typeof text !== 'string' || !text.trim()) return json({ error: '"text" is required' }, 400);
+    if (text.length > maxInputLength) return json({ error: `"text" is longer than ${maxInputLength} characters` }, 413);
+    const categories = parseCategories(rawCategories);
+    if (categories === null) return json({ error: '"categories" must be a list of { name, examples }' }, 400);
+    if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+        return json({ error: '"timeZone" must be an IANA time zone, e.g. Asia/Kolkata' }, 400);
+    }
+
+    const key = cacheKey(uid, text, categories, timeZone as string | undefined);
+    const cached = cache.get(key);
+    if (cached) return json({ expenses: cached }, 200, { 'X-Cache': 'HIT' });
+
+    const retryAfterMs = rateLimiter.take(uid);
+    if (retryAfterMs > 0) {
+        return json({ error: 'Too many requests' }, 429, { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
+    }
+
+    try {
+        const expenses = await provider.parseExpenses(text, { categories });
+        cache.set(key, expenses);
+        return json({ expenses }, 200, { 'X-Cache': 'MISS' });
+    } catch (error) {
+        console.error("Error parsing with AI:", error);
+        return json({ error: 'AI provider failed' }, 502);
+    }
+};
+
+// Server-side provider selection; keys stay in the server environment.
+// AI_PROVIDER=mock answers from fixtures, which is what local development (NODE_ENV=development)
+// uses by default. Anywhere else the default is Groq, so a missing key fails loudly instead of
+// answering real users from fixtures.
+export const createServerProvider = (env: Record<string, string | undefined> = process.env): ExpenseParserProvider => {
+    const fallback = env.GROQ_API_KEY || env.NODE_ENV !== 'development' ? 'groq' : 'mock';
+    switch (env.AI_PROVIDER || fallback) {
+        case 'groq':
+            if (!env.GROQ_API_KEY) throw new Error('GROQ_API_KEY is not set (use AI_PROVIDER=mock to answer from fixtures)');
+            return new GroqProvider({ apiKey: env.GROQ_API_KEY, model: env.AI_MODEL || undefined });
+        case 'openai-compatible':
+            return new OpenAICompatibleProvider({ baseUrl: env.AI_BASE_URL, model: env.AI_MODEL || 'llama3', apiKey: env.AI_API_KEY });
+        case 'mock':
+            return new MockProvider();
+        default:
+            throw new Error(`Unknown AI_PROVIDER "${env.AI_PROVIDER}"`);
+    }
+};
+
+export const createDefaultParseExpenseHandler = (env: Record<string, string | undefined> = process.env) => {
+    const projectId = env.FIREBASE_PROJECT_ID || env.VITE_FIREBASE_PROJECT_ID;
+    if (!projectId) {
+        // Like a missing model key: every request fails with a clear answer until it is set
+        console.error("FIREBASE_PROJECT_ID is not set");
+        return async (_request: Request): Promise<Response> => json({ error: 'Auth is not configured' }, 503);
+    }
+
+    let provider: ExpenseParserProvider;
+    try {
+        provider = createServerProvider(env);
+    } catch (error) {
+        // Every request fails until the configuration is fixed, so the problem is noticed
+        console.error("AI provider is not configured:", error);
+        return async (_request: Request): Promise<Response> => json({ error: 'AI provider is not configured' }, 503);
+    }
+    return createParseExpenseHandler({
+        verifyToken: createFirebaseTokenVerifier(projectId),
+        provider
+    });
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BACKUP_VERSION, BackupError, parseBundle, transactionsToCsv } from './backup';
+import { DEFAULT_PERIOD_SETTINGS, deviceTimeZone } from '../utils/periods';
+
+// parseBundle never touches Firestore; this keeps the module from connecting on import
+vi.mock('../utils/firebase', () => ({ db: {}, auth: {} }));
+
+const transaction = {
+    id: 't1',
+    amount: 200,
+    category: 'Outings',
+    description: 'Lunch',
+    date: '2025-03-14T06:30:00.000Z',
+    timestamp: 0,
+};
+
+// A bundle as version 1 of the app wrote it: no budget versions, no preferences
+const versionOne = {
+    app: 'smartspend',
+    version: 1,
+    exportedAt: '2024-06-01T00:00:00.000Z',
+    budget: { weeklyLimit: 3000, monthlyLimit: 20000 },
+    transactions: [transaction],
+    categories: [],
+    rules: [],
+    recurring: [],
+    accounts: [],
+    importPresets: [],
+    historyWeeks: [],
+    historyMonths: [],
+    meta: null,
+};
+
+const rejection = (text: string): string => {
+    try {
+        parseBundle(text);
+    } catch (error) {
+        expect(error).toBeInstanceOf(BackupError);
+        return (error as Error).message;
+    }
+    throw new Error('Bundle was accepted');
+};
+
+describe('parseBundle migrations', () => {
+    it('upgrades a version 1 bundle to the current shape', () => {
+        const bundle = parseBundle(JSON.stringify(versionOne));
+        expect(bundle.version).toBe(BACKUP_VERSION);
+        expect(bundle.budgetVersions).toEqual([]);
+        expect(bundle.preferences).toMatchObject({ ...DEFAULT_PERIOD_SETTINGS, timeZone: deviceTimeZone() });
+        expect(bundle.transactions).toEqual([transaction]);
+    });
+
+    it('keeps the pay cycle of a version 3 bundle and adds week start and time zone', () => {
+        const payCycle = { start: 'fixed_day', day: 25 };
+        const bundle = parseBundle(JSON.stringify({ ...versionOne, version: 3, budgetVersions: [], preferences: { payCycle } }));
+        expect(bundle.version).toBe(BACKUP_VERSION);
+        expect(bundle.preferences).toEqual({ payCycle, weekStartsOn: DEFAULT_PERIOD_SETTINGS.weekStartsOn, timeZone: deviceTimeZone() });
+    });
+
+    it('leaves a current bundle as it is', () => {
+        const preferences = { payCycle: { start: 'calendar' }, weekStartsOn: 0, timeZone: 'Asia/Kolkata' };
+        const current = { ...versionOne, version: BACKUP_VERSION, budgetVersions: [], preferences };
+        expect(parseBundle(JSON.stringify(current))).toEqual(current);
+    });
+});
+
+describe('parseBundle validation', () => {
+    it('rejects files that are not backups', () => {
+        expect(rejection('not json')).toMatch(/not valid JSON/);
+        expect(rejection(JSON.stringify({ app: 'other', version: 1 }))).toMatch(/not a SmartSpend backup/);
+        expect(rejection(JSON.stringify({ ...versionOne, version: '1' }))).toMatch(/no valid version/);
+    });
+
+    it('rejects bundles from a newer app', () => {
+        expect(rejection(JSON.stringify({ ...versionOne, version: BACKUP_VERSION + 1 }))).toMatch(/newer version/);
+    });
+
+    it('names the missing parts of an incomplete bundle', () => {
+        const { rules: _rules, budget: _budget, ...incomplete } = versionOne;
+        expect(rejection(JSON.stringify(incomplete))).toBe('This backup is incomplete (missing rules, budget)');
+    });
+
+    it('rejects damaged transactions', () => {
+        expect(rejection(JSON.stringify({ ...versionOne, transactions: [{ ...transaction, amount: '200' }] }))).toMatch(/damaged transaction/);
+    });
+});
+
+describe('transactionsToCsv', () => {
+    it('writes each transaction on the day it counts on', () => {
+        const csv = transactionsToCsv([{ ...transaction, description: 'Lunch, "team"' }], [], 'America/Los_Angeles');
+        const [, row] = csv.split('\r\n');
+        expect(row.startsWith('2025-03-13,"Lunch, ""team""",-200,expense,')).toBe(true);
+    });
+});
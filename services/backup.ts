@@ -0,0 +1,336 @@
+import { db } from '../utils/firebase';
+import { collection, deleteDoc, doc, getDocs, setDoc } from 'firebase/firestore';
+import {
+    Account,
+    BudgetState,
+    BudgetVersion,
+    CategoryDefinition,
+    CategoryRule,
+    HistoryMeta,
+    ImportPreset,
+    MonthlyStats,
+    RecurringTransaction,
+    Transaction,
+    UserPreferences,
+    WeeklyStats,
+} from '../types';
+import { storageService } from './storage';
+import { createDefaultPreferences } from './defaults';
+import { resolveTransactionConflict } from './offlineStorage';
+import { ProgressCallback } from './syncQueue';
+import { deviceTimeZone, transactionDay } from '../utils/periods';
+import { format } from 'date-fns';
+
+// Bumped whenever the bundle shape changes; older bundles are upgraded in migrateBundle
+export const BACKUP_VERSION = 4;
+
+const BACKUP_APP = 'smartspend';
+
+// Everything stored for a user, as one JSON document
+export interface BackupBundle {
+    app: typeof BACKUP_APP;
+    version: number;
+    exportedAt: string; // ISO
+    budget: BudgetState;
+    budgetVersions: BudgetVersion[]; // since version 2
+    preferences: UserPreferences; // since version 3; week start and time zone since version 4
+    transactions: Transaction[];
+    categories: CategoryDefinition[];
+    rules: CategoryRule[];
+    recurring: RecurringTransaction[];
+    accounts: Account[];
+    importPresets: ImportPreset[];
+    historyWeeks: WeeklyStats[];
+    historyMonths: MonthlyStats[];
+    meta: HistoryMeta | null;
+}
+
+// merge: keep what is already stored and add what is missing (newer transaction edits win);
+// replace: make the stored data exactly what the bundle holds
+export type RestoreMode = 'merge' | 'replace';
+
+export class BackupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackupError';
+    }
+}
+
+const WEEKS_COLLECTION = 'history_weeks';
+const MONTHS_COLLECTION = 'history_months';
+
+// --- Export ---
+
+const loadHistory = async <T>(userId: string, name: string): Promise<T[]> => {
+    const snapshot = await getDocs(collection(db, 'users', userId, name));
+    return snapshot.docs.map(d => d.data() as T);
+};
+
+export const exportBundle = async (userId: string, now: Date = new Date()): Promise<BackupBundle> => {
+    return {
+        app: BACKUP_APP,
+        version: BACKUP_VERSION,
+        exportedAt: now.toISOString(),
+        budget: await storageService.loadBudget(userId),
+        budgetVersions: await storageService.loadBudgetVersions(userId),
+        preferences: await storageService.loadPreferences(userId),
+        transactions: await storageService.loadTransactions(userId),
+        categories: await storageService.loadCategories(userId),
+        rules: await storageService.loadRules(userId),
+        recurring: await storageService.loadRecurring(userId),
+        accounts: await storageService.loadAccounts(userId),
+        importPresets: await storageService.loadImportPresets(userId),
+        historyWeeks: await loadHistory<WeeklyStats>(userId, WEEKS_COLLECTION),
+        historyMonths: await loadHistory<MonthlyStats>(userId, MONTHS_COLLECTION),
+        meta: await storageService.loadHistoryMeta(userId),
+    };
+};
+
+export const backupFileName = (extension: string, now: Date = new Date()): string =>
+    `smartspend-${format(now, 'yyyy-MM-dd')}.${extension}`;
+
+// Money in positive, money out (transfers included) negative
+const signedAmount = (t: Transaction): number =>
+    t.direction === 'income' || t.direction === 'refund' ? t.amount : -t.amount;
+
+const csvCell = (value: string | number | undefined): string => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per transaction with money out negative, for spreadsheets, dated by the day it counts
+// on in the user's zone. Transfers are neither in nor out, so their amount is left unsigned.
+export const transactionsToCsv = (transactions: Transaction[], accounts: Account[] = [], timeZone: string = deviceTimeZone()): string => {
+    const accountName = (id?: string) => accounts.find(a => a.id === id)?.name ?? '';
+    const header = ['Date', 'Description', 'Amount', 'Direction', 'Category', 'Sub-category', 'Tags', 'Payment method', 'Account', 'To account', 'Your share', 'Reference', 'Id'];
+    const rows = [...transactions]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(t => [
+            format(transactionDay(t, timeZone), 'yyyy-MM-dd'),
+            t.description,
+            t.direction === 'transfer' ? t.amount : signedAmount(t),
+            t.direction ?? 'expense',
+            t.category,
+            t.subcategory,
+            t.tags?.join(' '),
+            t.paymentMethod,
+            accountName(t.accountId),
+            accountName(t.toAccountId),
+            t.split?.myShare,
+            t.reference,
+            t.id,
+        ].map(csvCell).join(','));
+    return [header.join(','), ...rows].join('\r\n');
+};
+
+// OFX fields are SGML text: no markup characters, and most readers cut NAME at 32 characters
+const ofxText = (text: string, max?: number): string => {
+    const clean = text.replace(/[<>&]/g, ' ').replace(/\s+/g, ' ').trim();
+    return max ? clean.slice(0, max) : clean;
+};
+
+const ofxDate = (iso: string) => format(new Date(iso), 'yyyyMMddHHmmss');
+
+const OFX_TYPES: Record<string, string> = {
+    expense: 'DEBIT',
+    income: 'CREDIT',
+    refund: 'CREDIT',
+    transfer: 'XFER',
+};
+
+// An OFX 1.02 bank statement holding every transaction, for finance apps that import OFX
+export const transactionsToOfx = (transactions: Transaction[], now: Date = new Date()): string => {
+    const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+    const start = sorted[0]?.date ?? now.toISOString();
+    const end = sorted[sorted.length - 1]?.date ?? now.toISOString();
+    const entries = sorted.map(t => [
+        '<STMTTRN>',
+        `<TRNTYPE>${OFX_TYPES[t.direction ?? 'expense']}`,
+        `<DTPOSTED>${ofxDate(t.date)}`,
+        // Transfers count as money out of the account they left
+        `<TRNAMT>${signedAmount(t).toFixed(2)}`,
+        `<FITID>${ofxText(t.id)}`,
+        `<NAME>${ofxText(t.description, 32) || 'Transaction'}`,
+        `<MEMO>${ofxText([t.category, t.subcategory].filter(Boolean).join(' / '))}`,
+        '</STMTTRN>',
+    ].join('\n'));
+
+    return [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        'VERSION:102',
+        'SECURITY:NONE',
+        'ENCODING:USASCII',
+        'CHARSET:1252',
+        'COMPRESSION:NONE',
+        'OLDFILEUID:NONE',
+        'NEWFILEUID:NONE',
+        '',
+        '<OFX>',
+        '<SIGNONMSGSRSV1><SONRS>',
+        '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+        `<DTSERVER>${ofxDate(now.toISOString())}`,
+        '<LANGUAGE>ENG',
+        '</SONRS></SIGNONMSGSRSV1>',
+        '<BANKMSGSRSV1><STMTTRNRS>',
+        '<TRNUID>0',
+        '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+        '<STMTRS>',
+        '<CURDEF>INR',
+        '<BANKACCTFROM><BANKID>SMARTSPEND<ACCTID>SMARTSPEND<ACCTTYPE>CHECKING</BANKACCTFROM>',
+        '<BANKTRANLIST>',
+        `<DTSTART>${ofxDate(start)}`,
+        `<DTEND>${ofxDate(end)}`,
+        ...entries,
+        '</BANKTRANLIST>',
+        '</STMTRS>',
+        '</STMTTRNRS></BANKMSGSRSV1>',
+        '</OFX>',
+        '',
+    ].join('\n');
+};
+
+// --- Restore ---
+
+// Upgrades a bundle written by an older version of the app to the current shape.
+// Each step takes a bundle from one version to the next, oldest first.
+const migrateBundle = (raw: Record<string, unknown>): Record<string, unknown> => {
+    let bundle = raw;
+    // Version 2 added budget versions; older backups have none
+    if ((bundle.version as number) < 2) bundle = { ...bundle, budgetVersions: [], version: 2 };
+    // Version 3 added preferences; older backups were made with calendar months
+    if ((bundle.version as number) < 3) bundle = { ...bundle, preferences: createDefaultPreferences(), version: 3 };
+    // Version 4 added week start and time zone; older backups counted Monday weeks on the device's clock
+    if ((bundle.version as number) < 4) {
+        bundle = { ...bundle, preferences: { ...createDefaultPreferences(), ...(bundle.preferences as object) }, version: 4 };
+    }
+    return bundle;
+};
+
+const LIST_FIELDS: (keyof BackupBundle)[] = [
+    'budgetVersions', 'transactions', 'categories', 'rules', 'recurring', 'accounts', 'importPresets', 'historyWeeks', 'historyMonths',
+];
+
+const OBJECT_FIELDS: (keyof BackupBundle)[] = ['budget', 'preferences'];
+
+// Reads a bundle file. Throws a BackupError that can be shown to the user when it isn't one,
+// or when it was written by a newer version of the app than this one.
+export const parseBundle = (text: string): BackupBundle => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new BackupError('This file is not a backup: it is not valid JSON');
+    }
+    if (!raw || typeof raw !== 'object' || (raw as { app?: unknown }).app !== BACKUP_APP) {
+        throw new BackupError('This file is not a SmartSpend backup');
+    }
+    const version = (raw as Record<string, unknown>).version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new BackupError('This backup has no valid version number');
+    }
+    if (version > BACKUP_VERSION) {
+        throw new BackupError(`This backup is from a newer version of the app (v${version}); update the app to restore it`);
+    }
+    const bundle = migrateBundle(raw as Record<string, unknown>);
+    const missing = [
+        ...LIST_FIELDS.filter(field => !Array.isArray(bundle[field])),
+        ...OBJECT_FIELDS.filter(field => !bundle[field] || typeof bundle[field] !== 'object'),
+    ];
+    if (missing.length > 0) {
+        throw new BackupError(`This backup is incomplete (missing ${missing.join(', ')})`);
+    }
+    const invalid = (bundle.transactions as Partial<Transaction>[]).find(t =>
+        typeof t?.id !== 'string' || typeof t.amount !== 'number' || typeof t.date !== 'string' || typeof t.category !== 'string'
+    );
+    if (invalid) throw new BackupError('This backup has a damaged transaction and cannot be restored');
+    return bundle as unknown as BackupBundle;
+};
+
+export interface RestoreSummary {
+    transactionsWritten: number;
+    transactionsRemoved: number;
+}
+
+// Items in `incoming` that are not stored yet (merge) or all of them (replace), and the
+// stored ids that a replace has to remove
+const reconcile = <T>(mode: RestoreMode, current: T[], incoming: T[], key: (item: T) => string) => {
+    const currentKeys = new Set(current.map(key));
+    const incomingKeys = new Set(incoming.map(key));
+    return {
+        save: mode === 'replace' ? incoming : incoming.filter(item => !currentKeys.has(key(item))),
+        remove: mode === 'replace' ? current.map(key).filter(k => !incomingKeys.has(k)) : [],
+    };
+};
+
+const restoreHistory = async <T>(userId: string, name: string, mode: RestoreMode, incoming: T[], idOf: (item: T) => string) => {
+    const current = await loadHistory<T>(userId, name);
+    const { save, remove } = reconcile(mode, current, incoming, idOf);
+    for (const id of remove) await deleteDoc(doc(db, 'users', userId, name, id));
+    for (const item of save) await setDoc(doc(db, 'users', userId, name, idOf(item)), item);
+};
+
+// Writes a bundle back to the user's cloud data. Transactions go in batches with progress;
+// the smaller lists go through the regular storage calls so the offline cache stays in step.
+export const restoreBundle = async (
+    userId: string,
+    bundle: BackupBundle,
+    mode: RestoreMode,
+    onProgress?: ProgressCallback
+): Promise<RestoreSummary> => {
+    // Transactions: on merge an edit newer than the stored copy wins, as in sync conflicts
+    const current = await storageService.loadTransactions(userId);
+    const stored = new Map(current.map(t => [t.id, t]));
+    const toWrite = mode === 'replace'
+        ? bundle.transactions
+        : bundle.transactions.filter(t => {
+            const existing = stored.get(t.id);
+            return !existing || resolveTransactionConflict(t, existing) === t;
+        });
+    const incomingIds = new Set(bundle.transactions.map(t => t.id));
+    const toRemove = mode === 'replace' ? current.filter(t => !incomingIds.has(t.id)).map(t => t.id) : [];
+    await storageService.deleteTransactions(userId, toRemove);
+    await storageService.saveTransactions(userId, toWrite, onProgress);
+
+    // A merge keeps the current budget, preferences and categories, adding only categories it lacks
+    const budget = await storageService.loadBudget(userId);
+    if (mode === 'replace' || !budget.isSet) await storageService.saveBudget(userId, bundle.budget);
+    if (mode === 'replace') await storageService.savePreferences(userId, bundle.preferences);
+
+    const versions = reconcile(mode, await storageService.loadBudgetVersions(userId), bundle.budgetVersions, v => v.id);
+    for (const id of versions.remove) await storageService.deleteBudgetVersion(userId, id);
+    for (const version of versions.save) await storageService.saveBudgetVersion(userId, version);
+
+    const categories = await storageService.loadCategories(userId);
+    const newCategories = bundle.categories.filter(c => !categories.some(existing => existing.name === c.name));
+    if (mode === 'replace') {
+        await storageService.saveCategories(userId, bundle.categories);
+    } else if (newCategories.length > 0) {
+        await storageService.saveCategories(userId, [...categories, ...newCategories]);
+    }
+
+    const rules = reconcile(mode, await storageService.loadRules(userId), bundle.rules, r => r.id);
+    for (const id of rules.remove) await storageService.deleteRule(userId, id);
+    for (const rule of rules.save) await storageService.saveRule(userId, rule);
+
+    const recurring = reconcile(mode, await storageService.loadRecurring(userId), bundle.recurring, r => r.id);
+    for (const id of recurring.remove) await storageService.deleteRecurring(userId, id);
+    for (const item of recurring.save) await storageService.saveRecurring(userId, item);
+
+    const accounts = reconcile(mode, await storageService.loadAccounts(userId), bundle.accounts, a => a.id);
+    for (const id of accounts.remove) await storageService.deleteAccount(userId, id);
+    for (const account of accounts.save) await storageService.saveAccount(userId, account);
+
+    const presets = reconcile(mode, await storageService.loadImportPresets(userId), bundle.importPresets, p => p.id);
+    for (const id of presets.remove) await storageService.deleteImportPreset(userId, id);
+    for (const preset of presets.save) await storageService.saveImportPreset(userId, preset);
+
+    // Archived periods live only in Firestore (see TimeService)
+    await restoreHistory(userId, WEEKS_COLLECTION, mode, bundle.historyWeeks, w => w.weekId);
+    await restoreHistory(userId, MONTHS_COLLECTION, mode, bundle.historyMonths, m => m.monthId);
+    if (bundle.meta && (mode === 'replace' || !(await storageService.loadHistoryMeta(userId)))) {
+        await storageService.saveHistoryMeta(userId, bundle.meta);
+    }
+
+    return { transactionsWritten: toWrite.length, transactionsRemoved: toRemove.length };
+};
@@ -0,0 +1,21 @@
+import { BudgetState, UserPreferences } from '../types';
+import { createDefaultCategoryLimits } from '../utils/categories';
+import { DEFAULT_PERIOD_SETTINGS, deviceTimeZone } from '../utils/periods';
+
+// Budget used before the user has completed setup (or when nothing is stored yet)
+export const createDefaultBudget = (): BudgetState => ({
+    monthlyIncome: 0,
+    allocations: {
+        weeklyLimit: 0,
+        monthlyLimit: 0,
+        savingsTarget: 0,
+        weeklyCategoryLimits: createDefaultCategoryLimits()
+    },
+    isSet: false,
+});
+
+// Preferences for a user who has never changed them
+export const createDefaultPreferences = (): UserPreferences => ({
+    ...DEFAULT_PERIOD_SETTINGS,
+    timeZone: deviceTimeZone(),
+});
@@ -0,0 +1,91 @@
+// Thin promise wrapper around the browser IndexedDB used by the offline storage layer.
+
+const DB_NAME = 'smartspend';
+const DB_VERSION = 1;
+
+export const STORES = {
+    TRANSACTIONS: 'transactions', // { userId, id, data: Transaction }
+    KV: 'kv',                     // { key: "<userId>/<name>", value }
+    QUEUE: 'sync_queue',          // { seq (auto), userId, method, args, queuedAt, attempts }
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openLocalDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+            reject(new Error('IndexedDB is not supported in this browser'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORES.TRANSACTIONS)) {
+                const txStore = db.createObjectStore(STORES.TRANSACTIONS, { keyPath: ['userId', 'id'] });
+                txStore.createIndex('userId', 'userId');
+            }
+            if (!db.objectStoreNames.contains(STORES.KV)) {
+                db.createObjectStore(STORES.KV, { keyPath: 'key' });
+            }
+            if (!db.objectStoreNames.contains(STORES.QUEUE)) {
+                const queueStore = db.createObjectStore(STORES.QUEUE, { keyPath: 'seq', autoIncrement: true });
+                queueStore.createIndex('userId', 'userId');
+            }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Runs `fn` inside a single transaction and resolves once the transaction commits.
+export const withStore = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+    const db = await openLocalDb();
+    const tx = db.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+    const result = await fn(tx.objectStore(storeName));
+    await done;
+    return result;
+};
+
+export const getAllByUser = <T>(storeName: StoreName, userId: string): Promise<T[]> =>
+    withStore(storeName, 'readonly', store =>
+        requestToPromise(store.index('userId').getAll(userId) as IDBRequest<T[]>)
+    );
+
+export const kvGet = async <T>(userId: string, name: string): Promise<T | undefined> => {
+    const record = await withStore(STORES.KV, 'readonly', store =>
+        requestToPromise(store.get(`${userId}/${name}`) as IDBRequest<{ key: string; value: T } | undefined>)
+    );
+    return record?.value;
+};
+
+export const kvSet = <T>(userId: string, name: string, value: T): Promise<void> =>
+    withStore(STORES.KV, 'readwrite', async store => {
+        await requestToPromise(store.put({ key: `${userId}/${name}`, value }));
+    });
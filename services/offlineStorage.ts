@@ -0,0 +1,384 @@
+import { BudgetState, BudgetVersion, HistoryMeta, UserPreferences, Transaction, CategoryRule, RecurringTransaction, CategoryDefinition, Account, ImportPreset } from '../types';
+import type { IStorageService } from './storage';
+import { createDefaultBudget, createDefaultPreferences } from './defaults';
+import { DEFAULT_CATEGORIES } from '../utils/categories';
+import { STORES, withStore, requestToPromise, getAllByUser, kvGet, kvSet } from './localDb';
+import { SyncQueue, SyncOperation, BATCH_LIMIT, ProgressCallback } from './syncQueue';
+
+interface LocalTransactionRecord {
+    userId: string;
+    id: string;
+    data: Transaction;
+}
+
+const BUDGET_KEY = 'budget';
+const BUDGET_VERSIONS_KEY = 'budget_versions';
+const PREFERENCES_KEY = 'preferences';
+const HISTORY_META_KEY = 'history_meta';
+const CATEGORIES_KEY = 'categories';
+const RULES_KEY = 'rules';
+const RECURRING_KEY = 'recurring';
+const ACCOUNTS_KEY = 'accounts';
+const IMPORT_PRESETS_KEY = 'import_presets';
+
+// Deterministic conflict rule for the same transaction id:
+// the most recent write (updatedAt, falling back to creation timestamp) wins, ties go to the server copy.
+export const resolveTransactionConflict = (local: Transaction, remote: Transaction): Transaction => {
+    const localVersion = local.updatedAt ?? local.timestamp;
+    const remoteVersion = remote.updatedAt ?? remote.timestamp;
+    return localVersion > remoteVersion ? local : remote;
+};
+
+const byNewest = (a: Transaction, b: Transaction) => b.timestamp - a.timestamp;
+
+// Offline-first implementation: every write lands in IndexedDB immediately and is
+// queued for Firestore; reads merge the server copy with anything not yet synced.
+export class OfflineStorageService implements IStorageService {
+    readonly syncQueue: SyncQueue;
+
+    constructor(private remote: IStorageService) {
+        this.syncQueue = new SyncQueue(remote);
+    }
+
+    async loadBudget(userId: string): Promise<BudgetState> {
+        this.syncQueue.setActiveUser(userId);
+        const local = await this.safeLocal(() => kvGet<BudgetState>(userId, BUDGET_KEY));
+        const pending = await this.pendingOps(userId);
+
+        // An unsynced local edit is newer than anything on the server
+        if (local && pending.some(op => op.method === 'saveBudget')) {
+            return local;
+        }
+
+        try {
+            const remote = await this.remote.loadBudget(userId);
+            await this.safeLocal(() => kvSet(userId, BUDGET_KEY, remote));
+            return remote;
+        } catch {
+            return local ?? createDefaultBudget();
+        }
+    }
+
+    async saveBudget(userId: string, budget: BudgetState): Promise<void> {
+        await this.safeLocal(() => kvSet(userId, BUDGET_KEY, budget));
+        await this.queue(userId, 'saveBudget', [budget]);
+    }
+
+    async loadBudgetVersions(userId: string): Promise<BudgetVersion[]> {
+        return this.loadCachedList(userId, BUDGET_VERSIONS_KEY, ['saveBudgetVersion', 'deleteBudgetVersion'], () => this.remote.loadBudgetVersions(userId));
+    }
+
+    async saveBudgetVersion(userId: string, version: BudgetVersion): Promise<void> {
+        await this.updateCachedList<BudgetVersion>(userId, BUDGET_VERSIONS_KEY, list => [...list.filter(v => v.id !== version.id), version]);
+        await this.queue(userId, 'saveBudgetVersion', [version]);
+    }
+
+    async deleteBudgetVersion(userId: string, versionId: string): Promise<void> {
+        await this.updateCachedList<BudgetVersion>(userId, BUDGET_VERSIONS_KEY, list => list.filter(v => v.id !== versionId));
+        await this.queue(userId, 'deleteBudgetVersion', [versionId]);
+    }
+
+    async loadPreferences(userId: string): Promise<UserPreferences> {
+        const cached = await this.safeLocal(() => kvGet<Partial<UserPreferences>>(userId, PREFERENCES_KEY));
+        // Cached before week start and time zone were kept: fill them in like the remote does
+        const local = cached ? { ...createDefaultPreferences(), ...cached } : null;
+        const pending = await this.pendingOps(userId);
+
+        if (local && pending.some(op => op.method === 'savePreferences')) {
+            return local;
+        }
+
+        try {
+            const remote = await this.remote.loadPreferences(userId);
+            await this.safeLocal(() => kvSet(userId, PREFERENCES_KEY, remote));
+            return remote;
+        } catch {
+            return local ?? createDefaultPreferences();
+        }
+    }
+
+    async savePreferences(userId: string, preferences: UserPreferences): Promise<void> {
+        await this.safeLocal(() => kvSet(userId, PREFERENCES_KEY, preferences));
+        await this.queue(userId, 'savePreferences', [preferences]);
+    }
+
+    async loadHistoryMeta(userId: string): Promise<HistoryMeta | null> {
+        const local = await this.safeLocal(() => kvGet<HistoryMeta>(userId, HISTORY_META_KEY));
+        const pending = await this.pendingOps(userId);
+
+        if (local && pending.some(op => op.method === 'saveHistoryMeta')) {
+            return local;
+        }
+
+        try {
+            const remote = await this.remote.loadHistoryMeta(userId);
+            if (remote) await this.safeLocal(() => kvSet(userId, HISTORY_META_KEY, remote));
+            return remote;
+        } catch {
+            return local ?? null;
+        }
+    }
+
+    async saveHistoryMeta(userId: string, meta: HistoryMeta): Promise<void> {
+        await this.safeLocal(() => kvSet(userId, HISTORY_META_KEY, meta));
+        await this.queue(userId, 'saveHistoryMeta', [meta]);
+    }
+
+    async loadTransactions(userId: string): Promise<Transaction[]> {
+        this.syncQueue.setActiveUser(userId);
+        const local = (await this.safeLocal(() => getAllByUser<LocalTransactionRecord>(STORES.TRANSACTIONS, userId))) ?? [];
+        const localTx = local.map(record => record.data);
+
+        let remoteTx: Transaction[];
+        try {
+            remoteTx = await this.remote.loadTransactions(userId);
+        } catch {
+            // Offline: the local copy already includes every unsynced write
+            return localTx.sort(byNewest);
+        }
+
+        const pending = await this.pendingOps(userId);
+        const pendingDeletes = new Set<string>();
+        const pendingWrites = new Set<string>();
+        pending.forEach(op => {
+            if (op.method === 'deleteTransaction') pendingDeletes.add(op.args[0] as string);
+            if (op.method === 'deleteTransactions') (op.args[0] as string[]).forEach(id => pendingDeletes.add(id));
+            if (op.method === 'addTransaction' || op.method === 'updateTransaction') {
+                pendingWrites.add((op.args[0] as Transaction).id);
+            }
+            if (op.method === 'saveTransactions') (op.args[0] as Transaction[]).forEach(tx => pendingWrites.add(tx.id));
+        });
+
+        const merged = new Map<string, Transaction>();
+        remoteTx.forEach(tx => {
+            if (!pendingDeletes.has(tx.id)) merged.set(tx.id, tx);
+        });
+        localTx.forEach(tx => {
+            const remote = merged.get(tx.id);
+            if (remote) {
+                merged.set(tx.id, resolveTransactionConflict(tx, remote));
+            } else if (pendingWrites.has(tx.id)) {
+                merged.set(tx.id, tx);
+            }
+            // Otherwise it was deleted on another device: drop it
+        });
+
+        const result = Array.from(merged.values()).sort(byNewest);
+        await this.safeLocal(() => this.replaceLocalTransactions(userId, result));
+        return result;
+    }
+
+    async addTransaction(userId: string, transaction: Transaction): Promise<void> {
+        await this.safeLocal(() => this.putLocalTransaction(userId, transaction));
+        await this.queue(userId, 'addTransaction', [transaction]);
+    }
+
+    async updateTransaction(userId: string, transaction: Transaction): Promise<void> {
+        const record = { ...transaction, updatedAt: Date.now() };
+        await this.safeLocal(() => this.putLocalTransaction(userId, record));
+        await this.queue(userId, 'updateTransaction', [record]);
+    }
+
+    async deleteTransaction(userId: string, transactionId: string): Promise<void> {
+        await this.safeLocal(() => withStore(STORES.TRANSACTIONS, 'readwrite', async store => {
+            await requestToPromise(store.delete([userId, transactionId]));
+        }));
+        await this.queue(userId, 'deleteTransaction', [transactionId]);
+    }
+
+    async loadCategories(userId: string): Promise<CategoryDefinition[]> {
+        const local = await this.safeLocal(() => kvGet<CategoryDefinition[]>(userId, CATEGORIES_KEY));
+        const pending = await this.pendingOps(userId);
+        if (local && pending.some(op => op.method === 'saveCategories')) {
+            return local;
+        }
+
+        try {
+            const remote = await this.remote.loadCategories(userId);
+            await this.safeLocal(() => kvSet(userId, CATEGORIES_KEY, remote));
+            return remote;
+        } catch {
+            return local ?? DEFAULT_CATEGORIES;
+        }
+    }
+
+    async saveCategories(userId: string, categories: CategoryDefinition[]): Promise<void> {
+        await this.safeLocal(() => kvSet(userId, CATEGORIES_KEY, categories));
+        await this.queue(userId, 'saveCategories', [categories]);
+    }
+
+    async loadRules(userId: string): Promise<CategoryRule[]> {
+        return this.loadCachedList(userId, RULES_KEY, ['saveRule', 'deleteRule'], () => this.remote.loadRules(userId));
+    }
+
+    async saveRule(userId: string, rule: CategoryRule): Promise<void> {
+        await this.updateCachedList<CategoryRule>(userId, RULES_KEY, list => [...list.filter(r => r.id !== rule.id), rule]);
+        await this.queue(userId, 'saveRule', [rule]);
+    }
+
+    async deleteRule(userId: string, ruleId: string): Promise<void> {
+        await this.updateCachedList<CategoryRule>(userId, RULES_KEY, list => list.filter(r => r.id !== ruleId));
+        await this.queue(userId, 'deleteRule', [ruleId]);
+    }
+
+    async loadRecurring(userId: string): Promise<RecurringTransaction[]> {
+        return this.loadCachedList(userId, RECURRING_KEY, ['saveRecurring', 'deleteRecurring'], () => this.remote.loadRecurring(userId));
+    }
+
+    async saveRecurring(userId: string, recurring: RecurringTransaction): Promise<void> {
+        await this.updateCachedList<RecurringTransaction>(userId, RECURRING_KEY, list => [...list.filter(r => r.id !== recurring.id), recurring]);
+        await this.queue(userId, 'saveRecurring', [recurring]);
+    }
+
+    async deleteRecurring(userId: string, recurringId: string): Promise<void> {
+        await this.updateCachedList<RecurringTransaction>(userId, RECURRING_KEY, list => list.filter(r => r.id !== recurringId));
+        await this.queue(userId, 'deleteRecurring', [recurringId]);
+    }
+
+    async loadAccounts(userId: string): Promise<Account[]> {
+        return this.loadCachedList(userId, ACCOUNTS_KEY, ['saveAccount', 'deleteAccount'], () => this.remote.loadAccounts(userId));
+    }
+
+    async saveAccount(userId: string, account: Account): Promise<void> {
+        await this.updateCachedList<Account>(userId, ACCOUNTS_KEY, list => [...list.filter(a => a.id !== account.id), account]);
+        await this.queue(userId, 'saveAccount', [account]);
+    }
+
+    async deleteAccount(userId: string, accountId: string): Promise<void> {
+        await this.updateCachedList<Account>(userId, ACCOUNTS_KEY, list => list.filter(a => a.id !== accountId));
+        await this.queue(userId, 'deleteAccount', [accountId]);
+    }
+
+    async loadImportPresets(userId: string): Promise<ImportPreset[]> {
+        return this.loadCachedList(userId, IMPORT_PRESETS_KEY, ['saveImportPreset', 'deleteImportPreset'], () => this.remote.loadImportPresets(userId));
+    }
+
+    async saveImportPreset(userId: string, preset: ImportPreset): Promise<void> {
+        await this.updateCachedList<ImportPreset>(userId, IMPORT_PRESETS_KEY, list => [...list.filter(p => p.id !== preset.id), preset]);
+        await this.queue(userId, 'saveImportPreset', [preset]);
+    }
+
+    async deleteImportPreset(userId: string, presetId: string): Promise<void> {
+        await this.updateCachedList<ImportPreset>(userId, IMPORT_PRESETS_KEY, list => list.filter(p => p.id !== presetId));
+        await this.queue(userId, 'deleteImportPreset', [presetId]);
+    }
+
+    // Queued one Firestore batch at a time. Progress waits for each batch to reach the
+    // server when online; offline it only tracks the local writes.
+    async saveTransactions(userId: string, transactions: Transaction[], onProgress?: ProgressCallback): Promise<void> {
+        for (let start = 0; start < transactions.length; start += BATCH_LIMIT) {
+            const chunk = transactions.slice(start, start + BATCH_LIMIT);
+            await this.safeLocal(() => withStore(STORES.TRANSACTIONS, 'readwrite', async store => {
+                for (const tx of chunk) {
+                    const record: LocalTransactionRecord = { userId, id: tx.id, data: tx };
+                    await requestToPromise(store.put(record));
+                }
+            }));
+            await this.queue(userId, 'saveTransactions', [chunk]);
+            await this.syncQueue.flush();
+            onProgress?.(start + chunk.length, transactions.length);
+        }
+    }
+
+    async deleteTransactions(userId: string, transactionIds: string[], onProgress?: ProgressCallback): Promise<void> {
+        for (let start = 0; start < transactionIds.length; start += BATCH_LIMIT) {
+            const chunk = transactionIds.slice(start, start + BATCH_LIMIT);
+            await this.safeLocal(() => withStore(STORES.TRANSACTIONS, 'readwrite', async store => {
+                for (const id of chunk) {
+                    await requestToPromise(store.delete([userId, id]));
+                }
+            }));
+            await this.queue(userId, 'deleteTransactions', [chunk]);
+            await this.syncQueue.flush();
+            onProgress?.(start + chunk.length, transactionIds.length);
+        }
+    }
+
+    migrateLegacyData(newUserId: string): void {
+        const legacyBudget = localStorage.getItem('smartspend_budget');
+        const legacyTx = localStorage.getItem('smartspend_transactions');
+
+        if (legacyBudget) {
+            this.saveBudget(newUserId, JSON.parse(legacyBudget));
+        }
+        if (legacyTx) {
+            const transactions = JSON.parse(legacyTx) as Transaction[];
+            transactions.forEach(tx => this.addTransaction(newUserId, tx));
+        }
+    }
+
+    private async queue(userId: string, method: SyncOperation['method'], args: unknown[]) {
+        try {
+            await this.syncQueue.enqueue(userId, method, args);
+        } catch (error) {
+            // No IndexedDB (e.g. private mode): fall back to writing straight through
+            console.error("Error queueing sync operation:", error);
+            const fn = this.remote[method] as (userId: string, ...args: unknown[]) => Promise<void>;
+            await fn.call(this.remote, userId, ...args).catch(() => undefined);
+        }
+    }
+
+    // Small per-user lists (rules, ...) are cached whole in the kv store.
+    // While any of their writes are unsynced the local copy is the newest one.
+    private async loadCachedList<T>(
+        userId: string,
+        key: string,
+        writeMethods: SyncOperation['method'][],
+        loadRemote: () => Promise<T[]>
+    ): Promise<T[]> {
+        const local = await this.safeLocal(() => kvGet<T[]>(userId, key));
+        const pending = await this.pendingOps(userId);
+        if (local && pending.some(op => writeMethods.includes(op.method))) {
+            return local;
+        }
+
+        try {
+            const remote = await loadRemote();
+            await this.safeLocal(() => kvSet(userId, key, remote));
+            return remote;
+        } catch {
+            return local ?? [];
+        }
+    }
+
+    private async updateCachedList<T>(userId: string, key: string, update: (list: T[]) => T[]) {
+        await this.safeLocal(async () => {
+            const list = (await kvGet<T[]>(userId, key)) ?? [];
+            await kvSet(userId, key, update(list));
+        });
+    }
+
+    private async pendingOps(userId: string): Promise<SyncOperation[]> {
+        return (await this.safeLocal(() => this.syncQueue.pending(userId))) ?? [];
+    }
+
+    private putLocalTransaction(userId: string, transaction: Transaction): Promise<void> {
+        return withStore(STORES.TRANSACTIONS, 'readwrite', async store => {
+            const record: LocalTransactionRecord = { userId, id: transaction.id, data: transaction };
+            await requestToPromise(store.put(record));
+        });
+    }
+
+    private replaceLocalTransactions(userId: string, transactions: Transaction[]): Promise<void> {
+        return withStore(STORES.TRANSACTIONS, 'readwrite', async store => {
+            const keys = await requestToPromise(store.index('userId').getAllKeys(userId));
+            for (const key of keys) {
+                await requestToPromise(store.delete(key));
+            }
+            for (const tx of transactions) {
+                const record: LocalTransactionRecord = { userId, id: tx.id, data: tx };
+                await requestToPromise(store.put(record));
+            }
+        });
+    }
+
+    // IndexedDB failures should never break the app; log and carry on without the local copy
+    private async safeLocal<T>(fn: () => Promise<T>): Promise<T | undefined> {
+        try {
+            return await fn();
+        } catch (error) {
+            console.error("Local storage error:", error);
+            return undefined;
+        }
+    }
+}
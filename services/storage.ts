@@ -1,37 +1,77 @@
-import { BudgetState, Transaction } from '../types';
+import { BudgetState, BudgetVersion, HistoryMeta, UserPreferences, Transaction, CategoryRule, RecurringTransaction, CategoryDefinition, Account, ImportPreset } from '../types';
 import { db } from '../utils/firebase';
 import {
     doc,
-    getDoc,
+    getDocFromServer,
     setDoc,
     collection,
-    getDocs,
-    addDoc,
+    getDocsFromServer,
     deleteDoc,
     query,
-    orderBy
+    orderBy,
+    writeBatch
 } from 'firebase/firestore';
+import { createDefaultBudget, createDefaultPreferences } from './defaults';
+import { DEFAULT_CATEGORIES, createDefaultCategoryLimits, withSystemCategories } from '../utils/categories';
+import { OfflineStorageService } from './offlineStorage';
+import { BATCH_LIMIT, ProgressCallback } from './syncQueue';
 
 // Interface for Data Persistence
 export interface IStorageService {
     loadBudget(userId: string): Promise<BudgetState>;
     saveBudget(userId: string, budget: BudgetState): Promise<void>;
+    loadBudgetVersions(userId: string): Promise<BudgetVersion[]>;
+    saveBudgetVersion(userId: string, version: BudgetVersion): Promise<void>;
+    deleteBudgetVersion(userId: string, versionId: string): Promise<void>;
+    loadPreferences(userId: string): Promise<UserPreferences>;
+    savePreferences(userId: string, preferences: UserPreferences): Promise<void>;
+    // Rollover marker: the last week and month TimeService saw; null before the first start
+    loadHistoryMeta(userId: string): Promise<HistoryMeta | null>;
+    saveHistoryMeta(userId: string, meta: HistoryMeta): Promise<void>;
     loadTransactions(userId: string): Promise<Transaction[]>;
     // New atomic methods for cloud optimization
     addTransaction(userId: string, transaction: Transaction): Promise<void>;
     deleteTransaction(userId: string, transactionId: string): Promise<void>;
+    updateTransaction(userId: string, transaction: Transaction): Promise<void>;
 
-    // Legacy support (to be deprecated or mapped to batch in future)
-    saveTransactions(userId: string, transactions: Transaction[]): Promise<void>;
+    // Category registry (the whole list is stored as one document)
+    loadCategories(userId: string): Promise<CategoryDefinition[]>;
+    saveCategories(userId: string, categories: CategoryDefinition[]): Promise<void>;
+
+    // User-trained categorisation rules
+    loadRules(userId: string): Promise<CategoryRule[]>;
+    saveRule(userId: string, rule: CategoryRule): Promise<void>;
+    deleteRule(userId: string, ruleId: string): Promise<void>;
+
+    // Recurring transaction schedules
+    loadRecurring(userId: string): Promise<RecurringTransaction[]>;
+    saveRecurring(userId: string, recurring: RecurringTransaction): Promise<void>;
+    deleteRecurring(userId: string, recurringId: string): Promise<void>;
+
+    // Cash, bank, card and wallet accounts
+    loadAccounts(userId: string): Promise<Account[]>;
+    saveAccount(userId: string, account: Account): Promise<void>;
+    deleteAccount(userId: string, accountId: string): Promise<void>;
+
+    // Saved CSV column mappings for statement imports
+    loadImportPresets(userId: string): Promise<ImportPreset[]>;
+    saveImportPreset(userId: string, preset: ImportPreset): Promise<void>;
+    deleteImportPreset(userId: string, presetId: string): Promise<void>;
+
+    // Bulk writes for statement imports (and undoing them), in batches of BATCH_LIMIT
+    saveTransactions(userId: string, transactions: Transaction[], onProgress?: ProgressCallback): Promise<void>;
+    deleteTransactions(userId: string, transactionIds: string[], onProgress?: ProgressCallback): Promise<void>;
     migrateLegacyData(newUserId: string): void;
 }
 
-class FirebaseStorageService implements IStorageService {
+// Remote store. Reads always go to the server and errors are rethrown, so the
+// offline layer can tell "empty" from "unreachable" and queue failed writes.
+export class FirebaseStorageService implements IStorageService {
 
     async loadBudget(userId: string): Promise<BudgetState> {
         try {
             const docRef = doc(db, 'users', userId, 'settings', 'budget');
-            const docSnap = await getDoc(docRef);
+            const docSnap = await getDocFromServer(docRef);
 
             if (docSnap.exists()) {
                 const data = docSnap.data() as BudgetState;
@@ -43,38 +83,16 @@ class FirebaseStorageService implements IStorageService {
 
                 // Ensure weeklyCategoryLimits exists
                 if (!data.allocations.weeklyCategoryLimits) {
-                    data.allocations.weeklyCategoryLimits = {
-                        Groceries: 0,
-                        Outings: 0,
-                        BodyCare: 0,
-                        Orders: 0,
-                        Miscellaneous: 0,
-                        Petrol: 0
-                    };
+                    data.allocations.weeklyCategoryLimits = createDefaultCategoryLimits();
                 }
                 return data;
             }
         } catch (error) {
             console.error("Error loading budget:", error);
+            throw error;
         }
 
-        return {
-            monthlyIncome: 0,
-            allocations: {
-                weeklyLimit: 0,
-                monthlyLimit: 0,
-                savingsTarget: 0,
-                weeklyCategoryLimits: {
-                    Groceries: 0,
-                    Outings: 0,
-                    BodyCare: 0,
-                    Orders: 0,
-                    Miscellaneous: 0,
-                    Petrol: 0
-                }
-            },
-            isSet: false,
-        };
+        return createDefaultBudget();
     }
 
     async saveBudget(userId: string, budget: BudgetState): Promise<void> {
@@ -83,17 +101,88 @@ class FirebaseStorageService implements IStorageService {
             await setDoc(docRef, budget);
         } catch (error) {
             console.error("Error saving budget:", error);
+            throw error;
+        }
+    }
+
+    async loadBudgetVersions(userId: string): Promise<BudgetVersion[]> {
+        try {
+            const snapshot = await getDocsFromServer(collection(db, 'users', userId, 'budget_versions'));
+            return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as BudgetVersion));
+        } catch (error) {
+            console.error("Error loading budget versions:", error);
+            throw error;
+        }
+    }
+
+    async saveBudgetVersion(userId: string, version: BudgetVersion): Promise<void> {
+        try {
+            await setDoc(doc(db, 'users', userId, 'budget_versions', version.id), version);
+        } catch (error) {
+            console.error("Error saving budget version:", error);
+            throw error;
+        }
+    }
+
+    async deleteBudgetVersion(userId: string, versionId: string): Promise<void> {
+        try {
+            await deleteDoc(doc(db, 'users', userId, 'budget_versions', versionId));
+        } catch (error) {
+            console.error("Error deleting budget version:", error);
+            throw error;
+        }
+    }
+
+    async loadPreferences(userId: string): Promise<UserPreferences> {
+        try {
+            const docSnap = await getDocFromServer(doc(db, 'users', userId, 'settings', 'preferences'));
+            if (docSnap.exists()) {
+                // Fields added later fall back to their defaults
+                return { ...createDefaultPreferences(), ...(docSnap.data() as Partial<UserPreferences>) };
+            }
+        } catch (error) {
+            console.error("Error loading preferences:", error);
+            throw error;
+        }
+        return createDefaultPreferences();
+    }
+
+    async savePreferences(userId: string, preferences: UserPreferences): Promise<void> {
+        try {
+            await setDoc(doc(db, 'users', userId, 'settings', 'preferences'), preferences);
+        } catch (error) {
+            console.error("Error saving preferences:", error);
+            throw error;
+        }
+    }
+
+    async loadHistoryMeta(userId: string): Promise<HistoryMeta | null> {
+        try {
+            const docSnap = await getDocFromServer(doc(db, 'users', userId, 'settings', 'meta'));
+            return docSnap.exists() ? (docSnap.data() as HistoryMeta) : null;
+        } catch (error) {
+            console.error("Error loading history meta:", error);
+            throw error;
+        }
+    }
+
+    async saveHistoryMeta(userId: string, meta: HistoryMeta): Promise<void> {
+        try {
+            await setDoc(doc(db, 'users', userId, 'settings', 'meta'), meta);
+        } catch (error) {
+            console.error("Error saving history meta:", error);
+            throw error;
         }
     }
 
     async loadTransactions(userId: string): Promise<Transaction[]> {
         try {
             const q = query(collection(db, 'users', userId, 'transactions'), orderBy('timestamp', 'desc'));
-            const querySnapshot = await getDocs(q);
+            const querySnapshot = await getDocsFromServer(q);
             return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Transaction));
         } catch (error) {
             console.error("Error loading transactions:", error);
-            return [];
+            throw error;
         }
     }
 
@@ -107,6 +196,7 @@ class FirebaseStorageService implements IStorageService {
             await setDoc(docRef, transaction);
         } catch (error) {
             console.error("Error adding transaction:", error);
+            throw error;
         }
     }
 
@@ -116,15 +206,186 @@ class FirebaseStorageService implements IStorageService {
             await deleteDoc(doc(db, 'users', userId, 'transactions', transactionId));
         } catch (error) {
             console.error("Error deleting transaction:", error);
+            throw error;
+        }
+    }
+
+    // Optimized: Overwrite single transaction in place (keeps id and original timestamp)
+    async updateTransaction(userId: string, transaction: Transaction): Promise<void> {
+        try {
+            const docRef = doc(db, 'users', userId, 'transactions', transaction.id);
+            await setDoc(docRef, transaction);
+        } catch (error) {
+            console.error("Error updating transaction:", error);
+            throw error;
+        }
+    }
+
+    async loadCategories(userId: string): Promise<CategoryDefinition[]> {
+        try {
+            const docSnap = await getDocFromServer(doc(db, 'users', userId, 'settings', 'categories'));
+            if (docSnap.exists()) {
+                return withSystemCategories((docSnap.data() as { items: CategoryDefinition[] }).items);
+            }
+        } catch (error) {
+            console.error("Error loading categories:", error);
+            throw error;
+        }
+
+        return DEFAULT_CATEGORIES;
+    }
+
+    async saveCategories(userId: string, categories: CategoryDefinition[]): Promise<void> {
+        try {
+            await setDoc(doc(db, 'users', userId, 'settings', 'categories'), { items: categories });
+        } catch (error) {
+            console.error("Error saving categories:", error);
+            throw error;
+        }
+    }
+
+    async loadRules(userId: string): Promise<CategoryRule[]> {
+        try {
+            const snapshot = await getDocsFromServer(collection(db, 'users', userId, 'category_rules'));
+            return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as CategoryRule));
+        } catch (error) {
+            console.error("Error loading rules:", error);
+            throw error;
+        }
+    }
+
+    async saveRule(userId: string, rule: CategoryRule): Promise<void> {
+        try {
+            await setDoc(doc(db, 'users', userId, 'category_rules', rule.id), rule);
+        } catch (error) {
+            console.error("Error saving rule:", error);
+            throw error;
+        }
+    }
+
+    async deleteRule(userId: string, ruleId: string): Promise<void> {
+        try {
+            await deleteDoc(doc(db, 'users', userId, 'category_rules', ruleId));
+        } catch (error) {
+            console.error("Error deleting rule:", error);
+            throw error;
+        }
+    }
+
+    async loadRecurring(userId: string): Promise<RecurringTransaction[]> {
+        try {
+            const snapshot = await getDocsFromServer(collection(db, 'users', userId, 'recurring'));
+            return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as RecurringTransaction));
+        } catch (error) {
+            console.error("Error loading recurring transactions:", error);
+            throw error;
+        }
+    }
+
+    async saveRecurring(userId: string, recurring: RecurringTransaction): Promise<void> {
+        try {
+            await setDoc(doc(db, 'users', userId, 'recurring', recurring.id), recurring);
+        } catch (error) {
+            console.error("Error saving recurring transaction:", error);
+            throw error;
+        }
+    }
+
+    async deleteRecurring(userId: string, recurringId: string): Promise<void> {
+        try {
+            await deleteDoc(doc(db, 'users', userId, 'recurring', recurringId));
+        } catch (error) {
+            console.error("Error deleting recurring transaction:", error);
+            throw error;
         }
     }
 
-    async saveTransactions(userId: string, transactions: Transaction[]): Promise<void> {
-        // Deprecated for full array save in Cloud
-        // For migration or safety, we could implement batch write here, 
-        // but strictly we should use add/delete.
-        // We will leave this empty or log warning, assuming App.tsx is updated to use atomic methods.
-        console.warn("saveTransactions (bulk) is deprecated for Firebase. Use addTransaction/deleteTransaction.");
+    async loadAccounts(userId: string): Promise<Account[]> {
+        try {
+            const snapshot = await getDocsFromServer(collection(db, 'users', userId, 'accounts'));
+            return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as Account));
+        } catch (error) {
+            console.error("Error loading accounts:", error);
+            throw error;
+        }
+    }
+
+    async saveAccount(userId: string, account: Account): Promise<void> {
+        try {
+            await setDoc(doc(db, 'users', userId, 'accounts', account.id), account);
+        } catch (error) {
+            console.error("Error saving account:", error);
+            throw error;
+        }
+    }
+
+    async deleteAccount(userId: string, accountId: string): Promise<void> {
+        try {
+            await deleteDoc(doc(db, 'users', userId, 'accounts', accountId));
+        } catch (error) {
+            console.error("Error deleting account:", error);
+            throw error;
+        }
+    }
+
+    async loadImportPresets(userId: string): Promise<ImportPreset[]> {
+        try {
+            const snapshot = await getDocsFromServer(collection(db, 'users', userId, 'import_presets'));
+            return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as ImportPreset));
+        } catch (error) {
+            console.error("Error loading import presets:", error);
+            throw error;
+        }
+    }
+
+    async saveImportPreset(userId: string, preset: ImportPreset): Promise<void> {
+        try {
+            await setDoc(doc(db, 'users', userId, 'import_presets', preset.id), preset);
+        } catch (error) {
+            console.error("Error saving import preset:", error);
+            throw error;
+        }
+    }
+
+    async deleteImportPreset(userId: string, presetId: string): Promise<void> {
+        try {
+            await deleteDoc(doc(db, 'users', userId, 'import_presets', presetId));
+        } catch (error) {
+            console.error("Error deleting import preset:", error);
+            throw error;
+        }
+    }
+
+    // Each batch commits on its own, so a failure part-way leaves the earlier batches saved.
+    // Documents are keyed by transaction id, so replaying the whole list is safe.
+    async saveTransactions(userId: string, transactions: Transaction[], onProgress?: ProgressCallback): Promise<void> {
+        try {
+            for (let start = 0; start < transactions.length; start += BATCH_LIMIT) {
+                const chunk = transactions.slice(start, start + BATCH_LIMIT);
+                const batch = writeBatch(db);
+                chunk.forEach(tx => batch.set(doc(db, 'users', userId, 'transactions', tx.id), tx));
+                await batch.commit();
+                onProgress?.(start + chunk.length, transactions.length);
+            }
+        } catch (error) {
+            console.error("Error saving transactions:", error);
+            throw error;
+        }
+    }
+
+    async deleteTransactions(userId: string, transactionIds: string[], onProgress?: ProgressCallback): Promise<void> {
+        try {
+            for (let start = 0; start < transactionIds.length; start += BATCH_LIMIT) {
+                const chunk = transactionIds.slice(start, start + BATCH_LIMIT);
+                const batch = writeBatch(db);
+                chunk.forEach(id => batch.delete(doc(db, 'users', userId, 'transactions', id)));
+                await batch.commit();
+                onProgress?.(start + chunk.length, transactionIds.length);
+            }
+        } catch (error) {
+            console.error("Error deleting transactions:", error);
+            throw error;
+        }
     }
 
     migrateLegacyData(newUserId: string): void {
@@ -145,4 +406,7 @@ class FirebaseStorageService implements IStorageService {
     }
 }
 
-export const storageService = new FirebaseStorageService();
+export const firebaseStorageService = new FirebaseStorageService();
+
+// App-facing store: IndexedDB first, replicated to Firestore through the sync queue
+export const storageService = new OfflineStorageService(firebaseStorageService);
@@ -0,0 +1,171 @@
+import type { IStorageService } from './storage';
+import { STORES, withStore, requestToPromise, getAllByUser } from './localDb';
+
+// Write operations that can be replayed against the remote store once we are back online.
+export type SyncMethod =
+    | 'addTransaction' | 'updateTransaction' | 'deleteTransaction'
+    | 'saveTransactions' | 'deleteTransactions'
+    | 'saveBudget' | 'saveCategories'
+    | 'saveBudgetVersion' | 'deleteBudgetVersion'
+    | 'savePreferences' | 'saveHistoryMeta'
+    | 'saveRule' | 'deleteRule'
+    | 'saveRecurring' | 'deleteRecurring'
+    | 'saveAccount' | 'deleteAccount'
+    | 'saveImportPreset' | 'deleteImportPreset';
+
+// Firestore accepts at most this many writes in one batch, so bulk writes are queued in chunks this size
+export const BATCH_LIMIT = 500;
+
+// Called after each chunk of a bulk write with how many items are done so far
+export type ProgressCallback = (done: number, total: number) => void;
+
+export interface SyncOperation {
+    seq?: number; // assigned by IndexedDB
+    userId: string;
+    method: SyncMethod;
+    args: unknown[]; // arguments after userId, exactly as passed to IStorageService
+    queuedAt: number;
+    attempts: number;
+}
+
+export interface SyncStatus {
+    pending: number;
+    online: boolean;
+    syncing: boolean;
+    lastError: string | null;
+}
+
+type SyncListener = (status: SyncStatus) => void;
+
+// Operations that fully replace their target, so only the newest queued one needs to be sent.
+const COALESCED_METHODS: SyncMethod[] = ['saveBudget', 'saveCategories', 'savePreferences', 'saveHistoryMeta'];
+
+export class SyncQueue {
+    private listeners = new Set<SyncListener>();
+    private flushing: Promise<void> | null = null;
+    private activeUserId: string | null = null;
+    private status: SyncStatus = {
+        pending: 0,
+        online: typeof navigator === 'undefined' ? true : navigator.onLine,
+        syncing: false,
+        lastError: null,
+    };
+
+    constructor(private remote: IStorageService) {
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => {
+                this.setStatus({ online: true });
+                this.flush();
+            });
+            window.addEventListener('offline', () => this.setStatus({ online: false }));
+        }
+    }
+
+    // Only the signed-in user's operations can be replayed (Firestore rules reject the rest)
+    setActiveUser(userId: string | null) {
+        this.activeUserId = userId;
+        this.refreshCount();
+        if (userId) this.flush();
+    }
+
+    async enqueue(userId: string, method: SyncMethod, args: unknown[]): Promise<void> {
+        await withStore(STORES.QUEUE, 'readwrite', async store => {
+            if (COALESCED_METHODS.includes(method)) {
+                const existing = await requestToPromise(store.index('userId').getAll(userId) as IDBRequest<SyncOperation[]>);
+                for (const op of existing) {
+                    if (op.method === method && op.seq !== undefined) {
+                        await requestToPromise(store.delete(op.seq));
+                    }
+                }
+            }
+            const op: SyncOperation = { userId, method, args, queuedAt: Date.now(), attempts: 0 };
+            await requestToPromise(store.add(op));
+        });
+        await this.refreshCount();
+        this.flush();
+    }
+
+    isOnline(): boolean {
+        return this.status.online;
+    }
+
+    // Pending operations for a user, oldest first
+    async pending(userId: string): Promise<SyncOperation[]> {
+        const ops = await getAllByUser<SyncOperation>(STORES.QUEUE, userId);
+        return ops.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+    }
+
+    // Replays queued operations in order. Stops at the first failure so ordering is preserved.
+    flush(): Promise<void> {
+        if (this.flushing) return this.flushing;
+        const userId = this.activeUserId;
+        if (!this.status.online || !userId) return Promise.resolve();
+
+        this.flushing = (async () => {
+            this.setStatus({ syncing: true });
+            try {
+                while (true) {
+                    const next = await withStore(STORES.QUEUE, 'readonly', store =>
+                        requestToPromise(store.index('userId').openCursor(userId)).then(cursor => cursor?.value as SyncOperation | undefined)
+                    );
+                    if (!next || next.seq === undefined) break;
+
+                    try {
+                        await this.replay(next);
+                    } catch (error) {
+                        console.error("Sync replay failed:", error);
+                        await withStore(STORES.QUEUE, 'readwrite', async store => {
+                            await requestToPromise(store.put({ ...next, attempts: next.attempts + 1 }));
+                        });
+                        this.setStatus({ lastError: error instanceof Error ? error.message : String(error) });
+                        break;
+                    }
+
+                    await withStore(STORES.QUEUE, 'readwrite', async store => {
+                        await requestToPromise(store.delete(next.seq!));
+                    });
+                    this.setStatus({ lastError: null });
+                    await this.refreshCount();
+                }
+            } finally {
+                this.flushing = null;
+                this.setStatus({ syncing: false });
+                await this.refreshCount();
+            }
+        })();
+
+        return this.flushing;
+    }
+
+    subscribe(listener: SyncListener): () => void {
+        this.listeners.add(listener);
+        listener(this.status);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private replay(op: SyncOperation): Promise<void> {
+        const method = this.remote[op.method] as (userId: string, ...args: unknown[]) => Promise<void>;
+        return method.call(this.remote, op.userId, ...op.args);
+    }
+
+    private async refreshCount() {
+        if (!this.activeUserId) {
+            this.setStatus({ pending: 0 });
+            return;
+        }
+        try {
+            const userId = this.activeUserId;
+            const count = await withStore(STORES.QUEUE, 'readonly', store => requestToPromise(store.index('userId').count(userId)));
+            this.setStatus({ pending: count });
+        } catch (error) {
+            console.error("Error reading sync queue:", error);
+        }
+    }
+
+    private setStatus(patch: Partial<SyncStatus>) {
+        this.status = { ...this.status, ...patch };
+        this.listeners.forEach(listener => listener(this.status));
+    }
+}
@@ -1,172 +1,376 @@
 import { db } from '../utils/firebase';
-import { doc, getDoc, setDoc, updateDoc, collection, addDoc, getDocs, query, where } from 'firebase/firestore';
-import { Transaction, MonthlyStats, WeeklyStats, HistoryMeta, TransactionCategory } from '../types';
-import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, getISOWeek, getYear } from 'date-fns';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { Transaction, MonthlyStats, WeeklyStats, TransactionCategory, BudgetAllocations, CategoryDefinition } from '../types';
+import { isSaving, summarizeCashFlow, spendingAmount } from '../utils/cashflow';
+import { DEFAULT_CATEGORIES } from '../utils/categories';
+import { allocationsForPeriod } from '../utils/budgetHistory';
+import {
+    DEFAULT_PERIOD_SETTINGS,
+    PeriodSettings,
+    periodIdFor,
+    periodIdOfDay,
+    periodLabel,
+    periodRange,
+    transactionDay,
+    weekIdFor,
+    weekIdOfDay,
+    weekRangeOfId,
+} from '../utils/periods';
+import { materialiseDue } from '../utils/recurring';
+import { storageService } from './storage';
+import { format, addDays, addMonths, addWeeks } from 'date-fns';
 
 const HISTORY_COLLECTION = 'history_months';
-const SETTINGS_DOC = 'settings/meta';
+
+// Upper bound on periods archived in one rollover (five years of weeks), in case a stored ID is far off
+const MAX_ROLLOVER_PERIODS = 260;
 
 class TimeService {
+    // How the user counts weeks and months; set from their preferences in init and when they change them
+    private settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS;
+    // The user's category registry, reloaded before archiving so savings follow renames and buckets
+    private categories: CategoryDefinition[] = DEFAULT_CATEGORIES;
+
+    setPeriodSettings(settings: PeriodSettings) {
+        this.settings = settings;
+    }
 
-    // Generates IDs like "2025-W12"
+    // Generates IDs like "2025-W09" from the week-numbering year, so with Monday weeks
+    // 30 Dec 2024 is "2025-W01", and IDs sort in date order
     getCurrentWeekId(date = new Date()): string {
-        return `${getYear(date)}-W${getISOWeek(date)}`;
+        return weekIdFor(date, this.settings);
     }
 
-    // Generates IDs like "2025-03"
+    // Generates IDs like "2025-03" for the budgeting month (the pay cycle, when one is set)
     getCurrentMonthId(date = new Date()): string {
-        return format(date, 'yyyy-MM');
+        return periodIdFor(date, this.settings);
+    }
+
+    getWeekRange(weekId: string): { start: Date, end: Date } | null {
+        return weekRangeOfId(weekId, this.settings.weekStartsOn);
+    }
+
+    getMonthRange(monthId: string): { start: Date, end: Date } | null {
+        return periodRange(monthId, this.settings.payCycle);
+    }
+
+    // A week belongs to the (budgeting) month its fourth day falls in, i.e. the month holding
+    // most of its days; the same rule that gives a week to a year. A week that starts in one
+    // month and ends in the next still belongs to exactly one of them.
+    getWeekMonthId(weekId: string): string | null {
+        const range = this.getWeekRange(weekId);
+        return range ? periodIdOfDay(addDays(range.start, 3), this.settings.payCycle) : null;
+    }
+
+    // True when the week's first and last days fall in different months
+    isSplitWeek(weekId: string): boolean {
+        const range = this.getWeekRange(weekId);
+        return !!range && periodIdOfDay(range.start, this.settings.payCycle) !== periodIdOfDay(range.end, this.settings.payCycle);
+    }
+
+    // The weeks that belong to a month, oldest first
+    weekIdsForMonth(monthId: string): string[] {
+        const range = this.getMonthRange(monthId);
+        if (!range) return [];
+        const ids: string[] = [];
+        for (let day = range.start; day <= range.end; day = addWeeks(day, 1)) {
+            const weekId = weekIdOfDay(day, this.settings.weekStartsOn);
+            if (this.getWeekMonthId(weekId) === monthId) ids.push(weekId);
+        }
+        // The week holding the month's last days may start after the last step
+        const lastWeekId = weekIdOfDay(range.end, this.settings.weekStartsOn);
+        if (!ids.includes(lastWeekId) && this.getWeekMonthId(lastWeekId) === monthId) ids.push(lastWeekId);
+        return ids;
+    }
+
+    // Every week from `lastWeekId` up to (not including) the week of `now`, oldest first
+    elapsedWeekIds(lastWeekId: string, now: Date = new Date()): string[] {
+        const range = this.getWeekRange(lastWeekId);
+        const current = this.getWeekRange(this.getCurrentWeekId(now));
+        if (!range || !current) return [];
+        const ids: string[] = [];
+        for (let week = range.start; week < current.start && ids.length < MAX_ROLLOVER_PERIODS; week = addWeeks(week, 1)) {
+            ids.push(weekIdOfDay(week, this.settings.weekStartsOn));
+        }
+        return ids;
+    }
+
+    // Every month from `lastMonthId` up to (not including) the month of `now`, oldest first
+    elapsedMonthIds(lastMonthId: string, now: Date = new Date()): string[] {
+        const match = lastMonthId.match(/^(\d{4})-(\d{1,2})$/);
+        if (!match) return [];
+        const current = this.getCurrentMonthId(now);
+        const ids: string[] = [];
+        // Month IDs follow each other like calendar months, whatever the cycle
+        for (let month = new Date(Number(match[1]), Number(match[2]) - 1, 1); format(month, 'yyyy-MM') < current && ids.length < MAX_ROLLOVER_PERIODS; month = addMonths(month, 1)) {
+            ids.push(format(month, 'yyyy-MM'));
+        }
+        return ids;
     }
 
     async init(userId: string) {
         if (!userId) return;
 
         console.log("TimeService: Initializing...");
-        const metaRef = doc(db, 'users', userId, 'settings', 'meta');
-        const metaSnap = await getDoc(metaRef);
+        // Archives are written straight to Firestore, so a failed rollover (e.g. offline) must
+        // not keep the app from loading. The meta is only advanced once periods are archived,
+        // so the next start picks up where this one stopped.
+        try {
+            this.settings = await storageService.loadPreferences(userId);
+            const now = new Date();
 
-        const now = new Date();
+            // Before archiving, so backfilled occurrences count towards the periods they fell in
+            const occurrences = await this.materialiseRecurring(userId, now);
+            await this.rollover(userId, now, occurrences);
+        } catch (error) {
+            console.error("TimeService: Rollover failed, will retry on next start:", error);
+        }
+    }
+
+    // `added` holds transactions written during this start; they are merged in by id in case
+    // the local store could not keep them and the server has not received them yet
+    private async rollover(userId: string, now: Date, added: Transaction[] = []) {
         const currentWeekId = this.getCurrentWeekId(now);
         const currentMonthId = this.getCurrentMonthId(now);
 
-        if (!metaSnap.exists()) {
+        const meta = await storageService.loadHistoryMeta(userId);
+        if (!meta) {
             // First run, initialize meta
-            await setDoc(metaRef, {
-                lastActiveWeek: currentWeekId,
-                lastActiveMonth: currentMonthId
-            });
+            await storageService.saveHistoryMeta(userId, { lastActiveWeek: currentWeekId, lastActiveMonth: currentMonthId });
             return;
         }
 
-        const meta = metaSnap.data() as HistoryMeta;
+        const weekIds = meta.lastActiveWeek !== currentWeekId ? this.elapsedWeekIds(meta.lastActiveWeek, now) : [];
+        const monthIds = meta.lastActiveMonth !== currentMonthId ? this.elapsedMonthIds(meta.lastActiveMonth, now) : [];
+        if (weekIds.length === 0 && monthIds.length === 0) {
+            // Also rewrites a legacy unpadded week ID
+            if (meta.lastActiveWeek !== currentWeekId || meta.lastActiveMonth !== currentMonthId) {
+                await storageService.saveHistoryMeta(userId, { lastActiveWeek: currentWeekId, lastActiveMonth: currentMonthId });
+            }
+            return;
+        }
+
+        // Firestore keeps unacknowledged writes in memory only, so archiving offline would
+        // wait for the network; leave it to a start with a connection
+        if (!storageService.syncQueue.isOnline()) {
+            console.log("TimeService: Offline, rollover postponed");
+            return;
+        }
 
-        // Check for Week Change
-        if (meta.lastActiveWeek !== currentWeekId) {
-            console.log("TimeService: Week changed!", meta.lastActiveWeek, "->", currentWeekId);
-            await this.archiveWeek(userId, meta.lastActiveWeek);
-            await updateDoc(metaRef, { lastActiveWeek: currentWeekId });
+        // Every period that ended since the app was last open is archived, not just the last one.
+        // Archive documents are keyed by period ID and overwritten, so an interrupted rollover
+        // is simply redone on the next start.
+        this.categories = await storageService.loadCategories(userId);
+        const loaded = await storageService.loadTransactions(userId);
+        const loadedIds = new Set(loaded.map(tx => tx.id));
+        const allTx = [...loaded, ...added.filter(tx => !loadedIds.has(tx.id))];
+        // Each archive keeps a copy of the budget that applied to it
+        const budgetFor = await this.budgetForPeriods(userId);
+        for (const weekId of weekIds) {
+            await this.archiveWeek(userId, weekId, allTx, budgetFor(this.getWeekRange(weekId)?.end));
+        }
+        if (weekIds.length > 0) {
+            console.log(`TimeService: Archived ${weekIds.length} week(s), ${weekIds[0]} to ${weekIds[weekIds.length - 1]}`);
+        }
+
+        for (const monthId of monthIds) {
+            await this.archiveMonth(userId, monthId, allTx, budgetFor(this.getMonthRange(monthId)?.end));
+        }
+        if (monthIds.length > 0) {
+            console.log(`TimeService: Archived ${monthIds.length} month(s), ${monthIds[0]} to ${monthIds[monthIds.length - 1]}`);
         }
+        await storageService.saveHistoryMeta(userId, { lastActiveWeek: currentWeekId, lastActiveMonth: currentMonthId });
+    }
 
-        // Check for Month Change
-        if (meta.lastActiveMonth !== currentMonthId) {
-            console.log("TimeService: Month changed!", meta.lastActiveMonth, "->", currentMonthId);
-            await this.archiveMonth(userId, meta.lastActiveMonth);
-            await updateDoc(metaRef, { lastActiveMonth: currentMonthId });
+    // Turns due recurring schedules into transactions, including occurrences missed while
+    // the app was closed. Occurrence ids are deterministic, so running this twice is harmless.
+    // Returns the occurrences added.
+    private async materialiseRecurring(userId: string, now: Date): Promise<Transaction[]> {
+        const added: Transaction[] = [];
+        try {
+            const schedules = await storageService.loadRecurring(userId);
+            for (const def of schedules) {
+                const due = materialiseDue(def, now);
+                if (!due) continue;
+                for (const tx of due.transactions) {
+                    await storageService.addTransaction(userId, tx);
+                    added.push(tx);
+                }
+                await storageService.saveRecurring(userId, due.updated);
+                console.log(`TimeService: Added ${due.transactions.length} occurrence(s) of "${def.description}"`);
+            }
+        } catch (error) {
+            console.error("Error materialising recurring transactions:", error);
         }
+        return added;
     }
 
-    private async archiveWeek(userId: string, weekId: string) {
-        // 1. Fetch transactions for that week
-        // Note: For simplicity, we are fetching ALL transactions and filtering. 
-        // In production with huge data, we should query by date range.
-        const txRef = collection(db, 'users', userId, 'transactions');
-        const snap = await getDocs(txRef);
-        const allTx = snap.docs.map(d => d.data() as Transaction);
+    // Re-archives closed weeks/months touched by edited transactions, by the day each counts on.
+    // Pass both the old and new version so a moved transaction updates both periods.
+    async recomputeArchivedPeriods(userId: string, touched: Transaction[]) {
+        if (!userId) return;
 
-        // Filter for this weekId (Need to reverse engineer date range or store weekId on tx)
-        // Simplified: We assume 'archive' happens right after the week ends, so we look at 'last week' relative to now?
-        // Actually, safer to filter by date.
-        // weekId format: YYYY-WWW
-        // This is tricky without exact dates stored. 
-        // Strategy: We will calculate "Last Week" range dynamically.
+        const now = new Date();
+        const currentWeekId = this.getCurrentWeekId(now);
+        const currentMonthId = this.getCurrentMonthId(now);
 
-        // BETTER STRATEGY: 
-        // Just snapshot the *Current State* of weekly counters if we were storing them? 
-        // No, user wants data derived from transactions.
-        // So we calculate stats from transactions that fall into that week.
+        const weekIds = new Set<string>();
+        const monthIds = new Set<string>();
+        touched.forEach(tx => {
+            const day = transactionDay(tx, this.settings.timeZone);
+            const weekId = weekIdOfDay(day, this.settings.weekStartsOn);
+            const monthId = periodIdOfDay(day, this.settings.payCycle);
+            if (weekId !== currentWeekId) weekIds.add(weekId);
+            if (monthId !== currentMonthId) monthIds.add(monthId);
+        });
 
-        // Parsing weekId back to date is hard. usage of 'date-fns' parseISO or similar needed?
-        // Let's rely on transactions having 'date' field.
+        if (weekIds.size === 0 && monthIds.size === 0) return;
+        if (!storageService.syncQueue.isOnline()) {
+            console.log("TimeService: Offline, archived periods not recomputed");
+            return;
+        }
 
-        const weekStats = this.calculateStatsForWeekId(allTx, weekId);
+        this.categories = await storageService.loadCategories(userId);
+        const allTx = await storageService.loadTransactions(userId);
+        const budgetFor = await this.budgetForPeriods(userId);
 
-        // 2. Store in the Month Document
-        // We find which month this week belongs to (mostly).
-        const weekMonthId = weekId.substring(0, 4) + "-" + "01"; // Placeholder, actually need strict month
-        // Actually, a week might span 2 months. 
-        // Rule: A week belongs to the month its Start Date is in.
+        // Only rewrite periods that were actually archived; open periods are computed live.
+        // The budget snapshotted when a period was first archived is kept.
+        for (const weekId of weekIds) {
+            const snap = await getDoc(doc(db, 'users', userId, 'history_weeks', weekId));
+            if (!snap.exists()) continue;
+            const allocations = (snap.data() as WeeklyStats).allocations ?? budgetFor(this.getWeekRange(weekId)?.end);
+            await this.archiveWeek(userId, weekId, allTx, allocations);
+        }
+        for (const monthId of monthIds) {
+            const snap = await getDoc(doc(db, 'users', userId, HISTORY_COLLECTION, monthId));
+            if (!snap.exists()) continue;
+            const allocations = (snap.data() as MonthlyStats).allocations ?? budgetFor(this.getMonthRange(monthId)?.end);
+            await this.archiveMonth(userId, monthId, allTx, allocations);
+        }
+    }
 
-        // For MVP, let's just add it to the 'Current Month' of that time?
-        // Let's store it in a dedicated 'history_weeks' subcollection for easier querying?
-        // OR inside the month doc as requested.
+    // Looks up the budget that applied to a period ending on a given day. Until the user has
+    // budget versions (budgets set before versioning), the current budget is all there is.
+    private async budgetForPeriods(userId: string): Promise<(periodEnd?: Date) => BudgetAllocations | undefined> {
+        try {
+            const versions = await storageService.loadBudgetVersions(userId);
+            if (versions.length > 0) {
+                return periodEnd => periodEnd ? allocationsForPeriod(versions, periodEnd) ?? undefined : undefined;
+            }
+            const budget = await storageService.loadBudget(userId);
+            return () => budget.isSet ? budget.allocations : undefined;
+        } catch (error) {
+            console.error("Error loading budget for archive:", error);
+            return () => undefined;
+        }
+    }
 
-        // Let's write to users/{uid}/history_weeks/{weekId} for safety first.
+    private async archiveWeek(userId: string, weekId: string, transactions?: Transaction[], allocations?: BudgetAllocations) {
+        const allTx = transactions ?? await storageService.loadTransactions(userId);
+        const weekStats = this.calculateStatsForWeekId(allTx, weekId, 'completed', allocations);
         await setDoc(doc(db, 'users', userId, 'history_weeks', weekId), weekStats);
-    }
 
-    private async archiveMonth(userId: string, monthId: string) {
-        // Similar logic: Calculate stats for that month
-        const txRef = collection(db, 'users', userId, 'transactions');
-        const snap = await getDocs(txRef);
-        const allTx = snap.docs.map(d => d.data() as Transaction);
+        // A month can be archived before its last week ends (a week whose Thursday is the 28th
+        // runs into the next month), so refresh the month's copy once the week is final
+        if (weekStats.monthId) {
+            const monthSnap = await getDoc(doc(db, 'users', userId, HISTORY_COLLECTION, weekStats.monthId));
+            if (monthSnap.exists()) {
+                await this.archiveMonth(userId, weekStats.monthId, allTx, (monthSnap.data() as MonthlyStats).allocations);
+            }
+        }
+    }
 
-        const monthStats = this.calculateStatsForMonthId(allTx, monthId);
+    private async archiveMonth(userId: string, monthId: string, transactions?: Transaction[], allocations?: BudgetAllocations) {
+        const allTx = transactions ?? await storageService.loadTransactions(userId);
+        const weeks = await this.weeksOfMonth(userId, monthId, allTx);
+        const monthStats = this.calculateStatsForMonthId(allTx, monthId, weeks, allocations);
 
         // Save to users/{uid}/history_months/{monthId}
-        await setDoc(doc(db, 'users', userId, 'history_months', monthId), {
+        await setDoc(doc(db, 'users', userId, HISTORY_COLLECTION, monthId), {
             ...monthStats,
             isFinalized: true
         });
     }
 
+    // The month's weeks as archived in history_weeks. Weeks with no archive (before history
+    // began, or still running) are computed from the transactions and carry no budget.
+    private async weeksOfMonth(userId: string, monthId: string, transactions: Transaction[]): Promise<WeeklyStats[]> {
+        const currentWeekId = this.getCurrentWeekId();
+        const weeks: WeeklyStats[] = [];
+        for (const weekId of this.weekIdsForMonth(monthId)) {
+            const snap = await getDoc(doc(db, 'users', userId, 'history_weeks', weekId));
+            if (snap.exists()) {
+                // Weeks archived before months were linked lack the month fields
+                weeks.push({ ...(snap.data() as WeeklyStats), monthId, splitWeek: this.isSplitWeek(weekId) });
+                continue;
+            }
+            const status = weekId >= currentWeekId ? 'active' : 'completed';
+            weeks.push(this.calculateStatsForWeekId(transactions, weekId, status));
+        }
+        return weeks;
+    }
+
     // Helper: Calculate Stats
-    private calculateStatsForWeekId(transactions: Transaction[], weekId: string): WeeklyStats {
-        // This requires determining if a tx.date belongs to weekId.
-        // We can use getISOWeek(tx.date) and getYear(tx.date)
-        const relevantTx = transactions.filter(tx => {
-            const d = new Date(tx.date);
-            return `${getYear(d)}-W${getISOWeek(d)}` === weekId;
-        });
+    private calculateStatsForWeekId(transactions: Transaction[], weekId: string, status: WeeklyStats['status'], allocations?: BudgetAllocations): WeeklyStats {
+        const range = this.getWeekRange(weekId);
+        const monthId = this.getWeekMonthId(weekId);
+        const relevantTx = transactions.filter(tx =>
+            weekIdOfDay(transactionDay(tx, this.settings.timeZone), this.settings.weekStartsOn) === weekId);
 
+        const flow = summarizeCashFlow(relevantTx, this.categories);
         const stats: WeeklyStats = {
             weekId,
-            startDate: '', // We could calculate this 
-            endDate: '',
-            totalSpent: 0,
-            totalSaved: 0, // Logic for savings needed?
-            categoryBreakdown: {},
-            status: 'completed'
+            startDate: range ? format(range.start, 'yyyy-MM-dd') : '',
+            endDate: range ? format(range.end, 'yyyy-MM-dd') : '',
+            totalSpent: flow.netSpent,
+            totalSaved: flow.saved,
+            totalIncome: flow.income,
+            balance: flow.balance,
+            categoryBreakdown: this.categoryBreakdown(relevantTx),
+            status,
+            ...(monthId ? { monthId } : {}),
+            splitWeek: this.isSplitWeek(weekId),
+            ...(allocations ? { allocations } : {})
         };
 
-        relevantTx.forEach(tx => {
-            if (tx.category === 'Savings') {
-                stats.totalSaved += tx.amount;
-            } else {
-                stats.totalSpent += tx.amount;
-                stats.categoryBreakdown[tx.category] = (stats.categoryBreakdown[tx.category] || 0) + tx.amount;
-            }
-        });
-
         return stats;
     }
 
-    private calculateStatsForMonthId(transactions: Transaction[], monthId: string): MonthlyStats {
-        const relevantTx = transactions.filter(tx => {
-            const d = new Date(tx.date);
-            return format(d, 'yyyy-MM') === monthId;
-        });
+    private calculateStatsForMonthId(transactions: Transaction[], monthId: string, weeks: WeeklyStats[], allocations?: BudgetAllocations): MonthlyStats {
+        const range = this.getMonthRange(monthId);
+        const relevantTx = transactions.filter(tx =>
+            periodIdOfDay(transactionDay(tx, this.settings.timeZone), this.settings.payCycle) === monthId);
 
+        const flow = summarizeCashFlow(relevantTx, this.categories);
         const stats: MonthlyStats = {
             monthId,
-            monthName: format(new Date(monthId + "-01"), 'MMMM yyyy'),
-            totalSpent: 0,
-            totalSaved: 0,
-            categoryBreakdown: {},
-            weeks: [], // populated differently if we link weeks
+            monthName: periodLabel(monthId),
+            // Kept so history shows the dates even if the pay cycle changes later
+            ...(range ? { startDate: format(range.start, 'yyyy-MM-dd'), endDate: format(range.end, 'yyyy-MM-dd') } : {}),
+            totalSpent: flow.netSpent,
+            totalSaved: flow.saved,
+            totalIncome: flow.income,
+            balance: flow.balance,
+            categoryBreakdown: this.categoryBreakdown(relevantTx),
+            ...(allocations ? { allocations } : {}),
+            weeks,
             isFinalized: true
         };
 
-        relevantTx.forEach(tx => {
-            if (tx.category === 'Savings') {
-                stats.totalSaved += tx.amount;
-            } else {
-                stats.totalSpent += tx.amount;
-                stats.categoryBreakdown[tx.category] = (stats.categoryBreakdown[tx.category] || 0) + tx.amount;
-            }
-        });
-
         return stats;
     }
+
+    // Net spending per category (refunds subtract); income, transfers and money saved are left out
+    private categoryBreakdown(transactions: Transaction[]): Partial<Record<TransactionCategory, number>> {
+        const breakdown: Partial<Record<TransactionCategory, number>> = {};
+        transactions.forEach(tx => {
+            const amount = spendingAmount(tx);
+            if (amount === 0 || isSaving(tx, this.categories)) return;
+            breakdown[tx.category] = (breakdown[tx.category] || 0) + amount;
+        });
+        return breakdown;
+    }
 }
 
 export const timeService = new TimeService();
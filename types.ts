@@ -1,12 +1,85 @@
-export type TransactionCategory = 'Groceries' | 'Outings' | 'BodyCare' | 'Orders' | 'Miscellaneous' | 'Petrol' | 'Bills' | 'Savings' | 'Other';
+// Name of a user-defined category (see CategoryDefinition). Transactions, rules, schedules
+// and limits store the name, so renaming a category remaps them (utils/categories.ts).
+export type TransactionCategory = string;
+
+// Money out (expense), money in (income), money back for an earlier expense (refund),
+// or money moved between the user's own accounts (transfer, which is neither spent nor earned)
+export type TransactionDirection = 'expense' | 'income' | 'refund' | 'transfer';
+
+export const TRANSACTION_DIRECTIONS: TransactionDirection[] = ['expense', 'income', 'refund', 'transfer'];
 
 export interface Transaction {
   id: string;
-  amount: number;
+  amount: number; // always positive; `direction` gives the sign
+  direction?: TransactionDirection; // absent on entries recorded before income tracking: expense
   category: TransactionCategory;
+  subcategory?: string; // finer label within the category, e.g. "Food Delivery"
+  tags?: string[]; // lowercase labels across categories, e.g. "goa-trip"
   description: string;
   date: string; // ISO string
+  localDate?: string; // yyyy-MM-dd: the day it counts on in the user's time zone; older entries only have `date`
   timestamp: number;
+  updatedAt?: number; // set on edit; used to resolve sync conflicts
+  source?: ParseSource; // which parser produced the entry, for auditing misclassifications
+  provenance?: ParseProvenance; // per-field sources as captured when the entry was added
+  recurringId?: string; // set on occurrences materialised from a RecurringTransaction
+  paymentMethod?: PaymentMethod; // how it was paid, e.g. from "via gpay"
+  accountId?: string; // account the money left (or, for income and refunds, arrived in)
+  toAccountId?: string; // for transfers between the user's accounts: where the money went
+  split?: TransactionSplit; // shared with friends; only the user's share counts as spending
+  settlement?: Settlement; // a repayment between the user and a friend (direction 'transfer')
+  reference?: string; // bank/UPI reference number from an imported SMS, used to skip repeats
+  importId?: string; // set on entries added by a statement import, so the whole import can be undone
+}
+
+// --- Accounts ---
+
+export type AccountType = 'cash' | 'bank' | 'credit_card' | 'wallet';
+
+export const ACCOUNT_TYPES: AccountType[] = ['cash', 'bank', 'credit_card', 'wallet'];
+
+export type PaymentMethod = 'cash' | 'upi' | 'card' | 'netbanking' | 'wallet';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'upi', 'card', 'netbanking', 'wallet'];
+
+// Where money is kept or spent from. Balances are worked out from the opening balance
+// and the transactions that name the account (utils/accounts.ts).
+export interface Account {
+  id: string;
+  name: string; // e.g. "HDFC Card"
+  type: AccountType;
+  openingBalance: number; // money in the account when added; for a credit card, the amount owed
+  creditLimit?: number; // credit cards only
+  dueDay?: number; // credit cards: day of the month the bill is due
+  keywords: string[]; // lowercase words the parser maps to this account, e.g. "hdfc card"
+  lastDigits?: string; // account or card number ending, matched against bank SMS ("A/c XX1234")
+  archived?: boolean;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// --- Splits with friends ---
+
+export type SplitMethod = 'equal' | 'exact' | 'percentage';
+
+export interface SplitShare {
+  name: string; // friend's name as typed; matched case-insensitively in the ledger
+  amount: number;
+  percent?: number; // as entered, for percentage splits
+}
+
+// How a shared expense was divided. `amount` on the transaction stays the full bill;
+// myShare + the friends' shares add up to it.
+export interface TransactionSplit {
+  method: SplitMethod;
+  paidBy: string | null; // friend who paid the bill; null when the user paid
+  myShare: number;
+  friends: SplitShare[];
+}
+
+export interface Settlement {
+  friend: string;
+  received: boolean; // true when the friend paid the user back, false when the user paid the friend
 }
 
 export interface BudgetAllocations {
@@ -22,51 +95,197 @@ export interface BudgetState {
   isSet: boolean;
 }
 
+// The budget as it stood from a given day. A new version is recorded whenever the budget
+// changes, so past periods can be judged against the limits that applied then
+// (utils/budgetHistory.ts). Keyed by effectiveFrom: several edits on one day keep the last.
+export interface BudgetVersion {
+  id: string; // same as effectiveFrom
+  effectiveFrom: string; // yyyy-MM-dd
+  monthlyIncome: number;
+  allocations: BudgetAllocations;
+  createdAt: number;
+}
+
+// --- Preferences ---
+
+// When the user's budgeting month begins: the calendar month, or a pay cycle
+export type PayCycleStart = 'calendar' | 'fixed_day' | 'last_business_day' | 'first_business_day';
+
+// What happens to a fixed payday that falls on a Saturday or Sunday
+export type WeekendShift = 'none' | 'before' | 'after';
+
+export interface PayCycle {
+  start: PayCycleStart;
+  day?: number; // fixed_day: day of the month (1-31), clamped in shorter months
+  weekendShift?: WeekendShift; // fixed_day: move a weekend payday to the Friday before or the Monday after
+}
+
+// Day weeks begin on, numbered as in date-fns: 0 = Sunday, 1 = Monday ... 6 = Saturday
+export type WeekStart = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Per-user settings synced with the account (the AI settings stay on the device)
+export interface UserPreferences {
+  payCycle: PayCycle;
+  weekStartsOn: WeekStart;
+  timeZone: string; // IANA name, e.g. "Asia/Kolkata"; days, weeks and months are counted in it
+  updatedAt?: number;
+}
+
+// Where a parsed value came from: the regex parser, the AI, a user rule, or the user directly
+export type ParseSource = 'regex' | 'ai' | 'rule' | 'user';
+
+export type ParsedField = 'amount' | 'category' | 'date' | 'description';
+
+export interface FieldProvenance {
+  source: ParseSource;
+  confidence: number; // 0..1
+  confirmed?: boolean; // the user explicitly accepted a low-confidence value
+}
+
+export type ParseProvenance = Partial<Record<ParsedField, FieldProvenance>>;
+
 export interface ParsedExpense {
   amount: number | null;
+  direction?: TransactionDirection;
   category: TransactionCategory | null;
+  subcategory?: string;
+  tags?: string[];
+  split?: TransactionSplit;
+  paymentMethod?: PaymentMethod;
+  accountId?: string;
+  toAccountId?: string;
+  reference?: string; // bank/UPI reference number, from a pasted SMS
+  duplicateOf?: string; // id of the transaction already recorded with this reference, or 'paste' when the same message was pasted twice; never added
   description: string;
   date: Date;
+  span?: { start: number; end: number }; // characters of the original input this item came from
+  rejectedReason?: string; // set when the AI output failed validation; such items are shown but never added
+  source?: ParseSource; // parser that produced the item ('regex' or 'ai')
+  fields?: ParseProvenance;
 }
 
 // Mapping specific transaction categories to high-level budget buckets
 export type BudgetBucket = 'Weekly' | 'Monthly' | 'Savings';
 
-export const CATEGORY_BUCKET_MAP: Record<TransactionCategory, BudgetBucket> = {
-  Groceries: 'Weekly',
-  Outings: 'Weekly',
-  BodyCare: 'Weekly',
-  Orders: 'Weekly',
-  Miscellaneous: 'Weekly',
-  Petrol: 'Weekly',
-  Other: 'Weekly',
-  Bills: 'Monthly',
-  Savings: 'Savings',
-};
+// --- Categories ---
+
+// A per-user category; the built-in set is DEFAULT_CATEGORIES in utils/categories.ts
+export interface CategoryDefinition {
+  name: TransactionCategory;
+  emoji: string;
+  color: string; // hex, e.g. "#10b981"
+  bucket: BudgetBucket; // which budget the category counts against
+  keywords: string[]; // lowercase words the regex parser maps to this category
+  archived?: boolean; // hidden from pickers; existing transactions keep it
+  system?: boolean; // holds income and transfers, so it can't be renamed, archived or merged away
+}
+
+// --- Categorisation Rules ---
+
+// User-trained mapping from a merchant/keyword to a category.
+// Checked before the regex parser and the AI result.
+export interface CategoryRule {
+  id: string;
+  pattern: string; // lowercase word(s) matched against the description, e.g. "dmart"
+  category: TransactionCategory;
+  source: 'learned' | 'manual'; // learned = created from a category correction
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// --- Recurring Transactions ---
+
+export type RecurrenceCadence = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+// Changes to a single upcoming occurrence, keyed by its date (yyyy-MM-dd)
+export interface OccurrenceOverride {
+  amount?: number;
+  description?: string;
+}
+
+// A schedule (rent, wifi, SIP, subscription) that TimeService turns into real transactions when due.
+// Occurrences are counted from startDate so month-end dates do not drift.
+export interface RecurringTransaction {
+  id: string;
+  description: string;
+  amount: number;
+  direction?: TransactionDirection;
+  category: TransactionCategory;
+  cadence: RecurrenceCadence;
+  interval: number; // every N cadence units, e.g. 2 + weekly = fortnightly
+  startDate: string; // ISO, first occurrence
+  nextDueDate: string; // ISO, first occurrence not yet materialised
+  endDate?: string; // ISO, no occurrences after this
+  paused: boolean;
+  skippedDates?: string[]; // yyyy-MM-dd occurrences to leave out
+  overrides?: Record<string, OccurrenceOverride>;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// --- Statement Import ---
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+// Order of day, month and year in a statement's dates, e.g. "12/03/2025" is dmy in India
+export type DateOrder = 'dmy' | 'mdy' | 'ymd';
+
+// Which CSV column holds what (0-based). A statement has either one signed amount
+// column or separate debit and credit columns.
+export interface ColumnMapping {
+  headerRow: number; // rows up to and including this one are skipped
+  date: number;
+  description: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  reference?: number;
+  dateOrder: DateOrder;
+}
+
+// A saved mapping for one bank's CSV export, picked automatically when the headers match
+export interface ImportPreset {
+  id: string;
+  name: string; // e.g. "HDFC savings"
+  headers: string; // normalised header row the mapping was made for
+  mapping: ColumnMapping;
+  createdAt: number;
+  updatedAt?: number;
+}
 
 // --- History Types ---
 
 export interface WeeklyStats {
-  weekId: string; // ISO Week "2024-W25"
-  startDate: string;
-  endDate: string;
-  totalSpent: number;
+  weekId: string; // week-numbering year and week, zero-padded: "2024-W25", "2025-W01" (utils/periods.ts)
+  startDate: string; // yyyy-MM-dd, first day of the week; empty on weeks archived before dates were filled in
+  endDate: string; // yyyy-MM-dd, last day
+  totalSpent: number; // expenses minus refunds
   totalSaved: number;
+  totalIncome?: number; // absent on periods archived before income tracking
+  balance?: number; // income - spent - saved
   categoryBreakdown: Partial<Record<TransactionCategory, number>>;
   status: 'active' | 'completed';
+  monthId?: string; // month the week belongs to: the one its Thursday falls in (TimeService.getWeekMonthId)
+  splitWeek?: boolean; // starts in one month and ends in the next; its totals still cover all seven days
+  allocations?: BudgetAllocations; // the budget in force for the week, snapshotted when archived; absent if none was set
 }
 
 export interface MonthlyStats {
-  monthId: string; // "2024-06"
-  monthName: string; // "June 2024"
-  totalSpent: number;
+  monthId: string; // "2024-06"; a budgeting month, see utils/periods.ts
+  monthName: string; // "June 2024"; with a pay cycle, the month most of the cycle falls in
+  startDate?: string; // yyyy-MM-dd, first day of the budgeting month as it was when archived
+  endDate?: string; // yyyy-MM-dd, last day
+  totalSpent: number; // expenses minus refunds
   totalSaved: number;
+  totalIncome?: number; // absent on periods archived before income tracking
+  balance?: number; // income - spent - saved
   categoryBreakdown: Partial<Record<TransactionCategory, number>>;
-  weeks: WeeklyStats[]; // Archive of weeks that ended in this month
+  allocations?: BudgetAllocations; // the budget in force for the month, snapshotted when archived
+  weeks: WeeklyStats[]; // weeks belonging to this month, oldest first; empty on months archived before weeks were linked
   isFinalized: boolean; // true if month is over
 }
 
 export interface HistoryMeta {
-  lastActiveWeek: string; // "2024-W25"
+  lastActiveWeek: string; // "2024-W25" (older data may be unpadded, e.g. "2024-W9")
   lastActiveMonth: string; // "2024-06"
 }
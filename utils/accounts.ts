@@ -0,0 +1,187 @@
+import { Account, AccountType, PaymentMethod, Transaction } from '../types';
+import { directionOf } from './cashflow';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+    cash: 'Cash',
+    bank: 'Bank account',
+    credit_card: 'Credit card',
+    wallet: 'Wallet',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    cash: 'Cash',
+    upi: 'UPI',
+    card: 'Card',
+    netbanking: 'Net banking',
+    wallet: 'Wallet',
+};
+
+export interface AccountBalance {
+    account: Account;
+    balance: number; // money in the account; negative for a credit card with an outstanding bill
+    due?: number; // credit cards: outstanding amount
+    available?: number; // credit cards with a limit: limit minus outstanding
+}
+
+// The payment method implied by paying from an account of this type
+const METHOD_FOR_TYPE: Record<AccountType, PaymentMethod | null> = {
+    cash: 'cash',
+    bank: null, // could be UPI, net banking or a debit card
+    credit_card: 'card',
+    wallet: 'wallet',
+};
+
+// The account type a payment method usually draws on, for picking a default account
+const TYPE_FOR_METHOD: Record<PaymentMethod, AccountType | null> = {
+    cash: 'cash',
+    upi: null,
+    card: null,
+    netbanking: null,
+    wallet: 'wallet',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const activeAccounts = (accounts: Account[]): Account[] => accounts.filter(a => !a.archived);
+
+export const findAccount = (id: string | undefined, accounts: Account[]): Account | undefined =>
+    id ? accounts.find(a => a.id === id) : undefined;
+
+// --- Balances ---
+
+// What a transaction does to the balance of `accountId`. Expenses leave at their full amount:
+// a bill split with friends still comes out of the account in full.
+const balanceEffect = (t: Transaction, accountId: string): number => {
+    if (directionOf(t) === 'transfer') {
+        if (t.settlement && t.accountId === accountId) return t.settlement.received ? t.amount : -t.amount;
+        if (t.toAccountId === accountId) return t.amount;
+        return t.accountId === accountId ? -t.amount : 0;
+    }
+    if (t.accountId !== accountId) return 0;
+    return directionOf(t) === 'expense' ? -t.amount : t.amount;
+};
+
+// Balance of every active account from its opening balance and the transactions that name it.
+// Transactions with no account do not move any balance.
+export const accountBalances = (accounts: Account[], transactions: Transaction[]): AccountBalance[] =>
+    activeAccounts(accounts).map(account => {
+        const opening = account.type === 'credit_card' ? -account.openingBalance : account.openingBalance;
+        const balance = round(transactions.reduce((sum, t) => sum + balanceEffect(t, account.id), opening));
+        if (account.type !== 'credit_card') return { account, balance };
+
+        const due = Math.max(0, -balance);
+        return {
+            account,
+            balance,
+            due,
+            ...(account.creditLimit ? { available: round(account.creditLimit - due) } : {}),
+        };
+    });
+
+// Next date a card bill falls due; short months use their last day
+export const nextCardDueDate = (dueDay: number, now: Date = new Date()): Date => {
+    const dueIn = (year: number, month: number) =>
+        new Date(year, month, Math.min(dueDay, new Date(year, month + 1, 0).getDate()));
+    const thisMonth = dueIn(now.getFullYear(), now.getMonth());
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return thisMonth >= today ? thisMonth : dueIn(now.getFullYear(), now.getMonth() + 1);
+};
+
+// --- Parser hints ---
+
+// Checked in order; the first hit names the method. "cashback" is a refund, not cash.
+const METHOD_PATTERNS: [PaymentMethod, RegExp][] = [
+    ['upi', /\b(?:(?:via|by|through|using|on|with)\s+)?(?:gpay|google\s?pay|phonepe|phone\s?pe|bhim|upi|paytm\s+upi)\b/i],
+    ['wallet', /\b(?:(?:via|by|through|using|from|with)\s+)?(?:paytm(?:\s+wallet)?|amazon\s?pay|mobikwik|wallet)\b/i],
+    ['netbanking', /\b(?:(?:via|by|through|using)\s+)?(?:net\s?banking|neft|imps|rtgs)\b/i],
+    ['card', /\b(?:(?:via|by|through|using|on|with)\s+)?(?:(?:credit|debit)\s+)?card\b/i],
+    ['cash', /\b(?:(?:in|by|with|paid|using)\s+)?cash\b(?!\s?back)/i],
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "on hdfc card" names the account; the lead-in word goes with it so the description reads cleanly
+const accountPattern = (word: string) =>
+    new RegExp(`\\b(?:(?:via|by|through|using|on|with|from|to|into|in)\\s+)?${escapeRegExp(word.toLowerCase())}\\b`, 'i');
+
+const accountWords = (account: Account): string[] =>
+    [...account.keywords, account.name].map(w => w.trim().toLowerCase()).filter(Boolean);
+
+// "hdfc card bill", "amex payment": paying a card's bill moves money to the card; it is not spending
+const CARD_PAYMENT_AFTER = /^\s*(?:card\s+)?(?:bill|payment|dues?)\b/i;
+
+export interface PaymentHints {
+    paymentMethod?: PaymentMethod;
+    accountId?: string;
+    toAccountId?: string;
+    cardPayment?: boolean; // the text pays off a credit card, so it should be a transfer
+    text: string; // input with the hint phrases removed
+}
+
+// Picks up "via gpay", "on hdfc card", "cash" and account names. With two accounts
+// named ("moved 5000 from hdfc to cash"), the first is where the money came from.
+export const extractPaymentHints = (text: string, accounts: Account[] = []): PaymentHints => {
+    let stripped = text;
+    const hints: Omit<PaymentHints, 'text'> = {};
+
+    // Longest names first, so "hdfc card" wins over "hdfc"
+    const mentions = activeAccounts(accounts)
+        .flatMap(account => accountWords(account).map(word => ({ account, word })))
+        .sort((a, b) => b.word.length - a.word.length)
+        .reduce<{ account: Account; index: number }[]>((found, { account, word }) => {
+            if (found.some(f => f.account.id === account.id)) return found;
+            const match = stripped.match(accountPattern(word));
+            if (!match) return found;
+            stripped = stripped.replace(match[0], ' ');
+            return [...found, { account, index: match.index! }];
+        }, [])
+        .sort((a, b) => a.index - b.index);
+
+    const [first, second] = mentions.map(m => m.account);
+    const paidCard = mentions.find(m => m.account.type === 'credit_card' && CARD_PAYMENT_AFTER.test(stripped.slice(m.index)));
+    if (paidCard) {
+        hints.toAccountId = paidCard.account.id;
+        hints.cardPayment = true;
+        const from = mentions.find(m => m !== paidCard);
+        if (from) hints.accountId = from.account.id;
+    } else if (first && second) {
+        hints.accountId = first.id;
+        hints.toAccountId = second.id;
+    } else if (first) {
+        hints.accountId = first.id;
+    }
+
+    const method = METHOD_PATTERNS.find(([, pattern]) => pattern.test(stripped));
+    if (method) {
+        hints.paymentMethod = method[0];
+        stripped = stripped.replace(method[1], ' ');
+    } else if (first && !hints.cardPayment) {
+        const implied = METHOD_FOR_TYPE[first.type];
+        if (implied) hints.paymentMethod = implied;
+    }
+
+    // "paid in cash" with a single cash account: that's the one
+    if (!hints.accountId && !hints.toAccountId && hints.paymentMethod) {
+        const type = TYPE_FOR_METHOD[hints.paymentMethod];
+        const candidates = activeAccounts(accounts).filter(a => a.type === type);
+        if (candidates.length === 1) hints.accountId = candidates[0].id;
+    }
+
+    return { ...hints, text: stripped.replace(/\s{2,}/g, ' ').trim() };
+};
+
+// --- Validation ---
+
+export const validateAccount = (account: Pick<Account, 'name' | 'openingBalance' | 'creditLimit' | 'dueDay' | 'lastDigits'>, accounts: Account[], exceptId?: string): string | null => {
+    const name = account.name.replace(/\s+/g, ' ').trim();
+    if (!name) return 'Name is required';
+    if (name.length > 30) return 'Name is too long';
+    if (!Number.isFinite(account.openingBalance)) return 'Opening balance must be a number';
+    if (account.creditLimit !== undefined && !(account.creditLimit > 0)) return 'Credit limit must be more than zero';
+    if (account.dueDay !== undefined && !(Number.isInteger(account.dueDay) && account.dueDay >= 1 && account.dueDay <= 31)) {
+        return 'Due day must be between 1 and 31';
+    }
+    if (account.lastDigits !== undefined && !/^\d{3,6}$/.test(account.lastDigits)) return 'Last digits must be 3 to 6 numbers';
+    const clash = accounts.find(a => a.id !== exceptId && a.name.toLowerCase() === name.toLowerCase());
+    return clash ? `"${clash.name}" already exists` : null;
+};
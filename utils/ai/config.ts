@@ -0,0 +1,59 @@
+import { ProviderId } from './provider';
+import { DEFAULT_OPENAI_BASE_URL } from './openaiCompatible';
+
+export interface AIConfig {
+    provider: ProviderId;
+    model: string;
+    baseUrl: string; // only used by the OpenAI-compatible provider
+    apiKey: string; // optional key for a self-hosted OpenAI-compatible server
+}
+
+// Providers selectable in the browser. Groq is only used behind the server proxy so its key never ships to clients.
+export const AI_PROVIDERS: { id: ProviderId; label: string; defaultModel: string }[] = [
+    { id: 'proxy', label: 'SmartSpend server', defaultModel: 'server default' },
+    { id: 'openai-compatible', label: 'OpenAI-compatible (llama.cpp, Ollama)', defaultModel: 'llama3' },
+    { id: 'mock', label: 'Mock (offline fixtures)', defaultModel: 'fixtures' }
+];
+
+// Device-local on purpose: API keys should not be synced to Firestore
+const CONFIG_KEY = 'smartspend_ai_config';
+
+const isProviderId = (value: unknown): value is ProviderId =>
+    AI_PROVIDERS.some(p => p.id === value);
+
+export const defaultModelFor = (provider: ProviderId): string =>
+    AI_PROVIDERS.find(p => p.id === provider)!.defaultModel;
+
+// Build-time defaults; the server proxy is used unless configured otherwise
+const envDefaults = (): AIConfig => {
+    const env = import.meta.env;
+    const provider: ProviderId = isProviderId(env.VITE_AI_PROVIDER) ? env.VITE_AI_PROVIDER : 'proxy';
+    return {
+        provider,
+        model: env.VITE_AI_MODEL || defaultModelFor(provider),
+        baseUrl: env.VITE_AI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        apiKey: ''
+    };
+};
+
+export const getAIConfig = (): AIConfig => {
+    const defaults = envDefaults();
+    try {
+        const stored = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+        if (stored && isProviderId(stored.provider)) {
+            return { ...defaults, ...stored };
+        }
+    } catch (error) {
+        console.error("Error reading AI config:", error);
+    }
+    return defaults;
+};
+
+export const saveAIConfig = (config: AIConfig): void => {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+export const resetAIConfig = (): AIConfig => {
+    localStorage.removeItem(CONFIG_KEY);
+    return envDefaults();
+};
@@ -0,0 +1,41 @@
+import { TransactionCategory, TransactionDirection } from '../../types';
+
+export interface ExpenseFixture {
+    amount: number;
+    direction?: TransactionDirection;
+    category: TransactionCategory;
+    description: string;
+    daysAgo?: number;
+}
+
+// Canned model answers for the mock provider, keyed by lower-cased, whitespace-collapsed input
+export const EXPENSE_FIXTURES: Record<string, ExpenseFixture[]> = {
+    'spent 200 on lunch': [
+        { amount: 200, category: 'Outings', description: 'Lunch' }
+    ],
+    'milk 60 and bread 40': [
+        { amount: 60, category: 'Groceries', description: 'Milk' },
+        { amount: 40, category: 'Groceries', description: 'Bread' }
+    ],
+    'petrol 1500 yesterday': [
+        { amount: 1500, category: 'Petrol', description: 'Petrol', daysAgo: 1 }
+    ],
+    'paid electricity bill 2,400 and haircut 300': [
+        { amount: 2400, category: 'Bills', description: 'Electricity bill' },
+        { amount: 300, category: 'BodyCare', description: 'Haircut' }
+    ],
+    'amazon order 1299': [
+        { amount: 1299, category: 'Orders', description: 'Amazon order' }
+    ],
+    'got salary 45000': [
+        { amount: 45000, direction: 'income', category: 'Other', description: 'Salary' }
+    ],
+    'refund 300 from amazon': [
+        { amount: 300, direction: 'refund', category: 'Orders', description: 'Amazon refund' }
+    ],
+    'moved 5000 to savings': [
+        { amount: 5000, category: 'Savings', description: 'Moved to savings' }
+    ]
+};
+
+export const fixtureKey = (input: string): string => input.trim().toLowerCase().replace(/\s+/g, ' ');
@@ -0,0 +1,37 @@
+import Groq from 'groq-sdk';
+import { ParsedExpense } from '../../types';
+import { ExpenseParserProvider, ParseOptions, buildExpenseMessages } from './provider';
+import { validateExpenseResponse } from './validate';
+
+export const DEFAULT_GROQ_MODEL = 'llama3-8b-8192';
+
+interface GroqProviderOptions {
+    apiKey: string;
+    model?: string;
+    dangerouslyAllowBrowser?: boolean;
+}
+
+export class GroqProvider implements ExpenseParserProvider {
+    readonly id = 'groq' as const;
+    private client: Groq;
+    private model: string;
+
+    constructor({ apiKey, model = DEFAULT_GROQ_MODEL, dangerouslyAllowBrowser = false }: GroqProviderOptions) {
+        this.client = new Groq({ apiKey, dangerouslyAllowBrowser });
+        this.model = model;
+    }
+
+    async parseExpenses(input: string, { categories }: ParseOptions = {}): Promise<ParsedExpense[]> {
+        const completion = await this.client.chat.completions.create({
+            messages: buildExpenseMessages(input, new Date(), categories),
+            model: this.model,
+            temperature: 0.1,
+            response_format: { type: "json_object" }
+        });
+
+        const content = completion.choices[0]?.message?.content;
+        if (!content) throw new Error("No content received from AI");
+
+        return validateExpenseResponse(content, input, { categories: categories?.map(c => c.name) });
+    }
+}
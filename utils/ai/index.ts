@@ -0,0 +1,42 @@
+import { CategoryDefinition, ParsedExpense } from '../../types';
+import { ExpenseParserProvider, toPromptCategories } from './provider';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import { MockProvider } from './mock';
+import { ProxyProvider } from './proxy';
+import { auth } from '../firebase';
+import { AIConfig, getAIConfig } from './config';
+
+export type { ExpenseParserProvider, ProviderId } from './provider';
+export type { AIConfig } from './config';
+export { AI_PROVIDERS, defaultModelFor, getAIConfig, saveAIConfig, resetAIConfig } from './config';
+
+export const createProvider = (config: AIConfig): ExpenseParserProvider => {
+    switch (config.provider) {
+        case 'proxy':
+        case 'groq': // never in the browser: route through the server
+            return new ProxyProvider({ getIdToken: () => auth.currentUser?.getIdToken() ?? Promise.resolve(null) });
+        case 'openai-compatible':
+            return new OpenAICompatibleProvider({ baseUrl: config.baseUrl, model: config.model, apiKey: config.apiKey || undefined });
+        case 'mock':
+            return new MockProvider({ latencyMs: 300 });
+    }
+};
+
+// Config is read per call so changes in Settings apply without a reload.
+// The model chooses from the user's categories when they are given. An aborted call answers [].
+export async function parseExpenseWithAI(input: string, categories?: CategoryDefinition[], signal?: AbortSignal): Promise<ParsedExpense[]> {
+    if (!input || input.trim().length < 3) {
+        return [];
+    }
+
+    try {
+        return await createProvider(getAIConfig()).parseExpenses(input, {
+            ...(categories ? { categories: toPromptCategories(categories) } : {}),
+            ...(signal ? { signal } : {}),
+        });
+    } catch (error) {
+        if (signal?.aborted) return [];
+        console.error("Error parsing with AI:", error);
+        return [];
+    }
+}
@@ -0,0 +1,74 @@
+import { CategoryDefinition, ParsedExpense } from '../../types';
+import { parseMultipleExpenses } from '../parser';
+import { DEFAULT_CATEGORIES, FALLBACK_CATEGORY, findCategory } from '../categories';
+import { ExpenseParserProvider, ParseOptions, PromptCategory } from './provider';
+import { validateExpenseResponse } from './validate';
+import { EXPENSE_FIXTURES, ExpenseFixture, fixtureKey } from './fixtures';
+
+interface MockProviderOptions {
+    fixtures?: Record<string, ExpenseFixture[]>;
+    now?: () => Date;
+    latencyMs?: number;
+}
+
+// The regex fallback only knows keywords, so the prompt examples stand in for them
+const toDefinitions = (categories: PromptCategory[]): CategoryDefinition[] =>
+    categories.map(({ name, examples = [] }) => {
+        const builtIn = findCategory(name, DEFAULT_CATEGORIES);
+        return {
+            name,
+            emoji: builtIn?.emoji ?? '',
+            color: builtIn?.color ?? '',
+            bucket: builtIn?.bucket ?? 'Weekly',
+            keywords: [...(builtIn?.keywords ?? []), ...examples],
+        };
+    });
+
+// Deterministic stand-in for an LLM: answers from fixtures, otherwise from the regex parser.
+// The reply goes through the same validation as the real providers.
+export class MockProvider implements ExpenseParserProvider {
+    readonly id = 'mock' as const;
+    private fixtures: Record<string, ExpenseFixture[]>;
+    private now: () => Date;
+    private latencyMs: number;
+
+    constructor({ fixtures = EXPENSE_FIXTURES, now = () => new Date(), latencyMs = 0 }: MockProviderOptions = {}) {
+        this.fixtures = fixtures;
+        this.now = now;
+        this.latencyMs = latencyMs;
+    }
+
+    async parseExpenses(input: string, { categories }: ParseOptions = {}): Promise<ParsedExpense[]> {
+        if (this.latencyMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+        }
+        return validateExpenseResponse(JSON.stringify({ expenses: this.answer(input, categories) }), input, {
+            now: this.now(),
+            categories: categories?.map(c => c.name)
+        });
+    }
+
+    private answer(input: string, categories?: PromptCategory[]) {
+        const now = this.now();
+        const fixture = this.fixtures[fixtureKey(input)];
+        if (fixture) {
+            return fixture.map(({ daysAgo = 0, ...item }) => {
+                const date = new Date(now);
+                date.setDate(date.getDate() - daysAgo);
+                return { ...item, date: date.toISOString() };
+            });
+        }
+
+        return parseMultipleExpenses(input, now, categories ? toDefinitions(categories) : DEFAULT_CATEGORIES)
+            .filter(item => item.amount !== null)
+            .map(item => ({
+                amount: item.amount,
+                direction: item.direction,
+                category: item.category ?? FALLBACK_CATEGORY,
+                description: item.description,
+                date: item.date.toISOString(),
+                subcategory: item.subcategory,
+                tags: item.tags
+            }));
+    }
+}
@@ -0,0 +1,49 @@
+import { ParsedExpense } from '../../types';
+import { ExpenseParserProvider, ParseOptions, buildExpenseMessages } from './provider';
+import { validateExpenseResponse } from './validate';
+
+// Default for a local llama.cpp server; Ollama is http://localhost:11434/v1
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:8080/v1';
+
+interface OpenAICompatibleOptions {
+    baseUrl?: string;
+    model: string;
+    apiKey?: string; // local servers usually need none
+}
+
+// Talks to any server exposing the OpenAI /chat/completions API (llama.cpp, Ollama, vLLM, ...)
+export class OpenAICompatibleProvider implements ExpenseParserProvider {
+    readonly id = 'openai-compatible' as const;
+    private baseUrl: string;
+
+    constructor(private options: OpenAICompatibleOptions) {
+        this.baseUrl = (options.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    }
+
+    async parseExpenses(input: string, { categories, signal }: ParseOptions = {}): Promise<ParsedExpense[]> {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {})
+            },
+            body: JSON.stringify({
+                model: this.options.model,
+                messages: buildExpenseMessages(input, new Date(), categories),
+                temperature: 0.1,
+                response_format: { type: "json_object" }
+            }),
+            signal
+        });
+
+        if (!response.ok) {
+            throw new Error(`AI server responded with ${response.status}`);
+        }
+
+        const data = await response.json();
+        const content = data.choices?.[0]?.message?.content;
+        if (!content) throw new Error("No content received from AI");
+
+        return validateExpenseResponse(content, input, { categories: categories?.map(c => c.name) });
+    }
+}
@@ -0,0 +1,42 @@
+import { ParsedExpense } from '../../types';
+import { ExpenseParserProvider, ParseOptions } from './provider';
+import { deviceTimeZone } from '../periods';
+
+export const DEFAULT_PROXY_ENDPOINT = '/api/parse-expense';
+
+interface ProxyProviderOptions {
+    endpoint?: string;
+    getIdToken: () => Promise<string | null>;
+}
+
+// Calls our own server endpoint, which verifies the Firebase ID token and talks to the model.
+// The server has already validated the items; only dates need reviving from JSON.
+export class ProxyProvider implements ExpenseParserProvider {
+    readonly id = 'proxy' as const;
+
+    constructor(private options: ProxyProviderOptions) { }
+
+    async parseExpenses(input: string, { categories, signal }: ParseOptions = {}): Promise<ParsedExpense[]> {
+        const token = await this.options.getIdToken();
+        if (!token) throw new Error("Not signed in");
+
+        const response = await fetch(this.options.endpoint || DEFAULT_PROXY_ENDPOINT, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`
+            },
+            // The server caches answers per day, and "yesterday" means the user's yesterday
+            body: JSON.stringify({ text: input, timeZone: deviceTimeZone(), ...(categories ? { categories } : {}) }),
+            signal
+        });
+
+        if (!response.ok) {
+            const { error } = await response.json().catch(() => ({ error: undefined }));
+            throw new Error(`AI proxy responded with ${response.status}${error ? `: ${error}` : ''}`);
+        }
+
+        const { expenses } = await response.json() as { expenses: (Omit<ParsedExpense, 'date'> & { date: string })[] };
+        return expenses.map(item => ({ ...item, date: new Date(item.date) }));
+    }
+}
@@ -0,0 +1,174 @@
+import { ParsedExpense, TransactionCategory, TransactionDirection, TRANSACTION_DIRECTIONS } from '../../types';
+import { extractAmount } from '../amountParser';
+import { FALLBACK_CATEGORY, UNCATEGORISED } from '../categories';
+import { normalizeSubcategory, normalizeTags } from '../tags';
+import { DEFAULT_PROMPT_CATEGORIES } from './provider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ValidationOptions {
+    now?: Date;
+    maxPastDays?: number;
+    maxFutureDays?: number;
+    maxAmount?: number;
+    maxItems?: number;
+    categories?: string[]; // names the model was allowed to choose from
+}
+
+const DEFAULTS = {
+    maxPastDays: 366,
+    maxFutureDays: 1,
+    maxAmount: 1e8, // 10 crore
+    maxItems: 25
+};
+
+const MAX_DESCRIPTION_LENGTH = 80;
+
+// Common model answers for the built-in categories; used only when the alias target is one of the user's
+const CATEGORY_ALIASES: Record<string, TransactionCategory> = {
+    'Groceries': 'Groceries', 'Grocery': 'Groceries', 'Food': 'Groceries',
+    'Outings': 'Outings', 'Outing': 'Outings', 'Restaurant': 'Outings', 'Entertainment': 'Outings',
+    'BodyCare': 'BodyCare', 'Body Care': 'BodyCare', 'Personal Care': 'BodyCare', 'Health': 'BodyCare',
+    'Orders': 'Orders', 'Order': 'Orders', 'Shopping': 'Orders',
+    'Petrol': 'Petrol', 'Fuel': 'Petrol', 'Transport': 'Petrol',
+    'Miscellaneous': 'Miscellaneous', 'Misc': 'Miscellaneous',
+    'Bills': 'Bills',
+    'Savings': 'Savings',
+    'Other': 'Other'
+};
+
+// Descriptions that read like prompt text rather than something that was bought
+const INSTRUCTION_ECHO = [
+    /\b(?:ignore|disregard|forget)\b.{0,30}\b(?:instructions?|prompt|rules|above|previous)\b/i,
+    /\b(?:system|developer)\s+(?:prompt|message|instructions?)\b/i,
+    /\byou\s+are\s+(?:an?|the)\b/i,
+    /\bas\s+an?\s+(?:ai|assistant|language\s+model)\b/i,
+    /\b(?:respond|reply|output|return)\b.{0,20}\b(?:json|format|only)\b/i,
+    /<\/?\s*expense_input\s*>/i
+];
+
+// The model did not return the agreed JSON shape at all
+export class AIResponseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AIResponseError';
+    }
+}
+
+// Accepted values carry how much the model's answer for that field can be trusted
+type FieldResult<T> = { value: T; confidence: number } | { reason: string };
+
+// Numbers pass through; strings like "₹1,200" or "1.2k" are repaired with the regex amount parser
+const validateAmount = (raw: unknown, maxAmount: number): FieldResult<number> => {
+    let amount: number | null = null;
+    let confidence = 0.8;
+    if (typeof raw === 'number') {
+        amount = raw;
+    } else if (typeof raw === 'string') {
+        const trimmed = raw.trim();
+        if (/^-/.test(trimmed)) return { reason: 'Negative amount' };
+        amount = extractAmount(trimmed)?.amount ?? null;
+        confidence = 0.6;
+    }
+
+    if (amount === null || !Number.isFinite(amount)) return { reason: 'Amount is not a number' };
+    if (amount < 0) return { reason: 'Negative amount' };
+    if (amount === 0) return { reason: 'Amount is zero' };
+    if (amount > maxAmount) return { reason: 'Amount is implausibly large' };
+    return { value: Math.round(amount * 100) / 100, confidence };
+};
+
+// Missing or unreadable dates fall back to now; readable ones outside the window are rejected
+const validateDate = (raw: unknown, now: Date, maxPastDays: number, maxFutureDays: number): FieldResult<Date> => {
+    const date = typeof raw === 'string' || typeof raw === 'number' ? new Date(raw) : null;
+    if (raw === undefined || raw === null || raw === '') return { value: new Date(now), confidence: 0.7 };
+    if (!date || isNaN(date.getTime())) return { value: new Date(now), confidence: 0.4 };
+
+    const diff = date.getTime() - now.getTime();
+    if (diff > maxFutureDays * DAY_MS) return { reason: `Date ${date.toLocaleDateString()} is in the future` };
+    if (-diff > maxPastDays * DAY_MS) return { reason: `Date ${date.toLocaleDateString()} is too far in the past` };
+    return { value: date, confidence: 0.8 };
+};
+
+const validateDescription = (raw: unknown, input: string): FieldResult<string> => {
+    const description = typeof raw === 'string' ? raw.replace(/\s+/g, ' ').trim() : '';
+    if (!description) return { value: input.trim().slice(0, MAX_DESCRIPTION_LENGTH), confidence: 0.4 };
+    if (INSTRUCTION_ECHO.some(pattern => pattern.test(description))) {
+        return { reason: 'Description looks like an instruction, not an expense' };
+    }
+    return { value: description.slice(0, MAX_DESCRIPTION_LENGTH), confidence: 0.85 };
+};
+
+// Exact category names are trusted more than case-insensitive matches and aliases;
+// unknown ones fall back to Miscellaneous (or Other if the user has none)
+const normalizeCategory = (raw: unknown, names: string[]): { value: TransactionCategory; confidence: number } => {
+    const rawCat = typeof raw === 'string' ? raw.trim() : '';
+    if (names.includes(rawCat)) return { value: rawCat, confidence: 0.8 };
+
+    const squash = (name: string) => name.toLowerCase().replace(/\s+/g, '');
+    const loose = names.find(name => squash(name) === squash(rawCat));
+    if (loose) return { value: loose, confidence: 0.7 };
+
+    const alias = CATEGORY_ALIASES[rawCat] || CATEGORY_ALIASES[rawCat.replace(/\s+/g, '')];
+    if (alias && names.includes(alias)) return { value: alias, confidence: 0.65 };
+
+    return { value: names.includes(FALLBACK_CATEGORY) ? FALLBACK_CATEGORY : UNCATEGORISED, confidence: 0.3 };
+};
+
+// Unknown or missing directions are treated as an expense, the common case
+const normalizeDirection = (raw: unknown): TransactionDirection => {
+    const direction = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+    return TRANSACTION_DIRECTIONS.find(d => d === direction) ?? 'expense';
+};
+
+// Strictly checks a model reply and turns it into ParsedExpense[].
+// Items that fail are kept with amount null and a rejectedReason so the preview can explain them.
+export const validateExpenseResponse = (content: string, input: string, options: ValidationOptions = {}): ParsedExpense[] => {
+    const { now = new Date(), maxPastDays, maxFutureDays, maxAmount, maxItems } = { ...DEFAULTS, ...options };
+    const categoryNames = options.categories ?? DEFAULT_PROMPT_CATEGORIES.map(c => c.name);
+
+    let result: unknown;
+    try {
+        result = JSON.parse(content);
+    } catch {
+        throw new AIResponseError('AI reply is not valid JSON');
+    }
+    const expenses = (result as { expenses?: unknown } | null)?.expenses;
+    if (!Array.isArray(expenses)) {
+        throw new AIResponseError('AI reply has no "expenses" array');
+    }
+
+    return expenses.slice(0, maxItems).map((item): ParsedExpense => {
+        const fields = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+        const description = validateDescription(fields.description, input);
+        const amount = validateAmount(fields.amount, maxAmount);
+        const date = validateDate(fields.date, now, maxPastDays, maxFutureDays);
+        const category = normalizeCategory(fields.category, categoryNames);
+        const subcategory = normalizeSubcategory(fields.subcategory);
+        const tags = Array.isArray(fields.tags) ? normalizeTags(fields.tags) : [];
+
+        const reason = [description, amount, date]
+            .map(field => ('reason' in field ? field.reason : null))
+            .find(Boolean);
+
+        const confidenceOf = (field: FieldResult<unknown>) => ('confidence' in field ? field.confidence : 0);
+
+        return {
+            amount: reason || !('value' in amount) ? null : amount.value,
+            direction: normalizeDirection(fields.direction),
+            category: category.value,
+            ...(subcategory && subcategory.toLowerCase() !== category.value.toLowerCase() ? { subcategory } : {}),
+            ...(tags.length > 0 ? { tags } : {}),
+            description: 'value' in description ? description.value : '(rejected)',
+            date: 'value' in date ? date.value : new Date(now),
+            ...(reason ? { rejectedReason: reason } : {}),
+            source: 'ai',
+            fields: {
+                amount: { source: 'ai', confidence: confidenceOf(amount) },
+                category: { source: 'ai', confidence: category.confidence },
+                date: { source: 'ai', confidence: confidenceOf(date) },
+                description: { source: 'ai', confidence: confidenceOf(description) }
+            }
+        };
+    });
+};
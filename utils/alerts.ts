@@ -1,5 +1,8 @@
-import { BudgetState, Transaction, CATEGORY_BUCKET_MAP } from '../types';
-import { isSameWeek } from './date';
+import { BudgetState, Transaction, RecurringTransaction, CategoryDefinition } from '../types';
+import { monthCashFlow, spendingAmount, isInMonth } from './cashflow';
+import { DEFAULT_PERIOD_SETTINGS, PeriodSettings, isInWeek, localDateKey, periodIdFor, periodRange } from './periods';
+import { upcomingOccurrences } from './recurring';
+import { DEFAULT_CATEGORIES, bucketOf } from './categories';
 
 export type AlertType = 'success' | 'warning' | 'critical';
 
@@ -10,36 +13,40 @@ export interface AlertItem {
     message: string;
 }
 
-export const generateAlerts = (budget: BudgetState, transactions: Transaction[]): AlertItem[] => {
+export const generateAlerts = (
+    budget: BudgetState,
+    transactions: Transaction[],
+    recurring: RecurringTransaction[] = [],
+    categories: CategoryDefinition[] = DEFAULT_CATEGORIES,
+    settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS
+): AlertItem[] => {
     const alerts: AlertItem[] = [];
     const now = new Date();
-    const todayStr = now.toISOString().split('T')[0];
-    const currentMonthStr = todayStr.substring(0, 7); // YYYY-MM
-
-    // 1. Calculate Spending Metrics
-    let weeklySpent = 0;
-    let monthlySpent = 0;
+    // The user's day and budgeting month ("YYYY-MM"), in their time zone rather than UTC
+    const todayStr = localDateKey(now, settings.timeZone);
+    const currentMonthStr = periodIdFor(now, settings);
+    const monthEnd = periodRange(currentMonthStr, settings.payCycle)?.end ?? now;
 
+    // 1. Calculate Spending Metrics (refunds reduce spending, income and transfers don't count)
     const weeklyBucketTotal = transactions
-        .filter(t => {
-            const tDate = new Date(t.date);
-            // Check if transaction is in current week
-            return isSameWeek(tDate, now) && CATEGORY_BUCKET_MAP[t.category] === 'Weekly';
-        })
-        .reduce((sum, t) => sum + t.amount, 0);
+        .filter(t => isInWeek(t, now, settings) && bucketOf(t.category, categories) === 'Weekly')
+        .reduce((sum, t) => sum + spendingAmount(t), 0);
 
     // For monthly bucket, we sum ALL transactions in that bucket for this month
     const monthlyBucketTotal = transactions
-        .filter(t => {
-            const isThisMonth = t.date.startsWith(currentMonthStr);
-            return isThisMonth && CATEGORY_BUCKET_MAP[t.category] === 'Monthly';
-        })
-        .reduce((sum, t) => sum + t.amount, 0);
+        .filter(t => isInMonth(t, now, settings) && bucketOf(t.category, categories) === 'Monthly')
+        .reduce((sum, t) => sum + spendingAmount(t), 0);
+
+    // Bills from recurring schedules that are still to come this month
+    const upcomingBills = upcomingOccurrences(recurring, now, monthEnd)
+        .filter(o => (o.recurring.direction ?? 'expense') === 'expense' && bucketOf(o.recurring.category, categories) === 'Monthly');
+    const upcomingBillsTotal = upcomingBills.reduce((sum, o) => sum + o.amount, 0);
+    const projectedMonthlyTotal = monthlyBucketTotal + upcomingBillsTotal;
 
-    // Savings: We look at the 'remaining' global balance as "Current Savings" 
-    // (as per Dashboard logic: remainingTotal = Income - TotalSpent)
-    const totalSpentAll = transactions.reduce((sum, t) => sum + t.amount, 0);
-    const currentSavings = budget.monthlyIncome - totalSpentAll;
+    // Savings: what is left of this month's income after spending (as on the Dashboard).
+    // Uses income actually received, or the planned income until some is recorded.
+    const monthFlow = monthCashFlow(transactions, budget, categories, now, settings);
+    const currentSavings = monthFlow.unspent;
 
     // 2. Evaluate Triggers
 
@@ -70,8 +77,8 @@ export const generateAlerts = (budget: BudgetState, transactions: Transaction[])
         if (limit <= 0) return;
 
         const catSpent = transactions
-            .filter(t => isSameWeek(new Date(t.date), now) && t.category === cat)
-            .reduce((sum, t) => sum + t.amount, 0);
+            .filter(t => isInWeek(t, now, settings) && t.category === cat)
+            .reduce((sum, t) => sum + spendingAmount(t), 0);
 
         if (catSpent > limit) {
             alerts.push({
@@ -100,6 +107,14 @@ export const generateAlerts = (budget: BudgetState, transactions: Transaction[])
                 title: 'Monthly Expense Limit Exceeded',
                 message: `Monthly bills/expenses are ₹${monthlyBucketTotal}, exceeding the ₹${monthlyLimit} limit.`
             });
+        } else if (projectedMonthlyTotal > monthlyLimit) {
+            const names = Array.from(new Set(upcomingBills.map(o => o.recurring.description))).slice(0, 3).join(', ');
+            alerts.push({
+                id: `monthly-projection-${currentMonthStr}`,
+                type: 'warning',
+                title: 'Upcoming Bills Exceed Monthly Limit',
+                message: `₹${monthlyBucketTotal} spent plus ₹${upcomingBillsTotal} still due (${names}) will exceed your ₹${monthlyLimit} limit.`
+            });
         } else if (monthlyBucketTotal >= monthlyLimit * 0.8) {
             alerts.push({
                 id: `monthly-warning-${currentMonthStr}`,
@@ -122,7 +137,7 @@ export const generateAlerts = (budget: BudgetState, transactions: Transaction[])
             });
         } else {
             // "Behind schedule" warning
-            // Heuristic: If (Income - Total Spent so far) < Savings Target, it's IMPOSSIBLE to hit goal (Critical)
+            // Heuristic: If (Income - Spent this month) < Savings Target, it's IMPOSSIBLE to hit goal (Critical)
             // Or: if we are late in the month and savings are low?
             // Let's implement the "Impossible" check first as it's definitive.
             // Actually, currentSavings IS (Income - TotalSpent). 
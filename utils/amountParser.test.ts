@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { extractAmount } from './amountParser';
+
+const amountOf = (text: string) => extractAmount(text)?.amount;
+
+describe('extractAmount', () => {
+  it('reads plain and grouped numbers', () => {
+    expect(amountOf('spent 200 on lunch')).toBe(200);
+    expect(amountOf('paid 1,200 for electricity')).toBe(1200);
+    expect(amountOf('deposit 1,00,000')).toBe(100000);
+    expect(amountOf('coffee 45.50')).toBe(45.5);
+  });
+
+  it('reads shorthand and Indian scales', () => {
+    expect(amountOf('2k on rent')).toBe(2000);
+    expect(amountOf('1.5 lakh deposit')).toBe(150000);
+    expect(amountOf('car 2 crore')).toBe(20000000);
+  });
+
+  it('reads spelled-out numbers in English and Hinglish', () => {
+    expect(amountOf('two hundred for chai')).toBe(200);
+    expect(amountOf('do sau ka petrol')).toBe(200);
+  });
+
+  it('tells a quantity apart from the price', () => {
+    expect(amountOf('bought 2 shirts for 800')).toBe(800);
+  });
+
+  it('multiplies quantity by unit price', () => {
+    const match = extractAmount('samosa 3 x 40');
+    expect(match).toMatchObject({ amount: 120, quantity: 3, match: '3 x 40' });
+    expect(amountOf('2 shirts at 400 each')).toBe(800);
+  });
+
+  it('prefers an amount with a currency marker', () => {
+    const match = extractAmount('2 tickets ₹500');
+    expect(match?.amount).toBe(500);
+    expect(match?.confidence).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('is less sure when numbers compete', () => {
+    expect(extractAmount('tea 20')!.confidence).toBeGreaterThan(extractAmount('bus 12 tea 20')!.confidence);
+  });
+
+  it('returns null without an amount', () => {
+    expect(extractAmount('bread and butter')).toBeNull();
+  });
+});
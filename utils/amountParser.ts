@@ -0,0 +1,214 @@
+export interface AmountMatch {
+  amount: number;
+  match: string; // exact text that produced the amount (so it can be stripped from the description)
+  index: number;
+  quantity?: number; // set when the amount is quantity x unit price ("3 x 40", "2 shirts at 400 each")
+  confidence: number; // 0..1, how unambiguous the pick was
+}
+
+interface Candidate {
+  value: number;
+  index: number;
+  end: number;
+  hasCurrency: boolean;
+}
+
+// --- Vocabulary ---
+
+const SCALE_WORDS: Record<string, number> = {
+  hundred: 100, sau: 100,
+  thousand: 1e3, hazaar: 1e3, hazar: 1e3, hajar: 1e3, k: 1e3,
+  lakh: 1e5, lakhs: 1e5, lac: 1e5, lacs: 1e5, l: 1e5,
+  crore: 1e7, crores: 1e7, cr: 1e7, karod: 1e7,
+};
+
+const ENGLISH_UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90,
+};
+
+// Hinglish words and "a"/"an" double as everyday words ("do", "das"), so they only
+// count as a number next to a scale word: "do sau", "ek hazaar", "a hundred".
+const AMBIGUOUS_UNITS: Record<string, number> = {
+  a: 1, an: 1,
+  ek: 1, do: 2, teen: 3, char: 4, chaar: 4, paanch: 5, panch: 5, chhe: 6, chhah: 6,
+  saat: 7, aath: 8, nau: 9, das: 10, gyarah: 11, barah: 12, pandrah: 15, bees: 20,
+  pachees: 25, tees: 30, chalis: 40, chaalis: 40, pachas: 50, pachaas: 50, sattar: 70,
+  assi: 80, dedh: 1.5, dhai: 2.5, dhaai: 2.5,
+};
+
+// Words after a number that do not make it a quantity ("200 for lunch", "50 rs")
+const CONNECTORS = new Set([
+  'for', 'on', 'at', 'in', 'to', 'from', 'and', 'or', 'with', 'by', 'via', 'of', 'the',
+  'rs', 'rupees', 'rupee', 'inr', 'bucks', 'only', 'each', 'per', 'apiece', 'x',
+  'spent', 'paid', 'total', 'ke', 'ka', 'ki', 'mein', 'me', 'se', 'ko', 'wala', 'wali',
+]);
+
+// Words before a number that mark it as a price
+const PRICE_MARKERS = new Set(['for', 'at', 'worth', 'cost', 'costs', 'costing', 'paid', 'spent', 'of', 'total', 'rs', 'rupees']);
+
+// --- Candidate scanning ---
+
+const DIGIT_AMOUNT = /(?<![\w.,])((?:rs\.?|inr|₹)\s*)?(\d+(?:,\d+)*(?:\.\d+)?)(?:\s*(hundred|thousand|lakhs?|lacs?|crores?|sau|hazaa?r|hajar|karod)\b|(k|l|cr|lac)\b)?(\s*(?:rupees|rupee|rs\b|inr\b|bucks\b|\/-))?(?![\w])/gi;
+
+const scanDigits = (text: string): Candidate[] => {
+  const candidates: Candidate[] = [];
+  for (const m of text.matchAll(DIGIT_AMOUNT)) {
+    const base = parseFloat(m[2].replace(/,/g, ''));
+    const scaleWord = (m[3] || m[4])?.toLowerCase();
+    const scale = scaleWord ? SCALE_WORDS[scaleWord] ?? 1 : 1;
+    candidates.push({
+      value: base * scale,
+      index: m.index!,
+      end: m.index! + m[0].length,
+      hasCurrency: Boolean(m[1] || m[5]),
+    });
+  }
+  return candidates;
+};
+
+const isNumberWord = (word: string) =>
+  word in ENGLISH_UNITS || word in AMBIGUOUS_UNITS || (word in SCALE_WORDS && word.length > 2);
+
+const evaluateWords = (words: string[]): number => {
+  let total = 0;
+  let current = 0;
+  for (const word of words) {
+    const unit = ENGLISH_UNITS[word] ?? AMBIGUOUS_UNITS[word];
+    if (unit !== undefined) {
+      current += unit;
+    } else if (SCALE_WORDS[word] === 100) {
+      current = (current || 1) * 100;
+    } else if (SCALE_WORDS[word]) {
+      total += (current || 1) * SCALE_WORDS[word];
+      current = 0;
+    }
+  }
+  return total + current;
+};
+
+const scanWords = (text: string): Candidate[] => {
+  const candidates: Candidate[] = [];
+  const tokens = Array.from(text.matchAll(/[a-z]+/gi)).map(m => ({ word: m[0].toLowerCase(), index: m.index! }));
+
+  let i = 0;
+  while (i < tokens.length) {
+    if (!isNumberWord(tokens[i].word)) {
+      i++;
+      continue;
+    }
+    // Greedily take a run of number words, allowing "and" between them ("one hundred and fifty")
+    let j = i;
+    const run: typeof tokens = [];
+    while (j < tokens.length) {
+      const { word } = tokens[j];
+      if (isNumberWord(word)) {
+        run.push(tokens[j]);
+        j++;
+      } else if (word === 'and' && run.length > 0 && j + 1 < tokens.length && isNumberWord(tokens[j + 1].word)) {
+        j++;
+      } else {
+        break;
+      }
+    }
+
+    const words = run.map(t => t.word);
+    const hasScale = words.some(w => w in SCALE_WORDS);
+    const hasAmbiguous = words.some(w => w in AMBIGUOUS_UNITS);
+    if (hasScale || !hasAmbiguous) {
+      const last = run[run.length - 1];
+      candidates.push({
+        value: evaluateWords(words),
+        index: run[0].index,
+        end: last.index + last.word.length,
+        hasCurrency: false,
+      });
+    }
+    i = j;
+  }
+  return candidates;
+};
+
+const nextWord = (text: string, end: number): string | null => {
+  const m = text.slice(end).match(/^\s*([a-z]+|\d)/i);
+  return m ? m[1].toLowerCase() : null;
+};
+
+const previousWord = (text: string, index: number): string | null => {
+  const m = text.slice(0, index).match(/([a-z]+|@|=|:)\s*$/i);
+  return m ? m[1].toLowerCase() : null;
+};
+
+// A small whole number directly followed by an item noun ("2 shirts") is a count, not a price
+const isQuantity = (text: string, c: Candidate): boolean => {
+  if (c.hasCurrency || !Number.isInteger(c.value) || c.value <= 0 || c.value >= 100) return false;
+  const after = nextWord(text, c.end);
+  return after !== null && /^[a-z]+$/.test(after) && !CONNECTORS.has(after) && !isNumberWord(after);
+};
+
+const hasPriceMarker = (text: string, c: Candidate): boolean => {
+  const before = previousWord(text, c.index);
+  return before !== null && (PRICE_MARKERS.has(before) || before === '@' || before === '=' || before === ':');
+};
+
+// Returns the "each" / "per piece" suffix after a unit price, if any
+const perUnitSuffix = (text: string, c: Candidate): string | null => {
+  const m = text.slice(c.end).match(/^\s*(?:each|apiece|per\s+(?:piece|pc|unit|item|kg|plate|person)|\/\s*(?:pc|piece|each)|ea\b)/i);
+  return m ? m[0] : null;
+};
+
+// Finds the most likely money amount in free text.
+export const extractAmount = (text: string): AmountMatch | null => {
+  // 1. Explicit multiplication: "3 x 40", "2*150", "4 × ₹25"
+  const product = text.match(/(?<![\w.,])(\d+(?:\.\d+)?)\s*(?:x|×|\*)\s*(?:rs\.?|₹)?\s*(\d+(?:,\d+)*(?:\.\d+)?)(?![\w])/i);
+  if (product && product.index !== undefined) {
+    const quantity = parseFloat(product[1]);
+    const unit = parseFloat(product[2].replace(/,/g, ''));
+    return { amount: quantity * unit, match: product[0], index: product.index, quantity, confidence: 0.9 };
+  }
+
+  const candidates = [...scanDigits(text), ...scanWords(text)]
+    .filter(c => c.value > 0)
+    .sort((a, b) => a.index - b.index);
+  if (candidates.length === 0) return null;
+
+  const toMatch = (c: Candidate, confidence: number): AmountMatch => ({
+    amount: c.value,
+    match: text.slice(c.index, c.end),
+    index: c.index,
+    confidence,
+  });
+
+  if (candidates.length === 1) return toMatch(candidates[0], candidates[0].hasCurrency ? 0.95 : 0.85);
+
+  // 2. A currency marker is the strongest signal
+  const withCurrency = candidates.find(c => c.hasCurrency);
+  const quantities = candidates.filter(c => c !== withCurrency && isQuantity(text, c));
+  const prices = candidates.filter(c => !quantities.includes(c));
+
+  // 3. Otherwise prefer a number introduced by "for"/"at"/"@", then the first non-quantity
+  const marked = prices.find(c => hasPriceMarker(text, c));
+  const price = withCurrency
+    ?? marked
+    ?? prices[0]
+    ?? candidates.reduce((max, c) => (c.value > max.value ? c : max));
+  // Competing numbers lower confidence unless something clearly marked the price
+  const confidence = withCurrency ? 0.9 : marked ? 0.75 : prices.length > 0 ? 0.55 : 0.4;
+
+  // 4. "2 shirts at 400 each" -> 800
+  const suffix = perUnitSuffix(text, price);
+  if (quantities.length > 0 && suffix) {
+    const quantity = quantities[0].value;
+    return {
+      amount: price.value * quantity,
+      match: text.slice(price.index, price.end) + suffix,
+      index: price.index,
+      quantity,
+      confidence: Math.max(confidence, 0.75),
+    };
+  }
+
+  return toMatch(price, confidence);
+};
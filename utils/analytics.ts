@@ -1,4 +1,6 @@
 import { Transaction, TransactionCategory } from '../types';
+import { spendingAmount } from './cashflow';
+import { inferSubcategory } from './tags';
 
 export interface CategoryBreakdown {
     name: string;
@@ -15,66 +17,36 @@ export interface SpendingAnalytics {
     insights: string[];
 }
 
-const KEYWORD_MAP: Record<string, string> = {
-    'zomato': 'Food Delivery',
-    'swiggy': 'Food Delivery',
-    'uber eats': 'Food Delivery',
-    'blinkit': 'Groceries',
-    'zepto': 'Groceries',
-    'bigbasket': 'Groceries',
-    'instamart': 'Groceries',
-    'dmart': 'Groceries',
-    'grocery': 'Groceries',
-    'petrol': 'Petrol / Transport',
-    'fuel': 'Petrol / Transport',
-    'uber': 'Petrol / Transport',
-    'ola': 'Petrol / Transport',
-    'rapido': 'Petrol / Transport',
-    'netflix': 'Subscriptions',
-    'spotify': 'Subscriptions',
-    'prime': 'Subscriptions',
-    'youtube': 'Subscriptions',
-};
-
 const getGranularCategory = (t: Transaction): string => {
     // 1. Personal is a top-level override
     if (t.category === 'Personal') return 'Personal Purchases';
 
-    // 2. Keyword matching for sub-categories
-    const desc = t.description.toLowerCase();
-    for (const [keyword, subCat] of Object.entries(KEYWORD_MAP)) {
-        if (desc.includes(keyword)) return subCat;
-    }
-
-    // 3. Fallback to main category with nicer formatting
-    if (t.category === 'Food') return 'Food & Dining';
-    if (t.category === 'Transport') return 'Petrol / Transport';
-    if (t.category === 'Bills') return 'Bills & Utilities';
+    // 2. The stored sub-category, else one inferred from the description (older entries have none)
+    const subcategory = t.subcategory ?? inferSubcategory(t.description);
+    if (subcategory) return subcategory;
 
+    // 3. Otherwise the category, under the name the user gave it in their registry
     return t.category;
 };
 
-export const generateAnalytics = (transactions: Transaction[]): SpendingAnalytics => {
-    const totalSpent = transactions.reduce((sum, t) => sum + t.amount, 0);
-    const categoryMap: Record<string, { amount: number; count: number }> = {};
-    const personalPurchases: Transaction[] = [];
-
+// Sums spending under each name a transaction is filed under, largest first
+const groupSpending = (
+    transactions: Transaction[],
+    namesOf: (t: Transaction) => string[],
+    totalSpent: number
+): CategoryBreakdown[] => {
+    const groups: Record<string, { amount: number; count: number }> = {};
     transactions.forEach(t => {
-        // Collect personal purchases separately for the specific section
-        if (t.category === 'Personal') {
-            personalPurchases.push(t);
-        }
-
-        const categoryName = getGranularCategory(t);
-        if (!categoryMap[categoryName]) {
-            categoryMap[categoryName] = { amount: 0, count: 0 };
-        }
-        categoryMap[categoryName].amount += t.amount;
-        categoryMap[categoryName].count += 1;
+        namesOf(t).forEach(name => {
+            if (!groups[name]) {
+                groups[name] = { amount: 0, count: 0 };
+            }
+            groups[name].amount += spendingAmount(t);
+            groups[name].count += 1;
+        });
     });
 
-    // Convert map to array and sort
-    const breakdown: CategoryBreakdown[] = Object.entries(categoryMap)
+    return Object.entries(groups)
         .map(([name, data]) => ({
             name,
             amount: data.amount,
@@ -82,6 +54,39 @@ export const generateAnalytics = (transactions: Transaction[]): SpendingAnalytic
             count: data.count
         }))
         .sort((a, b) => b.amount - a.amount);
+};
+
+export type SpendingPivot = 'category' | 'subcategory' | 'tag';
+
+export const UNTAGGED = 'Untagged';
+
+// Spending grouped by category, sub-category or tag. A transaction with several tags counts
+// towards each of them, so tag percentages can add up to more than 100.
+export const pivotSpending = (allTransactions: Transaction[], by: SpendingPivot): CategoryBreakdown[] => {
+    const transactions = allTransactions.filter(t => spendingAmount(t) !== 0);
+    const totalSpent = transactions.reduce((sum, t) => sum + spendingAmount(t), 0);
+    const namesOf = (t: Transaction): string[] => {
+        if (by === 'category') return [t.category];
+        if (by === 'subcategory') return [t.subcategory ?? inferSubcategory(t.description, t.category) ?? t.category];
+        return t.tags && t.tags.length > 0 ? t.tags.map(tag => `#${tag}`) : [UNTAGGED];
+    };
+    return groupSpending(transactions, namesOf, totalSpent);
+};
+
+export const generateAnalytics = (allTransactions: Transaction[]): SpendingAnalytics => {
+    // Only money spent (net of refunds) is analysed; income and transfers are left out
+    const transactions = allTransactions.filter(t => spendingAmount(t) !== 0);
+    const totalSpent = transactions.reduce((sum, t) => sum + spendingAmount(t), 0);
+    const personalPurchases: Transaction[] = [];
+
+    transactions.forEach(t => {
+        // Collect personal purchases separately for the specific section
+        if (t.category === 'Personal') {
+            personalPurchases.push(t);
+        }
+    });
+
+    const breakdown = groupSpending(transactions, t => [getGranularCategory(t)], totalSpent);
 
     const topCategories = breakdown.slice(0, 3);
 
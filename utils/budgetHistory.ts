@@ -0,0 +1,63 @@
+import { format } from 'date-fns';
+import { BudgetAllocations, BudgetBucket, BudgetState, BudgetVersion, CategoryDefinition, TransactionCategory } from '../types';
+import { bucketOf } from './categories';
+
+export const budgetVersionId = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Oldest first
+export const sortVersions = (versions: BudgetVersion[]): BudgetVersion[] =>
+    [...versions].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+// The version that applied on `date`: the latest one effective on or before that day.
+// Dates before the first version use it too, as that is the budget the user started out with.
+export const versionInForce = (versions: BudgetVersion[], date: Date): BudgetVersion | null => {
+    const day = budgetVersionId(date);
+    const sorted = sortVersions(versions);
+    let found = sorted[0] ?? null;
+    for (const version of sorted) {
+        if (version.effectiveFrom > day) break;
+        found = version;
+    }
+    return found;
+};
+
+// A week or month is judged by the budget in force on its last day, which is what the
+// live views showed when the period closed
+export const allocationsForPeriod = (versions: BudgetVersion[], periodEnd: Date): BudgetAllocations | null =>
+    versionInForce(versions, periodEnd)?.allocations ?? null;
+
+const sameAllocations = (a: BudgetAllocations, b: BudgetAllocations): boolean => {
+    if (a.weeklyLimit !== b.weeklyLimit || a.monthlyLimit !== b.monthlyLimit || a.savingsTarget !== b.savingsTarget) return false;
+    const names = new Set([...Object.keys(a.weeklyCategoryLimits ?? {}), ...Object.keys(b.weeklyCategoryLimits ?? {})]);
+    return [...names].every(name => (a.weeklyCategoryLimits?.[name] ?? 0) === (b.weeklyCategoryLimits?.[name] ?? 0));
+};
+
+// The version to record after the budget is saved, or null when it matches the one already in
+// force today. Effective from today, so a change applies to the running week and month.
+export const nextBudgetVersion = (versions: BudgetVersion[], budget: BudgetState, now: Date = new Date()): BudgetVersion | null => {
+    if (!budget.isSet) return null;
+    const current = versionInForce(versions, now);
+    if (current && current.monthlyIncome === budget.monthlyIncome && sameAllocations(current.allocations, budget.allocations)) {
+        return null;
+    }
+    const day = budgetVersionId(now);
+    return {
+        id: day,
+        effectiveFrom: day,
+        monthlyIncome: budget.monthlyIncome,
+        allocations: budget.allocations,
+        createdAt: now.getTime()
+    };
+};
+
+// Archived spending per budget bucket, from a period's category breakdown
+export const bucketTotals = (
+    breakdown: Partial<Record<TransactionCategory, number>>,
+    categories: CategoryDefinition[]
+): Record<BudgetBucket, number> => {
+    const totals: Record<BudgetBucket, number> = { Weekly: 0, Monthly: 0, Savings: 0 };
+    Object.entries(breakdown).forEach(([name, amount]) => {
+        totals[bucketOf(name, categories)] += amount ?? 0;
+    });
+    return totals;
+};
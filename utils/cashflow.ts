@@ -0,0 +1,79 @@
+import { BudgetState, CategoryDefinition, Transaction, TransactionDirection } from '../types';
+import { bucketOf } from './categories';
+import { DEFAULT_PERIOD_SETTINGS, PeriodSettings, isInPeriod } from './periods';
+
+export interface CashFlow {
+    income: number;
+    expenses: number; // gross, excluding money put aside in Savings-bucket categories
+    refunds: number;
+    saved: number; // expenses in categories of the Savings bucket
+    transfers: number; // between own accounts; never counted as spending or income
+    netSpent: number; // expenses - refunds
+    balance: number; // income - netSpent - saved
+}
+
+export interface PeriodCashFlow extends CashFlow {
+    incomeIsPlanned: boolean; // no income recorded yet, so the planned monthly income is used
+    unspent: number; // income - netSpent: what is left over or already set aside
+}
+
+// Entries recorded before income tracking have no direction and are expenses
+export const directionOf = (t: Transaction): TransactionDirection => t.direction ?? 'expense';
+
+// The user's part of a transaction: for a bill split with friends, only their share
+export const ownAmount = (t: Transaction): number => t.split ? t.split.myShare : t.amount;
+
+// What a transaction adds to spending: refunds give money back, income and transfers don't count
+export const spendingAmount = (t: Transaction): number => {
+    switch (directionOf(t)) {
+        case 'expense': return ownAmount(t);
+        case 'refund': return -t.amount;
+        default: return 0;
+    }
+};
+
+// Money put aside rather than spent: an expense filed under a Savings-bucket category
+export const isSaving = (t: Transaction, categories: CategoryDefinition[]): boolean =>
+    bucketOf(t.category, categories) === 'Savings';
+
+// Same budgeting month: the calendar month, or the pay cycle when one is set
+export const isInMonth = (t: Transaction, date: Date, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): boolean =>
+    isInPeriod(t, date, settings);
+
+export const summarizeCashFlow = (transactions: Transaction[], categories: CategoryDefinition[]): CashFlow => {
+    const flow = { income: 0, expenses: 0, refunds: 0, saved: 0, transfers: 0 };
+    transactions.forEach(t => {
+        switch (directionOf(t)) {
+            case 'income': flow.income += t.amount; break;
+            case 'refund': flow.refunds += t.amount; break;
+            case 'transfer': flow.transfers += t.amount; break;
+            case 'expense':
+                if (isSaving(t, categories)) flow.saved += ownAmount(t);
+                else flow.expenses += ownAmount(t);
+                break;
+        }
+    });
+    const netSpent = flow.expenses - flow.refunds;
+    return { ...flow, netSpent, balance: flow.income - netSpent - flow.saved };
+};
+
+// Cash flow of the budgeting month containing `date`. Until income is recorded for the
+// month, the planned monthly income from the budget stands in for it.
+export const monthCashFlow = (
+    transactions: Transaction[],
+    budget: BudgetState,
+    categories: CategoryDefinition[],
+    date: Date = new Date(),
+    settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS
+): PeriodCashFlow => {
+    const flow = summarizeCashFlow(transactions.filter(t => isInMonth(t, date, settings)), categories);
+    const incomeIsPlanned = flow.income === 0;
+    const income = incomeIsPlanned ? budget.monthlyIncome : flow.income;
+    return {
+        ...flow,
+        income,
+        incomeIsPlanned,
+        balance: income - flow.netSpent - flow.saved,
+        unspent: income - flow.netSpent,
+    };
+};
@@ -0,0 +1,152 @@
+import { BudgetBucket, BudgetState, CategoryDefinition, CategoryRule, RecurringTransaction, Transaction, TransactionCategory } from '../types';
+
+// Income and transfers are filed here; it always exists
+export const UNCATEGORISED: TransactionCategory = 'Other';
+
+// Where expenses go when nothing better is known
+export const FALLBACK_CATEGORY: TransactionCategory = 'Miscellaneous';
+
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+    {
+        name: 'Groceries', emoji: '🥦', color: '#10b981', bucket: 'Weekly',
+        keywords: ['groceries', 'grocery', 'vegetables', 'fruits', 'milk', 'bread', 'market', 'supermarket', 'food', 'ration'],
+    },
+    {
+        name: 'Outings', emoji: '🎉', color: '#f59e0b', bucket: 'Weekly',
+        keywords: ['outings', 'outing', 'restaurant', 'cafe', 'coffee', 'tea', 'dinner', 'lunch', 'breakfast', 'movie', 'cinema', 'concert', 'uber', 'ola', 'cab', 'taxi', 'hotel', 'trip', 'party', 'fun'],
+    },
+    {
+        name: 'BodyCare', emoji: '🧴', color: '#ec4899', bucket: 'Weekly',
+        keywords: ['body care', 'bodycare', 'personal care', 'salon', 'spa', 'haircut', 'gym', 'medicine', 'pharmacy', 'doctor', 'hospital', 'cream', 'soap', 'shampoo', 'conditioner', 'lotion', 'face wash', 'skincare', 'makeup', 'cosmetics', 'medical', 'health', 'toothbrush', 'paste'],
+    },
+    {
+        name: 'Orders', emoji: '📦', color: '#8b5cf6', bucket: 'Weekly',
+        keywords: ['orders', 'order', 'amazon', 'flipkart', 'meesho', 'myntra', 'zomato', 'swiggy', 'blinkit', 'zepto', 'online', 'delivery'],
+    },
+    {
+        name: 'Petrol', emoji: '⛽', color: '#3b82f6', bucket: 'Weekly',
+        keywords: ['petrol', 'diesel', 'fuel', 'gas', 'shell', 'hp', 'station', 'pump'],
+    },
+    {
+        name: 'Miscellaneous', emoji: '🧩', color: '#6366f1', bucket: 'Weekly',
+        keywords: ['miscellaneous', 'misc', 'gift', 'donation', 'other', 'random'],
+    },
+    {
+        name: 'Bills', emoji: '⚡', color: '#06b6d4', bucket: 'Monthly',
+        keywords: ['bills', 'bill', 'electricity', 'rent', 'wifi', 'internet', 'recharge', 'subscription', 'mobile', 'water', 'fee', 'utility'],
+    },
+    {
+        name: 'Savings', emoji: '🏦', color: '#14b8a6', bucket: 'Savings',
+        keywords: ['save', 'savings', 'invest', 'mutual fund', 'sip', 'deposit'],
+    },
+    {
+        name: 'Other', emoji: '📝', color: '#9ca3af', bucket: 'Weekly', keywords: [], system: true,
+    },
+];
+
+const UNKNOWN_EMOJI = '📝';
+const UNKNOWN_COLOR = '#9ca3af';
+
+export const findCategory = (name: TransactionCategory | null | undefined, categories: CategoryDefinition[]): CategoryDefinition | undefined =>
+    categories.find(c => c.name === name);
+
+export const activeCategories = (categories: CategoryDefinition[]): CategoryDefinition[] =>
+    categories.filter(c => !c.archived);
+
+// Names to offer in a picker. An archived current value stays selectable so editing doesn't silently change it.
+export const categoryOptions = (categories: CategoryDefinition[], current?: TransactionCategory | null): TransactionCategory[] => {
+    const names = activeCategories(categories).map(c => c.name);
+    return current && !names.includes(current) ? [...names, current] : names;
+};
+
+// Unknown names (e.g. from an old backup) count as weekly spending, as "Other" always did
+export const bucketOf = (name: TransactionCategory, categories: CategoryDefinition[]): BudgetBucket =>
+    findCategory(name, categories)?.bucket ?? 'Weekly';
+
+export const categoryEmoji = (name: TransactionCategory | null | undefined, categories: CategoryDefinition[]): string =>
+    findCategory(name, categories)?.emoji ?? UNKNOWN_EMOJI;
+
+export const categoryColor = (name: TransactionCategory | null | undefined, categories: CategoryDefinition[]): string =>
+    findCategory(name, categories)?.color ?? UNKNOWN_COLOR;
+
+export const fallbackCategory = (categories: CategoryDefinition[]): TransactionCategory =>
+    activeCategories(categories).some(c => c.name === FALLBACK_CATEGORY) ? FALLBACK_CATEGORY : UNCATEGORISED;
+
+// Categories that get their own weekly limit
+export const weeklyLimitCategories = (categories: CategoryDefinition[]): CategoryDefinition[] =>
+    activeCategories(categories).filter(c => c.bucket === 'Weekly' && !c.system);
+
+export const createDefaultCategoryLimits = (categories: CategoryDefinition[] = DEFAULT_CATEGORIES): Record<TransactionCategory, number> =>
+    Object.fromEntries(weeklyLimitCategories(categories).map(c => [c.name, 0]));
+
+// Stored lists may predate a built-in category (or lose it to a bad edit); the system one is always put back
+export const withSystemCategories = (categories: CategoryDefinition[]): CategoryDefinition[] => {
+    const missing = DEFAULT_CATEGORIES.filter(d => d.system && !categories.some(c => c.name === d.name));
+    return [...categories, ...missing];
+};
+
+export const normalizeCategoryName = (name: string): string => name.replace(/\s+/g, ' ').trim();
+
+// Null when `name` can be used for a new category (or as the new name of `except`)
+export const validateCategoryName = (name: string, categories: CategoryDefinition[], except?: TransactionCategory): string | null => {
+    const normalized = normalizeCategoryName(name);
+    if (!normalized) return 'Name is required';
+    if (normalized.length > 30) return 'Name is too long';
+    if (/[<>[\]]/.test(normalized)) return 'Name cannot contain < > [ ]';
+    const clash = categories.find(c => c.name.toLowerCase() === normalized.toLowerCase() && c.name !== except);
+    return clash ? `"${clash.name}" already exists` : null;
+};
+
+// --- Rename / merge migration ---
+
+export type CategoryRemapMode = 'rename' | 'merge';
+
+export interface CategoryData {
+    categories: CategoryDefinition[];
+    transactions: Transaction[];
+    rules: CategoryRule[];
+    recurring: RecurringTransaction[];
+    budget: BudgetState;
+}
+
+// Only the records that changed, so callers write nothing else
+export type CategoryRemap = CategoryData;
+
+// Renaming gives `from` the new name; merging folds `from` (and its keywords and weekly limit) into
+// the existing `to`. Either way everything filed under `from` is re-filed under `to`.
+export const remapCategory = (
+    data: CategoryData,
+    from: TransactionCategory,
+    to: TransactionCategory,
+    mode: CategoryRemapMode,
+    now: number = Date.now()
+): CategoryRemap => {
+    const source = findCategory(from, data.categories);
+    const target = findCategory(to, data.categories);
+    if (!source) throw new Error(`Unknown category "${from}"`);
+    if (source.system) throw new Error(`"${from}" cannot be renamed or merged`);
+    if (mode === 'merge' && !target) throw new Error(`Unknown category "${to}"`);
+    if (mode === 'rename' && target) throw new Error(`"${to}" already exists`);
+
+    const categories = mode === 'rename'
+        ? data.categories.map(c => (c.name === from ? { ...c, name: to } : c))
+        : data.categories
+            .filter(c => c.name !== from)
+            .map(c => (c.name === to ? { ...c, keywords: Array.from(new Set([...c.keywords, ...source.keywords])) } : c));
+
+    const transactions = data.transactions
+        .filter(t => t.category === from)
+        .map(t => ({ ...t, category: to, updatedAt: now }));
+    const rules = data.rules
+        .filter(r => r.category === from)
+        .map(r => ({ ...r, category: to, updatedAt: now }));
+    const recurring = data.recurring
+        .filter(r => r.category === from)
+        .map(r => ({ ...r, category: to, updatedAt: now }));
+
+    const { [from]: movedLimit, ...limits } = data.budget.allocations.weeklyCategoryLimits;
+    if (movedLimit !== undefined) limits[to] = (limits[to] ?? 0) + movedLimit;
+    const budget = { ...data.budget, allocations: { ...data.budget.allocations, weeklyCategoryLimits: limits } };
+
+    return { categories, transactions, rules, recurring, budget };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { extractDate, stripDatePhrase } from './dateParser';
+
+// Friday 14 March 2025, evening
+const NOW = new Date(2025, 2, 14, 18, 30);
+
+const dayOf = (text: string) => {
+  const match = extractDate(text, NOW);
+  return match ? format(match.date, 'yyyy-MM-dd') : null;
+};
+
+describe('extractDate', () => {
+  it('resolves relative days', () => {
+    expect(dayOf('chai 20 yesterday')).toBe('2025-03-13');
+    expect(dayOf('chai 20 day before yesterday')).toBe('2025-03-12');
+    expect(dayOf('chai 20 today')).toBe('2025-03-14');
+    expect(dayOf('movie 500 3 days ago')).toBe('2025-03-11');
+    expect(dayOf('shoes 2000 a week ago')).toBe('2025-03-07');
+    expect(dayOf('groceries 900 last week')).toBe('2025-03-07');
+  });
+
+  it('resolves weekdays', () => {
+    // "last friday" is strictly before today; "on friday" may be today
+    expect(dayOf('dinner 800 last friday')).toBe('2025-03-07');
+    expect(dayOf('dinner 800 on friday')).toBe('2025-03-14');
+    expect(dayOf('dinner 800 on mon')).toBe('2025-03-10');
+  });
+
+  it('resolves a day of the month to the latest one not ahead', () => {
+    expect(dayOf('rent 15000 on 12th')).toBe('2025-03-12');
+    expect(dayOf('rent 15000 on the 20th')).toBe('2025-02-20');
+  });
+
+  it('reads numeric dates day first', () => {
+    expect(dayOf('petrol 1500 on 12/03')).toBe('2025-03-12');
+    expect(dayOf('petrol 1500 12-03-2024')).toBe('2024-03-12');
+    expect(dayOf('petrol 1500 12.03.25')).toBe('2025-03-12');
+    // Without a year, a date still ahead is last year's
+    expect(dayOf('petrol 1500 20/03')).toBe('2024-03-20');
+  });
+
+  it('reads named months', () => {
+    expect(dayOf('gift 999 12th march')).toBe('2025-03-12');
+    expect(dayOf('gift 999 mar 2nd 2024')).toBe('2024-03-02');
+  });
+
+  it('ignores amounts and impossible dates', () => {
+    expect(extractDate('1.5 lakh deposit', NOW)).toBeNull();
+    expect(extractDate('paid 31/02', NOW)).toBeNull();
+    expect(extractDate('lunch 200', NOW)).toBeNull();
+  });
+
+  it('keeps the time of day', () => {
+    expect(format(extractDate('yesterday', NOW)!.date, 'HH:mm')).toBe('18:30');
+  });
+});
+
+describe('stripDatePhrase', () => {
+  it('removes the matched phrase from the description', () => {
+    const text = 'petrol 1500 last friday at shell';
+    expect(stripDatePhrase(text, extractDate(text, NOW)!)).toBe('petrol 1500 at shell');
+  });
+});
@@ -0,0 +1,160 @@
+import { subDays, subWeeks, subMonths, subYears, previousDay, isAfter, isValid, Day } from 'date-fns';
+
+export interface DateMatch {
+  date: Date;
+  match: string; // exact text that was recognised (so it can be stripped from the description)
+  index: number;
+}
+
+const WEEKDAYS: Record<string, Day> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thur: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2, apr: 3, april: 3,
+  may: 4, jun: 5, june: 5, jul: 6, july: 6, aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8, oct: 9, october: 9, nov: 10, november: 10, dec: 11, december: 11,
+};
+
+const SMALL_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS).sort((a, b) => b.length - a.length).join('|');
+// Bare weekday names only count when spelled out ("sat", "mon" are too common as words)
+const FULL_WEEKDAY_PATTERN = Object.keys(WEEKDAYS).filter(d => d.endsWith('day')).join('|');
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+
+// Sets the calendar date on a copy of `now`, keeping the time of day (like the "yesterday" logic always did)
+const withCalendarDate = (now: Date, year: number, month: number, day: number): Date | null => {
+  const date = new Date(now);
+  date.setFullYear(year, month, day);
+  // Reject overflow such as 31/02
+  if (!isValid(date) || date.getMonth() !== ((month % 12) + 12) % 12 || date.getDate() !== day) return null;
+  return date;
+};
+
+const expandYear = (raw: string | undefined): number | null => {
+  if (!raw) return null;
+  const year = parseInt(raw, 10);
+  return raw.length === 2 ? 2000 + year : year;
+};
+
+type Resolver = (m: RegExpMatchArray, now: Date) => Date | null;
+
+// Ordered most specific first: the first rule that matches wins.
+const RULES: Array<{ pattern: RegExp; resolve: Resolver }> = [
+  {
+    pattern: /\bday before yesterday\b/i,
+    resolve: (_, now) => subDays(now, 2),
+  },
+  {
+    pattern: /\byesterday\b/i,
+    resolve: (_, now) => subDays(now, 1),
+  },
+  {
+    pattern: /\btoday\b/i,
+    resolve: (_, now) => new Date(now),
+  },
+  {
+    // "3 days ago", "a week ago", "two months ago"
+    pattern: /\b(\d{1,3}|a|an|one|two|three|four|five|six|seven|eight|nine|ten)\s+(day|week|month|year)s?\s+ago\b/i,
+    resolve: (m, now) => {
+      const raw = m[1].toLowerCase();
+      const n = SMALL_NUMBERS[raw] ?? parseInt(raw, 10);
+      switch (m[2].toLowerCase()) {
+        case 'day': return subDays(now, n);
+        case 'week': return subWeeks(now, n);
+        case 'month': return subMonths(now, n);
+        default: return subYears(now, n);
+      }
+    },
+  },
+  {
+    // "last friday" = the most recent Friday strictly before today
+    pattern: new RegExp(`\\blast\\s+(${WEEKDAY_PATTERN})\\b`, 'i'),
+    resolve: (m, now) => previousDay(now, WEEKDAYS[m[1].toLowerCase()]),
+  },
+  {
+    pattern: /\blast\s+week\b/i,
+    resolve: (_, now) => subWeeks(now, 1),
+  },
+  {
+    // "12/03", "12-03-2025", "12.03.25" (dots need a year so "1.5" stays an amount). Day first, Indian style.
+    pattern: /(?<![\d,.])(?:on\s+)?(\d{1,2})(?:[/-](\d{1,2})(?:[/-](\d{2}|\d{4}))?|\.(\d{1,2})\.(\d{2}|\d{4}))(?![\d,.]*\d)/i,
+    resolve: (m, now) => {
+      const day = parseInt(m[1], 10);
+      const month = parseInt(m[2] ?? m[4], 10) - 1;
+      const explicitYear = expandYear(m[3] ?? m[5]);
+      if (month < 0 || month > 11) return null;
+      const date = withCalendarDate(now, explicitYear ?? now.getFullYear(), month, day);
+      if (!date) return null;
+      // Without a year, a date in the future means last year's
+      return explicitYear === null && isAfter(date, now) ? subYears(date, 1) : date;
+    },
+  },
+  {
+    // "12th march", "12 mar 2025"
+    pattern: new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+of)?\\s+(${MONTH_PATTERN})\\b(?:\\s+(\\d{4}))?`, 'i'),
+    resolve: (m, now) => {
+      const explicitYear = expandYear(m[3]);
+      const date = withCalendarDate(now, explicitYear ?? now.getFullYear(), MONTHS[m[2].toLowerCase()], parseInt(m[1], 10));
+      if (!date) return null;
+      return explicitYear === null && isAfter(date, now) ? subYears(date, 1) : date;
+    },
+  },
+  {
+    // "march 12", "mar 12th 2025"
+    pattern: new RegExp(`\\b(?:on\\s+)?(${MONTH_PATTERN})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`, 'i'),
+    resolve: (m, now) => {
+      const explicitYear = expandYear(m[3]);
+      const date = withCalendarDate(now, explicitYear ?? now.getFullYear(), MONTHS[m[1].toLowerCase()], parseInt(m[2], 10));
+      if (!date) return null;
+      return explicitYear === null && isAfter(date, now) ? subYears(date, 1) : date;
+    },
+  },
+  {
+    // "on 12th", "on the 3rd", "12th" -> that day of this month (or last month if it is still ahead)
+    pattern: /\b(?:on\s+(?:the\s+)?)?(\d{1,2})(?:st|nd|rd|th)\b|\bon\s+the\s+(\d{1,2})\b/i,
+    resolve: (m, now) => {
+      const day = parseInt(m[1] ?? m[2], 10);
+      const date = withCalendarDate(now, now.getFullYear(), now.getMonth(), day);
+      if (date && !isAfter(date, now)) return date;
+      const lastMonth = subMonths(now, 1);
+      return withCalendarDate(now, lastMonth.getFullYear(), lastMonth.getMonth(), day);
+    },
+  },
+  {
+    // "on friday", "on fri", "friday" -> most recent such day, today included
+    pattern: new RegExp(`\\bon\\s+(?:this\\s+)?(${WEEKDAY_PATTERN})\\b|\\b(${FULL_WEEKDAY_PATTERN})\\b`, 'i'),
+    resolve: (m, now) => {
+      const target = WEEKDAYS[(m[1] ?? m[2]).toLowerCase()];
+      return now.getDay() === target ? new Date(now) : previousDay(now, target);
+    },
+  },
+];
+
+// Finds the first date phrase in `text` and resolves it relative to `now`.
+export const extractDate = (text: string, now: Date = new Date()): DateMatch | null => {
+  for (const rule of RULES) {
+    const m = text.match(rule.pattern);
+    if (!m || m.index === undefined) continue;
+    const date = rule.resolve(m, now);
+    if (date && isValid(date)) {
+      return { date, match: m[0], index: m.index };
+    }
+  }
+  return null;
+};
+
+// Removes a matched date phrase and tidies the surrounding whitespace.
+export const stripDatePhrase = (text: string, match: DateMatch): string =>
+  (text.slice(0, match.index) + ' ' + text.slice(match.index + match.match.length))
+    .replace(/\s{2,}/g, ' ')
+    .trim();
@@ -0,0 +1,212 @@
+import { SplitMethod, SplitShare, Transaction, TransactionSplit } from '../types';
+import { UNCATEGORISED } from './categories';
+import { directionOf } from './cashflow';
+
+// Stands in for friends the user did not name ("split with 3"); they can be renamed by editing the split
+export const UNNAMED_FRIENDS = 'Friends';
+
+export const SPLIT_METHOD_LABELS: Record<SplitMethod, string> = {
+    equal: 'Equally',
+    exact: 'Exact amounts',
+    percentage: 'Percentages',
+};
+
+// A friend as entered before the split is worked out: `value` is an amount (exact) or a percent
+export interface SplitInput {
+    name: string;
+    value?: number;
+}
+
+export interface FriendBalance {
+    name: string;
+    balance: number; // positive: the friend owes the user; negative: the user owes the friend
+    transactions: Transaction[]; // splits and settlements with this friend, newest first
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const friendKey = (name: string) => name.trim().toLowerCase();
+
+// Works out each friend's share; the user's share is whatever is left of the bill.
+// Throws when the friends' shares come to more than the bill.
+export const buildSplit = (
+    amount: number,
+    method: SplitMethod,
+    friends: SplitInput[],
+    paidBy: string | null = null
+): TransactionSplit => {
+    const named = friends.filter(f => f.name.trim());
+    if (named.length === 0) throw new Error('Add at least one friend to split with');
+
+    const shares: SplitShare[] = named.map(f => {
+        const name = f.name.trim();
+        if (method === 'equal') return { name, amount: round(amount / (named.length + 1)) };
+        if (f.value === undefined || f.value < 0) throw new Error(`Enter ${method === 'exact' ? 'an amount' : 'a percentage'} for ${name}`);
+        if (method === 'exact') return { name, amount: round(f.value) };
+        return { name, amount: round(amount * f.value / 100), percent: f.value };
+    });
+
+    const friendsTotal = round(shares.reduce((sum, s) => sum + s.amount, 0));
+    if (friendsTotal > amount) throw new Error(`Friends' shares (₹${friendsTotal}) are more than the bill (₹${amount})`);
+
+    const payer = paidBy?.trim() ? shares.find(s => friendKey(s.name) === friendKey(paidBy))?.name ?? paidBy.trim() : null;
+    return { method, paidBy: payer, myShare: round(amount - friendsTotal), friends: shares };
+};
+
+// "Rahul, Priya" (equal), "Rahul 600, Priya 400" (exact) or "Rahul 30%, Priya 30%" (percentage)
+export const parseSplitInputs = (text: string): { method: SplitMethod; friends: SplitInput[] } => {
+    const friends = text.split(',')
+        .map(part => part.trim())
+        .filter(Boolean)
+        .map(part => {
+            const match = part.match(/^(.*?)\s*(\d+(?:\.\d+)?)\s*(%?)$/);
+            return match && match[1]
+                ? { name: match[1].trim(), value: parseFloat(match[2]), percent: match[3] === '%' }
+                : { name: part, percent: false };
+        });
+    const method: SplitMethod = friends.some(f => f.percent) ? 'percentage' : friends.some(f => 'value' in f) ? 'exact' : 'equal';
+    return { method, friends: friends.map(({ percent: _percent, ...f }) => f) };
+};
+
+// The reverse of parseSplitInputs, for editing a stored split
+export const formatSplitInputs = (split: TransactionSplit): string =>
+    split.friends
+        .map(f => {
+            if (split.method === 'equal') return f.name;
+            return split.method === 'percentage' && f.percent !== undefined ? `${f.name} ${f.percent}%` : `${f.name} ${f.amount}`;
+        })
+        .join(', ');
+
+// --- Parser phrases ---
+
+const COUNT_WORDS: Record<string, number> = { two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 };
+
+const countOf = (word: string): number => COUNT_WORDS[word.toLowerCase()] ?? parseInt(word, 10);
+
+const COUNT = '(\\d{1,2}|two|three|four|five|six|seven|eight|nine|ten)';
+const SPLIT_WAYS = new RegExp(`\\bsplit\\s+${COUNT}\\s+ways\\b`, 'i');
+const SPLIT_COUNT = new RegExp(`\\bsplit\\s+(?:with|between|among|b/w)\\s+${COUNT}(?:\\s+(?:friends|people|others|of us))?\\b`, 'i');
+const SPLIT_NAMES = /\bsplit\s+with\s+([a-z]+(?:(?:\s*,\s*|\s+and\s+|\s*&\s*)[a-z]+)*)/i;
+const MY_SHARE = /\bmy\s+(?:share|part|cut)\s*(?:is|was|=|:)?\s*(?:rs\.?|₹|inr)?\s*(\d+(?:\.\d+)?)/i;
+const PAID_BY = /\bpaid\s+by\s+([a-z]+)\b/i;
+
+const NOT_NAMES = new Set(['me', 'friends', 'people', 'others', 'everyone', 'all', 'us', 'them', 'team']);
+
+const capitalise = (name: string) => name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
+
+// What the input said about sharing the bill, before the amount is known
+export interface SplitPhrase {
+    friends: string[]; // names mentioned; may be empty
+    people?: number; // everyone sharing, the user included
+    myShare?: number;
+    paidBy: string | null;
+}
+
+// Finds "split with 3", "split 4 ways", "split with rahul and priya", "my share 600" and
+// "paid by rahul", and returns the text without them so they are not read as the amount or
+// description. "split with N" means N others besides the user; "split N ways" means N in all.
+export const extractSplitPhrase = (text: string): { phrase: SplitPhrase; text: string } | null => {
+    const ways = text.match(SPLIT_WAYS);
+    const count = ways ? null : text.match(SPLIT_COUNT);
+    const names = ways || count ? null : text.match(SPLIT_NAMES);
+    const myShare = text.match(MY_SHARE);
+    const paidBy = text.match(PAID_BY);
+    if (!ways && !count && !names && !myShare) return null;
+
+    let stripped = text;
+    [ways, count, names, myShare, paidBy].forEach(match => {
+        if (match) stripped = stripped.replace(match[0], ' ');
+    });
+
+    const friends = names
+        ? names[1].split(/\s*,\s*|\s+and\s+|\s*&\s*/).filter(n => !NOT_NAMES.has(n.toLowerCase())).map(capitalise)
+        : [];
+    const payer = paidBy && !NOT_NAMES.has(paidBy[1].toLowerCase()) ? capitalise(paidBy[1]) : null;
+    if (payer && !friends.some(n => friendKey(n) === friendKey(payer))) friends.push(payer);
+    const people = ways ? countOf(ways[1]) : count ? countOf(count[1]) + 1 : names ? friends.length + 1 : undefined;
+
+    return {
+        phrase: {
+            friends,
+            ...(people !== undefined ? { people } : {}),
+            ...(myShare ? { myShare: parseFloat(myShare[1]) } : {}),
+            paidBy: payer,
+        },
+        text: stripped.replace(/\s+([,;])/g, '$1').replace(/[\s,;]+$/, '').replace(/\s{2,}/g, ' ').trim(),
+    };
+};
+
+// The split of `amount` described by a phrase, or null when it doesn't add up
+export const resolveSplit = (amount: number, phrase: SplitPhrase): TransactionSplit | null => {
+    const friends = phrase.friends.length > 0 ? phrase.friends : [UNNAMED_FRIENDS];
+    try {
+        if (phrase.myShare !== undefined) {
+            // The rest of the bill is divided evenly between the friends
+            const each = (amount - phrase.myShare) / friends.length;
+            return buildSplit(amount, 'exact', friends.map(name => ({ name, value: each })), phrase.paidBy);
+        }
+        const people = phrase.people ?? friends.length + 1;
+        if (people < 2) return null;
+        if (phrase.friends.length === people - 1) {
+            return buildSplit(amount, 'equal', friends.map(name => ({ name })), phrase.paidBy);
+        }
+        // Unnamed friends are kept together as one entry owing all their shares
+        return buildSplit(amount, 'exact', [{ name: UNNAMED_FRIENDS, value: amount * (people - 1) / people }], phrase.paidBy);
+    } catch {
+        return null;
+    }
+};
+
+// --- Ledger ---
+
+// Running balance with every friend from splits and settlements, largest amounts first.
+// A split the user paid puts each friend in debt for their share; a split a friend paid
+// puts the user in debt to that friend for their own share.
+export const friendBalances = (transactions: Transaction[]): FriendBalance[] => {
+    const balances = new Map<string, FriendBalance>();
+    const entry = (name: string) => {
+        const key = friendKey(name);
+        if (!balances.has(key)) balances.set(key, { name: name.trim(), balance: 0, transactions: [] });
+        return balances.get(key)!;
+    };
+    const add = (name: string, amount: number, t: Transaction) => {
+        const friend = entry(name);
+        friend.balance = round(friend.balance + amount);
+        if (!friend.transactions.includes(t)) friend.transactions.push(t);
+    };
+
+    [...transactions].sort((a, b) => b.date.localeCompare(a.date)).forEach(t => {
+        if (t.settlement) {
+            add(t.settlement.friend, t.settlement.received ? -t.amount : t.amount, t);
+            return;
+        }
+        if (!t.split || directionOf(t) !== 'expense') return;
+        if (t.split.paidBy === null) {
+            t.split.friends.forEach(f => add(f.name, f.amount, t));
+        } else {
+            add(t.split.paidBy, -t.split.myShare, t);
+        }
+    });
+
+    return Array.from(balances.values()).sort((a, b) => Math.abs(b.balance) - Math.abs(a.balance));
+};
+
+// A transfer recording that the balance with a friend was paid off (in full unless `amount` is given).
+// It moves money but is neither spending nor income.
+export const buildSettlement = (
+    friend: FriendBalance,
+    amount: number = Math.abs(friend.balance),
+    now: Date = new Date()
+): Transaction => {
+    const received = friend.balance > 0;
+    return {
+        id: crypto.randomUUID(), // settling up with several friends records them in the same millisecond
+        amount: round(amount),
+        direction: 'transfer',
+        category: UNCATEGORISED,
+        description: received ? `${friend.name} settled up` : `Settled up with ${friend.name}`,
+        date: now.toISOString(),
+        timestamp: now.getTime(),
+        settlement: { friend: friend.name, received },
+    };
+};
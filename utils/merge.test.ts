@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedExpense } from '../types';
+import { LOW_CONFIDENCE, lowConfidenceFields, mergeParsedExpenses } from './merge';
+
+const TODAY = new Date(2025, 2, 14, 12, 0);
+const YESTERDAY = new Date(2025, 2, 13, 12, 0);
+
+const regexItem = (overrides: Partial<ParsedExpense> = {}): ParsedExpense => ({
+  amount: 200,
+  category: 'Outings',
+  description: 'Lunch',
+  date: TODAY,
+  source: 'regex',
+  fields: {
+    amount: { source: 'regex', confidence: 0.85 },
+    category: { source: 'regex', confidence: 0.5 },
+    date: { source: 'regex', confidence: 0.5 },
+  },
+  ...overrides,
+});
+
+const aiItem = (overrides: Partial<ParsedExpense> = {}): ParsedExpense => ({
+  amount: 200,
+  category: 'Outings',
+  description: 'Lunch',
+  date: TODAY,
+  source: 'ai',
+  fields: {
+    amount: { source: 'ai', confidence: 0.8 },
+    category: { source: 'ai', confidence: 0.8 },
+    date: { source: 'ai', confidence: 0.7 },
+  },
+  ...overrides,
+});
+
+describe('mergeParsedExpenses', () => {
+  it('raises confidence when both parsers agree', () => {
+    const [merged] = mergeParsedExpenses([regexItem()], [aiItem()]);
+    expect(merged.amount).toBe(200);
+    expect(merged.fields?.amount?.confidence).toBe(0.95);
+    expect(merged.fields?.category?.confidence).toBe(0.9);
+    expect(lowConfidenceFields(merged)).toEqual([]);
+  });
+
+  it('keeps the regex amount when the AI is wildly off, and asks to confirm it', () => {
+    const [merged] = mergeParsedExpenses([regexItem()], [aiItem({ amount: 2000 })]);
+    expect(merged.amount).toBe(200);
+    expect(merged.fields?.amount?.source).toBe('regex');
+    expect(lowConfidenceFields(merged)).toContain('amount');
+  });
+
+  it('flags a small disagreement and keeps the surer reading', () => {
+    const [merged] = mergeParsedExpenses([regexItem({ fields: { amount: { source: 'regex', confidence: 0.55 } } })], [aiItem({ amount: 250 })]);
+    expect(merged.amount).toBe(250);
+    expect(merged.fields?.amount).toEqual({ source: 'ai', confidence: LOW_CONFIDENCE - 0.05 });
+  });
+
+  it('prefers a date phrase the regex parser found', () => {
+    const regex = regexItem({ date: YESTERDAY, fields: { date: { source: 'regex', confidence: 0.9 } } });
+    const [merged] = mergeParsedExpenses([regex], [aiItem()]);
+    expect(merged.date).toBe(YESTERDAY);
+    expect(merged.fields?.date?.source).toBe('regex');
+  });
+
+  it('keeps payment hints and tags from the regex parser', () => {
+    const [merged] = mergeParsedExpenses(
+      [regexItem({ paymentMethod: 'upi', tags: ['office'] })],
+      [aiItem({ tags: ['lunch'] })]
+    );
+    expect(merged.paymentMethod).toBe('upi');
+    expect(merged.tags).toEqual(['office', 'lunch']);
+  });
+
+  it('pairs items by amount when the parsers found different counts', () => {
+    const merged = mergeParsedExpenses(
+      [regexItem({ amount: 60, description: 'Milk' }), regexItem({ amount: 40, description: 'Bread' })],
+      [aiItem({ amount: 40, description: 'Bread', category: 'Groceries' })]
+    );
+    expect(merged).toHaveLength(1);
+    expect(merged[0].fields?.amount?.confidence).toBe(0.95);
+  });
+
+  it('puts rejected AI items last', () => {
+    const rejected = aiItem({ amount: null, rejectedReason: 'No amount' });
+    const merged = mergeParsedExpenses([regexItem()], [rejected, aiItem()]);
+    expect(merged.map(item => item.rejectedReason)).toEqual([undefined, 'No amount']);
+  });
+});
+
+describe('lowConfidenceFields', () => {
+  it('skips fields the user confirmed', () => {
+    const item = aiItem({ fields: { category: { source: 'ai', confidence: 0.3 }, date: { source: 'ai', confidence: 0.3, confirmed: true } } });
+    expect(lowConfidenceFields(item)).toEqual(['category']);
+  });
+});
@@ -0,0 +1,115 @@
+import { FieldProvenance, ParsedExpense, ParsedField } from '../types';
+
+// Fields below this confidence must be confirmed by the user before they are added
+export const LOW_CONFIDENCE = 0.6;
+
+// The AI amount is distrusted when it is more than this factor away from the regex amount
+const WILD_DISAGREEMENT = 2;
+
+const REVIEWED_FIELDS: ParsedField[] = ['amount', 'category', 'date'];
+
+const confidenceOf = (item: ParsedExpense, field: ParsedField): number =>
+  item.fields?.[field]?.confidence ?? 0.5;
+
+const agreed = (a: FieldProvenance, b: FieldProvenance): FieldProvenance =>
+  ({ ...a, confidence: Math.min(1, Math.round((Math.max(a.confidence, b.confidence) + 0.1) * 100) / 100) });
+
+const field = (item: ParsedExpense, name: ParsedField): FieldProvenance =>
+  item.fields?.[name] ?? { source: item.source ?? 'regex', confidence: 0.5 };
+
+const sameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+const words = (text: string) => new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2));
+
+// Pairs each AI item with the regex item for the same part of the input:
+// by position when both found the same number of items, otherwise by amount or shared words
+const pairItems = (regexItems: ParsedExpense[], aiItems: ParsedExpense[]): (ParsedExpense | null)[] => {
+  if (regexItems.length === aiItems.length) return [...regexItems];
+
+  const unused = new Set(regexItems);
+  return aiItems.map(ai => {
+    const candidates = Array.from(unused);
+    const aiWords = words(ai.description);
+    const match = candidates.find(r => r.amount === ai.amount)
+      ?? candidates.find(r => Array.from(words(r.description)).some(w => aiWords.has(w)))
+      ?? null;
+    if (match) unused.delete(match);
+    return match;
+  });
+};
+
+const mergePair = (regex: ParsedExpense, ai: ParsedExpense): ParsedExpense => {
+  const fields = { ...ai.fields };
+  let { amount, date } = ai;
+
+  // Amount: keep the regex reading when the AI is wildly off, flag any disagreement
+  if (regex.amount && ai.amount) {
+    const ratio = Math.max(regex.amount, ai.amount) / Math.min(regex.amount, ai.amount);
+    if (ratio < 1.01) {
+      fields.amount = agreed(field(ai, 'amount'), field(regex, 'amount'));
+    } else if (ratio > WILD_DISAGREEMENT) {
+      amount = regex.amount;
+      fields.amount = { source: 'regex', confidence: Math.min(confidenceOf(regex, 'amount'), LOW_CONFIDENCE - 0.1) };
+    } else {
+      const preferRegex = confidenceOf(regex, 'amount') > confidenceOf(ai, 'amount');
+      amount = preferRegex ? regex.amount : ai.amount;
+      fields.amount = { source: preferRegex ? 'regex' : 'ai', confidence: LOW_CONFIDENCE - 0.05 };
+    }
+  }
+
+  // Category: the AI usually knows better, but matching guesses reinforce each other
+  if (regex.category === ai.category && fields.category) {
+    fields.category = agreed(fields.category, field(regex, 'category'));
+  }
+
+  // Date: an explicit date phrase found by the regex parser beats the model's reading
+  if (!sameDay(regex.date, ai.date) && confidenceOf(regex, 'date') > confidenceOf(ai, 'date')) {
+    date = regex.date;
+    fields.date = field(regex, 'date');
+  } else if (sameDay(regex.date, ai.date) && fields.date) {
+    fields.date = agreed(fields.date, field(regex, 'date'));
+  }
+
+  // Direction: an explicit "refund"/"salary" the regex parser saw wins over a default expense
+  const direction = ai.direction && ai.direction !== 'expense' ? ai.direction : regex.direction ?? ai.direction;
+
+  // Tags typed as #hashtags are certain, so the regex ones are always kept
+  const tags = Array.from(new Set([...(regex.tags ?? []), ...(ai.tags ?? [])]));
+  const subcategory = ai.subcategory ?? regex.subcategory;
+  // The AI is not asked about splits; the regex one holds as long as the bill amount does
+  const split = regex.split && amount === regex.amount ? regex.split : undefined;
+
+  return {
+    ...ai,
+    amount,
+    direction,
+    date,
+    ...(subcategory ? { subcategory } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(split ? { split } : {}),
+    // Payment hints come from the regex parser only
+    ...(regex.paymentMethod ? { paymentMethod: regex.paymentMethod } : {}),
+    ...(regex.accountId ? { accountId: regex.accountId } : {}),
+    ...(regex.toAccountId && direction === 'transfer' ? { toAccountId: regex.toAccountId } : {}),
+    fields,
+    span: ai.span ?? regex.span
+  };
+};
+
+// Combines the instant regex preview with the AI answer for the same input
+export const mergeParsedExpenses = (regexItems: ParsedExpense[], aiItems: ParsedExpense[]): ParsedExpense[] => {
+  const accepted = aiItems.filter(item => !item.rejectedReason);
+  const pairs = pairItems(regexItems, accepted);
+  const merged = accepted.map((ai, idx) => {
+    const regex = pairs[idx];
+    return regex ? mergePair(regex, ai) : ai;
+  });
+  return [...merged, ...aiItems.filter(item => item.rejectedReason)];
+};
+
+// Fields the preview should ask the user to confirm
+export const lowConfidenceFields = (item: ParsedExpense): ParsedField[] =>
+  REVIEWED_FIELDS.filter(name => {
+    const provenance = item.fields?.[name];
+    return provenance !== undefined && !provenance.confirmed && provenance.confidence < LOW_CONFIDENCE;
+  });
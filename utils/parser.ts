@@ -1,52 +1,83 @@
-import { TransactionCategory, ParsedExpense } from '../types';
-
-export const parseExpenseInput = (text: string): ParsedExpense => {
+import { Account, CategoryDefinition, TransactionCategory, TransactionDirection, ParsedExpense, ParseProvenance } from '../types';
+import { DEFAULT_CATEGORIES, UNCATEGORISED, activeCategories, bucketOf, fallbackCategory } from './categories';
+import { extractDate, stripDatePhrase } from './dateParser';
+import { extractAmount } from './amountParser';
+import { segmentExpenses } from './segmenter';
+import { extractHashtags, inferSubcategory } from './tags';
+import { extractSplitPhrase, resolveSplit } from './ledger';
+import { extractPaymentHints } from './accounts';
+
+// Checked in order: "refund 300 from amazon" is money back, not income
+const DIRECTION_PATTERNS: [Exclude<TransactionDirection, 'expense'>, RegExp][] = [
+  ['refund', /\b(?:refund(?:ed)?|reversal|reversed|cash\s?back|returned|money back)\b/i],
+  ['income', /\b(?:salary|bonus|stipend|income|incentive|dividend|freelance|earned|received|credited|got paid|sold)\b/i],
+  ['transfer', /\b(?:transfer(?:red)?|self[- ]transfer|moved|withdrew|withdrawal|atm)\b/i],
+];
+
+// User-edited keywords are matched literally
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const detectDirection = (text: string): TransactionDirection =>
+  DIRECTION_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'expense';
+
+export const parseExpenseInput = (
+  input: string,
+  now: Date = new Date(),
+  categories: CategoryDefinition[] = DEFAULT_CATEGORIES,
+  accounts: Account[] = []
+): ParsedExpense => {
+  // 0. "#goa-trip" style tags are labels, not part of the description
+  const { tags, text: rawText } = extractHashtags(input);
+
+  // Pull out any date phrase first, so "12/03" or "3 days ago" is not mistaken for the amount
+  const dateMatch = extractDate(rawText, now);
+  const undated = dateMatch ? stripDatePhrase(rawText, dateMatch) : rawText;
+
+  // "split with 3" / "my share 600" hold numbers too, so they come out before the amount is read
+  const splitMatch = extractSplitPhrase(undated);
+
+  // "via gpay", "on hdfc card": how it was paid, not what was bought
+  const payment = extractPaymentHints(splitMatch ? splitMatch.text : undated, accounts);
+  const text = payment.text;
   const lowerText = text.toLowerCase();
 
   // 1. Extract Amount
-  // Matches "200", "200.50", "₹200", "rs 200"
-  const amountRegex = /(?:rs\.?|₹)?\s*(\d+(?:,\d+)*(?:\.\d{1,2})?)\b/i;
-  const amountMatch = lowerText.match(amountRegex);
-  let amount: number | null = null;
-
-  if (amountMatch) {
-    // Remove commas and parse
-    amount = parseFloat(amountMatch[1].replace(/,/g, ''));
-  }
+  // Handles "₹1,200", "2k", "1.5 lakh", "two hundred", "do sau", "3 x 40", "2 shirts for 800"
+  const amountMatch = extractAmount(text);
+  const amount: number | null = amountMatch ? amountMatch.amount : null;
 
-  // 2. Extract Category
+  // 2. Extract Category from the keywords of the user's categories, in registry order
   let category: TransactionCategory | null = null;
 
-  const keywords: Record<TransactionCategory, string[]> = {
-    Groceries: ['groceries', 'grocery', 'vegetables', 'fruits', 'milk', 'bread', 'market', 'supermarket', 'food', 'ration'],
-    Outings: ['outings', 'outing', 'restaurant', 'cafe', 'coffee', 'tea', 'dinner', 'lunch', 'breakfast', 'movie', 'cinema', 'concert', 'uber', 'ola', 'cab', 'taxi', 'hotel', 'trip', 'party', 'fun'],
-    BodyCare: ['body care', 'bodycare', 'personal care', 'salon', 'spa', 'haircut', 'gym', 'medicine', 'pharmacy', 'doctor', 'hospital', 'cream', 'soap', 'shampoo', 'conditioner', 'lotion', 'face wash', 'skincare', 'makeup', 'cosmetics', 'medical', 'health', 'toothbrush', 'paste'],
-    Orders: ['orders', 'order', 'amazon', 'flipkart', 'meesho', 'myntra', 'zomato', 'swiggy', 'blinkit', 'zepto', 'online', 'delivery'],
-    Petrol: ['petrol', 'diesel', 'fuel', 'gas', 'shell', 'hp', 'station', 'pump'],
-    Miscellaneous: ['miscellaneous', 'misc', 'gift', 'donation', 'other', 'random'],
-    Bills: ['bills', 'bill', 'electricity', 'rent', 'wifi', 'internet', 'recharge', 'subscription', 'mobile', 'water', 'fee', 'utility'],
-    Savings: ['save', 'savings', 'invest', 'mutual fund', 'sip', 'deposit'],
-    Other: []
-  };
-
-  for (const [cat, words] of Object.entries(keywords)) {
-    if (words.some(word => lowerText.includes(word))) {
-      category = cat as TransactionCategory;
+  for (const { name, keywords } of activeCategories(categories)) {
+    // Keywords must start a word, so "refund" does not hit "fun" but "bills" still hits "bill"
+    if (keywords.some(word => new RegExp(`\\b${escapeRegExp(word.toLowerCase())}`).test(lowerText))) {
+      category = name;
       break;
     }
   }
+  const keywordMatched = category !== null;
 
   // Fallback if no specific category but amount exists
   if (!category && amount) {
-    category = 'Miscellaneous';
+    category = fallbackCategory(categories);
   }
 
-  // 3. Extract Date (Simple logic)
-  let date = new Date();
-  if (lowerText.includes('yesterday')) {
-    date.setDate(date.getDate() - 1);
-  }
-  // "Today" is default
+  // 2b. Direction. Putting money into savings stays a Savings expense, as before;
+  // income and plain transfers are not spending, so they get no spending category
+  // Paying a card bill or moving money between two named accounts is a transfer
+  let direction: TransactionDirection = payment.cardPayment || (payment.accountId && payment.toAccountId) ? 'transfer' : detectDirection(text);
+  if (direction === 'transfer' && category && bucketOf(category, categories) === 'Savings') direction = 'expense';
+  if (direction === 'income' || direction === 'transfer') category = UNCATEGORISED;
+
+  // 2c. Only an expense can be shared; the bill stays the amount, the user's share is what counts
+  const split = splitMatch && amount && direction === 'expense' ? resolveSplit(amount, splitMatch.phrase) : null;
+
+  // 2d. Sub-category from well-known merchants ("swiggy" -> Food Delivery), for spending only
+  const subcategory = direction === 'expense' || direction === 'refund' ? inferSubcategory(text, category) : null;
+
+  // 3. Date: resolved from the phrase found above, "today" is default
+  const date = dateMatch ? dateMatch.date : new Date(now);
 
   // 4. Clean Description
   // Remove the amount and common filler words to create a clean description
@@ -54,7 +85,9 @@ export const parseExpenseInput = (text: string): ParsedExpense => {
 
   // Remove the detected amount string
   if (amountMatch) {
-    description = description.replace(amountMatch[0], '').trim();
+    description = (description.slice(0, amountMatch.index) + ' ' + description.slice(amountMatch.index + amountMatch.match.length))
+      .replace(/\s{2,}/g, ' ')
+      .trim();
   }
 
   // Remove common prepositions/fillers if they are at the start
@@ -62,31 +95,60 @@ export const parseExpenseInput = (text: string): ParsedExpense => {
   // We want to keep the description natural, so we won't strip too aggressively,
   // but we can capitalize the first letter.
 
+  // Only drop prepositions left dangling at the edges once the amount/date was cut out ("2k on rent" -> "rent")
+  description = description
+    .replace(/^(?:on|for|at|of|ka|ki|ke|@)\s+/i, '')
+    .replace(/\s+(?:on|for|at|of|ka|ki|ke|@)$/i, '')
+    .trim();
+
   if (description.length === 0) {
     description = category ? `${category} expense` : 'Expense';
   }
 
+  // Keyword hits are prefix matches, so even a hit is only a fair guess
+  const fields: ParseProvenance = {
+    amount: { source: 'regex', confidence: amountMatch ? amountMatch.confidence : 0 },
+    category: { source: 'regex', confidence: keywordMatched ? 0.7 : 0.3 },
+    date: { source: 'regex', confidence: dateMatch ? 0.9 : 0.7 },
+    description: { source: 'regex', confidence: 0.7 },
+  };
+
   return {
     amount,
+    direction,
     category,
+    ...(subcategory ? { subcategory } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(split ? { split } : {}),
+    ...(payment.paymentMethod ? { paymentMethod: payment.paymentMethod } : {}),
+    ...(payment.accountId ? { accountId: payment.accountId } : {}),
+    ...(payment.toAccountId && direction === 'transfer' ? { toAccountId: payment.toAccountId } : {}),
     description: description.charAt(0).toUpperCase() + description.slice(1),
-    date
+    date,
+    source: 'regex',
+    fields
   };
 };
 
-export const parseMultipleExpenses = (text: string): ParsedExpense[] => {
-  // Split by comma or newline, but be careful not to split 1,000 (amounts)
-  // Simple approach: Split by newline first, then by comma if it looks like a separator
-  // For now, let's split by newline or comma followed by space/text
-
-  const chunks = text.split(/,|\n/).map(c => c.trim()).filter(c => c.length > 0);
-
-  const results = chunks.map(chunk => parseExpenseInput(chunk)).filter(item => item.amount !== null);
-
-  // Logic: If simple split didn't find anything, maybe the whole text is one item
+export const parseMultipleExpenses = (
+  text: string,
+  now: Date = new Date(),
+  categories: CategoryDefinition[] = DEFAULT_CATEGORIES,
+  accounts: Account[] = []
+): ParsedExpense[] => {
+  // Segment on item separators (newline, ",", ";", "&", "+", "and") without breaking
+  // grouped amounts like "1,200" or "1,00,000". Each item remembers where it came from.
+  const results = segmentExpenses(text)
+    .map(segment => ({
+      ...parseExpenseInput(segment.text, now, categories, accounts),
+      span: { start: segment.start, end: segment.end }
+    }))
+    .filter(item => item.amount !== null);
+
+  // Logic: If segmenting didn't find anything, maybe the whole text is one item
   if (results.length === 0) {
-    const single = parseExpenseInput(text);
-    return single.amount ? [single] : [];
+    const single = parseExpenseInput(text, now, categories, accounts);
+    return single.amount ? [{ ...single, span: { start: 0, end: text.length } }] : [];
   }
 
   return results;
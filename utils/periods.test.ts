@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { Transaction } from '../types';
+import {
+    isCalendarCycle,
+    isValidTimeZone,
+    localDateKey,
+    periodIdFor,
+    periodIdOfDay,
+    periodRange,
+    transactionDay,
+    validatePayCycle,
+    weekIdFor,
+    weekIdOfDay,
+    weekRangeOfId,
+    zonedDate,
+} from './periods';
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const transaction = (overrides: Partial<Transaction>): Transaction => ({
+    id: 't1',
+    amount: 100,
+    category: 'Groceries',
+    description: 'Milk',
+    date: '2025-03-14T20:00:00.000Z',
+    timestamp: 0,
+    ...overrides,
+});
+
+describe('time zones', () => {
+    it('counts an instant on the day it falls on in the zone', () => {
+        const instant = new Date('2025-03-14T20:00:00Z');
+        expect(localDateKey(instant, 'Asia/Kolkata')).toBe('2025-03-15');
+        expect(localDateKey(instant, 'America/New_York')).toBe('2025-03-14');
+        expect(format(zonedDate(instant, 'Asia/Kolkata'), 'HH:mm')).toBe('01:30');
+    });
+
+    it('recognises IANA zones', () => {
+        expect(isValidTimeZone('Asia/Kolkata')).toBe(true);
+        expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    });
+
+    it('prefers the local date a transaction was recorded on', () => {
+        expect(day(transactionDay(transaction({}), 'Asia/Kolkata'))).toBe('2025-03-15');
+        expect(day(transactionDay(transaction({ localDate: '2025-03-14' }), 'Asia/Kolkata'))).toBe('2025-03-14');
+    });
+});
+
+describe('weeks', () => {
+    it('numbers Monday weeks like ISO weeks, zero-padded', () => {
+        expect(weekIdOfDay(new Date(2024, 11, 30), 1)).toBe('2025-W01');
+        expect(weekIdOfDay(new Date(2025, 1, 24), 1)).toBe('2025-W09');
+    });
+
+    it('starts the week on the chosen day', () => {
+        // Sunday 2 March 2025 ends a Monday week but starts a Sunday one
+        expect(weekIdOfDay(new Date(2025, 2, 2), 1)).toBe('2025-W09');
+        expect(weekIdOfDay(new Date(2025, 2, 2), 0)).toBe('2025-W10');
+    });
+
+    it('reads week IDs back, including unpadded ones', () => {
+        const range = weekRangeOfId('2025-W9', 1);
+        expect(range && day(range.start)).toBe('2025-02-24');
+        expect(range && day(range.end)).toBe('2025-03-02');
+        expect(weekRangeOfId('2025-W54', 1)).toBeNull();
+        expect(weekRangeOfId('2025-09', 1)).toBeNull();
+    });
+
+    it('counts weeks in the user zone', () => {
+        // Late Sunday in New York is already Monday in India
+        const instant = new Date('2025-03-03T01:00:00Z');
+        expect(weekIdFor(instant, { payCycle: { start: 'calendar' }, weekStartsOn: 1, timeZone: 'America/New_York' })).toBe('2025-W09');
+        expect(weekIdFor(instant, { payCycle: { start: 'calendar' }, weekStartsOn: 1, timeZone: 'Asia/Kolkata' })).toBe('2025-W10');
+    });
+});
+
+describe('budgeting months', () => {
+    it('follows the calendar by default', () => {
+        expect(periodIdOfDay(new Date(2025, 1, 10))).toBe('2025-02');
+        const range = periodRange('2025-02');
+        expect(range && day(range.start)).toBe('2025-02-01');
+        expect(range && day(range.end)).toBe('2025-02-28');
+    });
+
+    it('names a late payday cycle after the month it mostly covers', () => {
+        const cycle = { start: 'fixed_day' as const, day: 25 };
+        expect(periodIdOfDay(new Date(2025, 0, 24), cycle)).toBe('2025-01');
+        expect(periodIdOfDay(new Date(2025, 0, 25), cycle)).toBe('2025-02');
+        const range = periodRange('2025-02', cycle);
+        expect(range && day(range.start)).toBe('2025-01-25');
+        expect(range && day(range.end)).toBe('2025-02-24');
+    });
+
+    it('moves a weekend payday', () => {
+        // 25 January 2025 is a Saturday
+        const range = periodRange('2025-02', { start: 'fixed_day', day: 25, weekendShift: 'before' });
+        expect(range && day(range.start)).toBe('2025-01-24');
+        expect(periodIdOfDay(new Date(2025, 0, 24), { start: 'fixed_day', day: 25, weekendShift: 'before' })).toBe('2025-02');
+    });
+
+    it('clamps a payday to short months', () => {
+        const range = periodRange('2025-02', { start: 'fixed_day', day: 31 });
+        expect(range && day(range.start)).toBe('2025-01-31');
+        expect(range && day(range.end)).toBe('2025-02-27');
+    });
+
+    it('starts on the last business day', () => {
+        // 31 May 2025 is a Saturday
+        const range = periodRange('2025-06', { start: 'last_business_day' });
+        expect(range && day(range.start)).toBe('2025-05-30');
+    });
+
+    it('counts months in the user zone', () => {
+        const instant = new Date('2025-02-28T20:00:00Z');
+        const settings = { payCycle: { start: 'calendar' as const }, weekStartsOn: 1 as const };
+        expect(periodIdFor(instant, { ...settings, timeZone: 'America/New_York' })).toBe('2025-02');
+        expect(periodIdFor(instant, { ...settings, timeZone: 'Asia/Kolkata' })).toBe('2025-03');
+    });
+
+    it('rejects invalid IDs and cycles', () => {
+        expect(periodRange('2025-13')).toBeNull();
+        expect(validatePayCycle({ start: 'fixed_day', day: 32 })).not.toBeNull();
+        expect(validatePayCycle({ start: 'fixed_day', day: 15 })).toBeNull();
+        expect(isCalendarCycle({ start: 'fixed_day', day: 1 })).toBe(true);
+        expect(isCalendarCycle({ start: 'fixed_day', day: 1, weekendShift: 'after' })).toBe(false);
+    });
+});
@@ -0,0 +1,243 @@
+import {
+    addDays,
+    addMonths,
+    endOfDay,
+    endOfWeek,
+    format,
+    getDaysInMonth,
+    isSaturday,
+    isSunday,
+    setWeek,
+    startOfWeek,
+    startOfWeekYear,
+    subDays,
+} from 'date-fns';
+import { PayCycle, Transaction, UserPreferences, WeekStart } from '../types';
+
+// Days, weeks and budgeting months, counted the way the user set them up: weeks start on their
+// chosen day, months follow their pay cycle, and both are reckoned in their time zone rather
+// than the device's or UTC.
+//
+// Functions taking an instant (a Date from `new Date()` or a stored ISO string) first turn it
+// into the wall-clock time in the user's zone. Functions named "...OfDay" take such a
+// wall-clock day directly and do no time-zone conversion.
+
+export type PeriodSettings = Pick<UserPreferences, 'payCycle' | 'weekStartsOn' | 'timeZone'>;
+
+export const CALENDAR_CYCLE: PayCycle = { start: 'calendar' };
+
+export const deviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// IANA zone names for pickers; older browsers without the list get the device's zone only
+export const availableTimeZones = (): string[] =>
+    typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [deviceTimeZone()];
+
+export const DEFAULT_PERIOD_SETTINGS: PeriodSettings = {
+    payCycle: CALENDAR_CYCLE,
+    weekStartsOn: 1,
+    timeZone: deviceTimeZone(),
+};
+
+export const PAY_CYCLE_LABELS: Record<PayCycle['start'], string> = {
+    calendar: 'Calendar month',
+    fixed_day: 'Fixed day of the month',
+    last_business_day: 'Last working day',
+    first_business_day: 'First working day',
+};
+
+export const WEEK_START_LABELS: Record<WeekStart, string> = {
+    0: 'Sunday',
+    1: 'Monday',
+    2: 'Tuesday',
+    3: 'Wednesday',
+    4: 'Thursday',
+    5: 'Friday',
+    6: 'Saturday',
+};
+
+// --- Time zones ---
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const zoneFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', second: '2-digit',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        zoneFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// The wall-clock time in `timeZone` at `instant`, as a device-local Date, so date-fns
+// calendar maths gives the user's day. An unknown zone falls back to the device's.
+export const zonedDate = (instant: Date, timeZone: string): Date => {
+    if (!isValidTimeZone(timeZone)) return new Date(instant);
+    const parts: Record<string, number> = {};
+    zoneFormatter(timeZone).formatToParts(instant).forEach(part => {
+        if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    });
+    return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+// "2025-03-14": the user's calendar day at `instant`
+export const localDateKey = (instant: Date, timeZone: string): string =>
+    format(zonedDate(instant, timeZone), 'yyyy-MM-dd');
+
+// The day a transaction counts on: its stored local date, or for entries saved before local
+// dates were kept, the day its timestamp falls on in the user's zone
+export const transactionDay = (t: Transaction, timeZone: string): Date =>
+    t.localDate ? new Date(`${t.localDate}T00:00:00`) : zonedDate(new Date(t.date), timeZone);
+
+// Stamps the local date a transaction was recorded on, from its timestamp
+export const withLocalDate = (t: Transaction, timeZone: string): Transaction =>
+    ({ ...t, localDate: localDateKey(new Date(t.date), timeZone) });
+
+// --- Weeks ---
+
+// Week 1 is the first week with four or more days in the new year (the week holding
+// 4 January), so with Monday weeks the numbers are ISO weeks
+const weekOptions = (weekStartsOn: WeekStart) => ({
+    weekStartsOn,
+    firstWeekContainsDate: 4 as const,
+    useAdditionalWeekYearTokens: true,
+});
+
+// "2025-W09": week-numbering year and zero-padded week, so IDs sort in date order
+export const weekIdOfDay = (day: Date, weekStartsOn: WeekStart): string =>
+    format(day, "YYYY-'W'ww", weekOptions(weekStartsOn));
+
+export const weekIdFor = (instant: Date, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): string =>
+    weekIdOfDay(zonedDate(instant, settings.timeZone), settings.weekStartsOn);
+
+// First and last moment of a week ID. Also reads the unpadded IDs ("2025-W9") stored before
+// IDs were zero-padded; returns null for anything else.
+export const weekRangeOfId = (weekId: string, weekStartsOn: WeekStart): { start: Date, end: Date } | null => {
+    const match = weekId.match(/^(\d{4})-W(\d{1,2})$/);
+    if (!match) return null;
+    const week = Number(match[2]);
+    if (week < 1 || week > 53) return null;
+    const options = weekOptions(weekStartsOn);
+    const start = startOfWeek(setWeek(startOfWeekYear(new Date(Number(match[1]), 0, 4), options), week, options), options);
+    return { start, end: endOfWeek(start, options) };
+};
+
+// The week containing `instant`, in the user's zone
+export const getWeekRange = (instant: Date, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): { start: Date, end: Date } => {
+    const day = zonedDate(instant, settings.timeZone);
+    const options = weekOptions(settings.weekStartsOn);
+    return { start: startOfWeek(day, options), end: endOfWeek(day, options) };
+};
+
+export const isSameWeek = (a: Date, b: Date, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): boolean =>
+    weekIdFor(a, settings) === weekIdFor(b, settings);
+
+export const isInWeek = (t: Transaction, instant: Date, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): boolean =>
+    weekIdOfDay(transactionDay(t, settings.timeZone), settings.weekStartsOn) === weekIdFor(instant, settings);
+
+// --- Budgeting months ---
+//
+// With the calendar cycle a month is just that; with a pay cycle it runs from one payday to
+// the day before the next. Either way it is identified like a calendar month ("2025-02"),
+// so stored IDs, history and alert keys keep their shape.
+
+// Moves a Saturday or Sunday to the Friday before or the Monday after
+const shiftOffWeekend = (date: Date, shift: 'none' | 'before' | 'after'): Date => {
+    if (shift === 'none' || !(isSaturday(date) || isSunday(date))) return date;
+    if (shift === 'before') return subDays(date, isSaturday(date) ? 1 : 2);
+    return addDays(date, isSaturday(date) ? 2 : 1);
+};
+
+// The payday in a calendar month (0-based month; out-of-range months wrap into the next year)
+const payDay = (year: number, month: number, cycle: PayCycle): Date => {
+    const first = new Date(year, month, 1);
+    switch (cycle.start) {
+        case 'fixed_day': {
+            const day = Math.min(Math.max(1, cycle.day ?? 1), getDaysInMonth(first));
+            return shiftOffWeekend(new Date(first.getFullYear(), first.getMonth(), day), cycle.weekendShift ?? 'none');
+        }
+        case 'last_business_day':
+            return shiftOffWeekend(new Date(first.getFullYear(), first.getMonth(), getDaysInMonth(first)), 'before');
+        case 'first_business_day':
+            return shiftOffWeekend(first, 'after');
+        default:
+            return first;
+    }
+};
+
+// A cycle that starts late in a month covers mostly the next one and is named after it:
+// paid on the 25th of January, the money is February's
+const namedAfterNextMonth = (cycle: PayCycle): boolean =>
+    cycle.start === 'last_business_day' || (cycle.start === 'fixed_day' && (cycle.day ?? 1) > 15);
+
+const cycleStart = (year: number, month: number, cycle: PayCycle): Date =>
+    payDay(year, namedAfterNextMonth(cycle) ? month - 1 : month, cycle);
+
+const parsePeriodId = (periodId: string): { year: number, month: number } | null => {
+    const match = periodId.match(/^(\d{4})-(\d{1,2})$/);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) return null;
+    return { year: Number(match[1]), month: Number(match[2]) - 1 };
+};
+
+// First and last day of a budgeting month, as wall-clock days
+export const periodRange = (periodId: string, cycle: PayCycle = CALENDAR_CYCLE): { start: Date, end: Date } | null => {
+    const parsed = parsePeriodId(periodId);
+    if (!parsed) return null;
+    const start = cycleStart(parsed.year, parsed.month, cycle);
+    const end = endOfDay(subDays(cycleStart(parsed.year, parsed.month + 1, cycle), 1));
+    return { start, end };
+};
+
+// The budgeting month a wall-clock day falls in
+export const periodIdOfDay = (day: Date, cycle: PayCycle = CALENDAR_CYCLE): string => {
+    // A cycle starts within a few days of its own month, so only the neighbours need checking
+    const month = new Date(day.getFullYear(), day.getMonth(), 1);
+    for (const offset of [2, 1, 0, -1, -2]) {
+        const candidate = addMonths(month, offset);
+        if (cycleStart(candidate.getFullYear(), candidate.getMonth(), cycle) <= day) {
+            return format(candidate, 'yyyy-MM');
+        }
+    }
+    return format(month, 'yyyy-MM');
+};
+
+export const periodIdFor = (instant: Date, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): string =>
+    periodIdOfDay(zonedDate(instant, settings.timeZone), settings.payCycle);
+
+export const isInPeriod = (t: Transaction, instant: Date, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): boolean =>
+    periodIdOfDay(transactionDay(t, settings.timeZone), settings.payCycle) === periodIdFor(instant, settings);
+
+// "February 2025"
+export const periodLabel = (periodId: string): string => {
+    const parsed = parsePeriodId(periodId);
+    return parsed ? format(new Date(parsed.year, parsed.month, 1), 'MMMM yyyy') : periodId;
+};
+
+// "25 Jan - 24 Feb", for cycles that don't follow the calendar
+export const periodRangeLabel = (start: Date, end: Date): string =>
+    `${format(start, 'd MMM')} - ${format(end, 'd MMM')}`;
+
+export const isCalendarCycle = (cycle: PayCycle): boolean =>
+    cycle.start === 'calendar' || (cycle.start === 'fixed_day' && (cycle.day ?? 1) === 1 && (cycle.weekendShift ?? 'none') === 'none');
+
+// Error message for an invalid cycle, or null when it can be saved
+export const validatePayCycle = (cycle: PayCycle): string | null => {
+    if (cycle.start !== 'fixed_day') return null;
+    if (cycle.day === undefined || !Number.isInteger(cycle.day) || cycle.day < 1 || cycle.day > 31) {
+        return 'Payday must be a day of the month from 1 to 31';
+    }
+    return null;
+};
@@ -0,0 +1,151 @@
+import { addDays, addWeeks, addMonths, addYears, endOfDay, format, startOfDay } from 'date-fns';
+import { RecurrenceCadence, RecurringTransaction, Transaction } from '../types';
+
+// Backfill limit, so a daily schedule left alone for years cannot flood the ledger
+const MAX_BACKFILL = 400;
+
+export const CADENCE_LABELS: Record<RecurrenceCadence, string> = {
+    daily: 'Daily',
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+    quarterly: 'Quarterly',
+    yearly: 'Yearly',
+};
+
+export const occurrenceKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Deterministic id, so materialising the same occurrence twice overwrites instead of duplicating
+export const occurrenceTransactionId = (recurringId: string, date: Date): string =>
+    `rec-${recurringId}-${occurrenceKey(date)}`;
+
+// The n-th occurrence (0 = startDate). Counting from the start keeps "31st of every month"
+// on the last day of short months without drifting to the 28th afterwards.
+export const occurrenceAt = (def: RecurringTransaction, n: number): Date => {
+    const start = new Date(def.startDate);
+    const step = n * (def.interval || 1);
+    switch (def.cadence) {
+        case 'daily': return addDays(start, step);
+        case 'weekly': return addWeeks(start, step);
+        case 'monthly': return addMonths(start, step);
+        case 'quarterly': return addMonths(start, step * 3);
+        case 'yearly': return addYears(start, step);
+    }
+};
+
+// Index of the first occurrence on or after `from` (ignoring time of day)
+const firstIndexFrom = (def: RecurringTransaction, from: Date): number => {
+    const day = startOfDay(from);
+    let n = 0;
+    while (startOfDay(occurrenceAt(def, n)) < day) n++;
+    return n;
+};
+
+export const firstOccurrenceFrom = (def: RecurringTransaction, from: Date): Date =>
+    occurrenceAt(def, firstIndexFrom(def, from));
+
+const isPastEnd = (def: RecurringTransaction, date: Date) =>
+    def.endDate !== undefined && startOfDay(date) > startOfDay(new Date(def.endDate));
+
+// Occurrences between `from` and `to` (inclusive days), skipped ones left out
+export const occurrencesBetween = (def: RecurringTransaction, from: Date, to: Date): Date[] => {
+    const result: Date[] = [];
+    const last = endOfDay(to);
+    const first = firstIndexFrom(def, from);
+    for (let n = first; n < first + MAX_BACKFILL; n++) {
+        const date = occurrenceAt(def, n);
+        if (date > last || isPastEnd(def, date)) break;
+        if (!def.skippedDates?.includes(occurrenceKey(date))) result.push(date);
+    }
+    return result;
+};
+
+export const buildOccurrence = (def: RecurringTransaction, date: Date, now: number = Date.now()): Transaction => {
+    const override = def.overrides?.[occurrenceKey(date)];
+    return {
+        id: occurrenceTransactionId(def.id, date),
+        amount: override?.amount ?? def.amount,
+        direction: def.direction ?? 'expense',
+        category: def.category,
+        description: override?.description ?? def.description,
+        date: date.toISOString(),
+        localDate: occurrenceKey(date), // the scheduled day, whatever the time zone
+        timestamp: now,
+        recurringId: def.id,
+    };
+};
+
+// Everything due up to `now` that has not been materialised yet, including occurrences
+// missed while the app was closed. Returns the transactions and the advanced schedule.
+export const materialiseDue = (
+    def: RecurringTransaction,
+    now: Date = new Date()
+): { transactions: Transaction[]; updated: RecurringTransaction } | null => {
+    if (def.paused) return null;
+    const nextDue = new Date(def.nextDueDate);
+    if (startOfDay(nextDue) > now || isPastEnd(def, nextDue)) return null;
+
+    const dates = occurrencesBetween(def, nextDue, now);
+    const following = firstOccurrenceFrom(def, addDays(startOfDay(now), 1));
+
+    // Overrides and skips for dates that have passed are no longer needed
+    const today = occurrenceKey(now);
+    const overrides = Object.fromEntries(Object.entries(def.overrides ?? {}).filter(([key]) => key > today));
+    const skippedDates = (def.skippedDates ?? []).filter(key => key > today);
+
+    return {
+        transactions: dates.map(date => buildOccurrence(def, date)),
+        updated: {
+            ...def,
+            nextDueDate: following.toISOString(),
+            overrides,
+            skippedDates,
+            updatedAt: Date.now(),
+        },
+    };
+};
+
+// Resuming does not backfill what fell due while paused
+export const resumeRecurring = (def: RecurringTransaction, now: Date = new Date()): RecurringTransaction => ({
+    ...def,
+    paused: false,
+    nextDueDate: firstOccurrenceFrom(def, now).toISOString(),
+    updatedAt: Date.now(),
+});
+
+// Skips the next occurrence that has not been skipped already
+export const skipNextOccurrence = (def: RecurringTransaction): RecurringTransaction => {
+    const next = nextOccurrence(def);
+    if (!next) return def;
+    return {
+        ...def,
+        skippedDates: [...(def.skippedDates ?? []), occurrenceKey(next)],
+        updatedAt: Date.now(),
+    };
+};
+
+// The next occurrence that will actually be materialised, or null when the schedule has ended
+export const nextOccurrence = (def: RecurringTransaction): Date | null => {
+    const from = new Date(def.nextDueDate);
+    const [next] = occurrencesBetween(def, from, addYears(from, 2)).slice(0, 1);
+    return next ?? null;
+};
+
+export interface UpcomingOccurrence {
+    recurring: RecurringTransaction;
+    date: Date;
+    amount: number;
+}
+
+// Not-yet-materialised occurrences of active schedules in a date range (for projections)
+export const upcomingOccurrences = (defs: RecurringTransaction[], from: Date, to: Date): UpcomingOccurrence[] =>
+    defs
+        .filter(def => !def.paused)
+        .flatMap(def => {
+            const start = new Date(Math.max(from.getTime(), new Date(def.nextDueDate).getTime()));
+            return occurrencesBetween(def, start, to).map(date => ({
+                recurring: def,
+                date,
+                amount: def.overrides?.[occurrenceKey(date)]?.amount ?? def.amount,
+            }));
+        })
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
@@ -0,0 +1,69 @@
+import { CategoryRule, ParsedExpense, TransactionCategory } from '../types';
+
+// Words that never identify a merchant
+const STOPWORDS = new Set([
+  'spent', 'paid', 'bought', 'buy', 'got', 'for', 'on', 'at', 'from', 'to', 'in', 'of', 'the', 'a', 'an',
+  'my', 'and', 'with', 'via', 'rs', 'inr', 'rupees', 'today', 'yesterday', 'ka', 'ki', 'ke', 'se', 'me', 'mein',
+]);
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const containsPhrase = (normalizedText: string, pattern: string): boolean =>
+  ` ${normalizedText} `.includes(` ${normalize(pattern)} `);
+
+// The most specific (longest) rule whose pattern appears as whole word(s) in the description
+export const findMatchingRule = (description: string, rules: CategoryRule[]): CategoryRule | null => {
+  const text = normalize(description);
+  let best: CategoryRule | null = null;
+  rules.forEach(rule => {
+    if (!rule.pattern.trim() || !containsPhrase(text, rule.pattern)) return;
+    if (!best || rule.pattern.length > best.pattern.length) best = rule;
+  });
+  return best;
+};
+
+// Rules take precedence over whatever the regex parser or the AI guessed
+export const applyRules = (expense: ParsedExpense, rules: CategoryRule[]): ParsedExpense => {
+  const rule = findMatchingRule(expense.description, rules);
+  if (!rule) return expense;
+  return {
+    ...expense,
+    category: rule.category,
+    fields: { ...expense.fields, category: { source: 'rule', confidence: rule.source === 'manual' ? 1 : 0.95 } },
+  };
+};
+
+// Picks the merchant-ish part of a description: its first significant word
+// ("Paid DMart 450" -> "dmart"). Users can widen or narrow it in the rules screen.
+export const deriveRulePattern = (description: string): string | null => {
+  const word = normalize(description)
+    .split(' ')
+    .find(w => w.length > 1 && !STOPWORDS.has(w) && !/^\d+$/.test(w));
+  return word ?? null;
+};
+
+// Builds the rule to persist after the user corrected a category, or null if nothing can be learned.
+// An existing rule for the same pattern is re-pointed instead of duplicated.
+export const learnRule = (
+  rules: CategoryRule[],
+  description: string,
+  category: TransactionCategory,
+  now: number = Date.now()
+): CategoryRule | null => {
+  const pattern = deriveRulePattern(description);
+  if (!pattern) return null;
+
+  const existing = rules.find(rule => rule.pattern === pattern);
+  if (existing) {
+    return existing.category === category ? null : { ...existing, category, updatedAt: now };
+  }
+
+  return {
+    id: `${now}-${pattern.replace(/\s+/g, '-')}`, // several corrections can land in the same millisecond
+    pattern,
+    category,
+    source: 'learned',
+    createdAt: now,
+  };
+};
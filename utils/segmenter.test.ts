@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { segmentExpenses } from './segmenter';
+
+const texts = (input: string) => segmentExpenses(input).map(s => s.text);
+
+describe('segmentExpenses', () => {
+  it('keeps grouped amounts whole', () => {
+    expect(texts('paid 1,200 for electricity')).toEqual(['paid 1,200 for electricity']);
+    expect(texts('deposit 1,00,000, rent 15,000')).toEqual(['deposit 1,00,000', 'rent 15,000']);
+  });
+
+  it('splits on commas, words and symbols', () => {
+    expect(texts('milk 60 and bread 40')).toEqual(['milk 60', 'bread 40']);
+    expect(texts('tea 20 & samosa 30; bus 15 + auto 50')).toEqual(['tea 20', 'samosa 30', 'bus 15', 'auto 50']);
+    expect(texts('chai 20 aur biscuit 10')).toEqual(['chai 20', 'biscuit 10']);
+    expect(texts('lunch 200\ndinner 400')).toEqual(['lunch 200', 'dinner 400']);
+  });
+
+  it('keeps a spelled-out number together', () => {
+    expect(texts('one hundred and fifty for chai')).toEqual(['one hundred and fifty for chai']);
+  });
+
+  it('folds pieces without an amount into a neighbour', () => {
+    expect(texts('bread and butter 50')).toEqual(['bread and butter 50']);
+    expect(texts('lunch 200 and tip')).toEqual(['lunch 200 and tip']);
+  });
+
+  it('keeps a qualifier with the item before it', () => {
+    expect(texts('dinner 1200, my share 600')).toEqual(['dinner 1200, my share 600']);
+  });
+
+  it('points each segment back into the input', () => {
+    const input = '  milk 60 and bread 40';
+    segmentExpenses(input).forEach(segment => {
+      expect(input.slice(segment.start, segment.end)).toBe(segment.text);
+    });
+  });
+});
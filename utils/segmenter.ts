@@ -0,0 +1,87 @@
+import { extractAmount } from './amountParser';
+
+export interface TextSpan {
+  start: number; // inclusive offset into the original input
+  end: number;   // exclusive
+}
+
+export interface TextSegment extends TextSpan {
+  text: string;
+}
+
+// Western 1,234,567 or Indian 12,34,567 digit grouping (optionally with paise)
+const WESTERN_GROUPING = /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+const INDIAN_GROUPING = /^\d{1,2}(?:,\d{2})*,\d{3}(?:\.\d+)?$/;
+
+const SCALE_WORD = /(?:hundred|thousand|lakhs?|lacs?|crores?|sau|hazaa?r)\s*$/i;
+const NUMBER_WORD_AHEAD = /^\s*(?:one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety)\b/i;
+
+// Offsets of commas that belong to a grouped number ("1,200", "1,00,000") and must not split
+const groupingCommas = (input: string): Set<number> => {
+  const protectedCommas = new Set<number>();
+  for (const m of input.matchAll(/\d+(?:,\d+)+(?:\.\d+)?/g)) {
+    if (!WESTERN_GROUPING.test(m[0]) && !INDIAN_GROUPING.test(m[0])) continue;
+    for (let i = 0; i < m[0].length; i++) {
+      if (m[0][i] === ',') protectedCommas.add(m.index! + i);
+    }
+  }
+  return protectedCommas;
+};
+
+// "..., my share 600" qualifies the item before it rather than being an item of its own
+const QUALIFIER = /^(?:my\s+(?:share|part|cut)|split|paid\s+by)\b/i;
+
+// Separators between items: newline, ";", "&", "+", unprotected ",", and the words "and"/"aur"
+const SEPARATOR = /\r?\n|;|&|\+|,|\b(?:and|aur)\b/gi;
+
+const trimSpan = (input: string, start: number, end: number): TextSegment | null => {
+  while (start < end && /\s/.test(input[start])) start++;
+  while (end > start && /\s/.test(input[end - 1])) end--;
+  return end > start ? { text: input.slice(start, end), start, end } : null;
+};
+
+// Splits free text into one segment per expense, keeping offsets into `input`.
+// Pieces without an amount ("bread and butter 50") are folded into their neighbour.
+export const segmentExpenses = (input: string): TextSegment[] => {
+  const protectedCommas = groupingCommas(input);
+  const pieces: TextSegment[] = [];
+  let cursor = 0;
+
+  for (const m of input.matchAll(SEPARATOR)) {
+    const index = m.index!;
+    if (m[0] === ',' && protectedCommas.has(index)) continue;
+    // "a hundred and fifty" is one number, not two items
+    if (/^(?:and|aur)$/i.test(m[0]) && SCALE_WORD.test(input.slice(0, index)) && NUMBER_WORD_AHEAD.test(input.slice(index + m[0].length))) {
+      continue;
+    }
+    const piece = trimSpan(input, cursor, index);
+    if (piece) pieces.push(piece);
+    cursor = index + m[0].length;
+  }
+  const tail = trimSpan(input, cursor, input.length);
+  if (tail) pieces.push(tail);
+
+  // Fold amount-less pieces forward into the next piece (or back into the previous one at the end)
+  const segments: TextSegment[] = [];
+  let carryStart: number | null = null;
+  pieces.forEach(piece => {
+    const start = carryStart ?? piece.start;
+    const last = segments[segments.length - 1];
+    if (QUALIFIER.test(piece.text) && last && carryStart === null) {
+      segments[segments.length - 1] = { text: input.slice(last.start, piece.end), start: last.start, end: piece.end };
+    } else if (extractAmount(piece.text)) {
+      segments.push({ text: input.slice(start, piece.end), start, end: piece.end });
+      carryStart = null;
+    } else if (carryStart === null) {
+      carryStart = piece.start;
+    }
+  });
+  if (carryStart !== null) {
+    const last = segments.pop();
+    const start = last ? last.start : carryStart;
+    const end = pieces[pieces.length - 1].end;
+    segments.push({ text: input.slice(start, end), start, end });
+  }
+
+  return segments;
+};
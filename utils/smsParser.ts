@@ -0,0 +1,249 @@
+import { Account, CategoryDefinition, ParsedExpense, PaymentMethod, Transaction, TransactionDirection } from '../types';
+import { DEFAULT_CATEGORIES, UNCATEGORISED, fallbackCategory } from './categories';
+import { parseExpenseInput } from './parser';
+import { TextSegment } from './segmenter';
+
+// What a bank or UPI message says, before it is turned into a ParsedExpense
+export interface BankMessage {
+  amount: number;
+  direction: TransactionDirection;
+  merchant: string | null; // payee or payer as written, e.g. "SWIGGY"
+  vpa?: string; // UPI address, e.g. "swiggy@icici"
+  accountSuffix?: string; // last digits of the account or card, e.g. "1234"
+  card: boolean; // paid with a card rather than from an account
+  upi: boolean;
+  date: Date | null; // null when the message has no date
+  reference?: string; // UPI ref / UTR / transaction id, for spotting the same message twice
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "Rs.450.00", "INR 1,299", "₹ 25,000.50"; balances and limits are skipped by the caller
+const CURRENCY_AMOUNT = /(?:rs\.?|inr|₹)\s*([\d,]+(?:\.\d{1,2})?)/gi;
+// SBI writes "debited by 450.0" with no currency
+const BARE_AMOUNT = /\b(?:debited|credited)\s+(?:by|with|for)\s+([\d,]+(?:\.\d{1,2})?)/i;
+const NOT_THE_AMOUNT = /(?:bal(?:ance)?|lmt|limit|available|avl)[\s.:]*$/i;
+
+const DEBIT = /\b(?:debited|spent|sent|paid|withdrawn|purchase|debit(?:ed)?\s+(?:by|for|with)|txn\s+of)\b/i;
+const CREDIT = /\b(?:credited|received|deposited)\b/i;
+const REFUND = /\b(?:refund(?:ed)?|reversal|reversed|reversed back)\b/i;
+const ATM = /\b(?:atm|cash\s+withdrawal|withdrawn\s+at)\b/i;
+const CARD_PAYMENT = /\b(?:payment\s+(?:of\s+)?(?:rs\.?|inr|₹)?\s*[\d,.]+\s+(?:has been\s+)?received|thank\s+you\s+for\s+(?:the\s+)?payment)\b/i;
+
+const ACCOUNT_SUFFIX = /\b(?:a\/?c|acct|account|card)(?:\s*no\.?)?\s*(?:ending(?:\s+(?:with|in))?\s*)?[x*]*\s*(\d{3,6})\b/i;
+const VPA = /\b([a-z0-9._-]{2,}@[a-z][a-z0-9]{1,})\b/i;
+const REFERENCE = [
+  /\b(?:upi\s*ref(?:erence)?(?:\s*no)?|ref(?:erence)?(?:\s*no)?|refno|utr(?:\s*no)?|txn\s*(?:id|no)|imps\s*ref(?:\s*no)?|rrn)\s*[:.#-]?\s*([a-z0-9]{6,})/i,
+  /\bupi[:/](?:p2[ma]\/)?(\d{9,})/i,
+];
+
+// Checked in order; a candidate that names the user's own account is skipped
+const MERCHANT = [
+  /\bupi\/p2[ma]\/\d+\/([a-z0-9 &.'_-]+?)(?=\s+not\b|\s*\/|\.|$)/i,
+  /;\s*([a-z0-9 &.'_-]+?)\s+credited\b/i,
+  /\bat\s+([a-z0-9 &.'*_-]+?)(?=\s+on\b|\s+avl\b|\s+ref\b|\.\s|\.$|,|$)/i,
+  /\b(?:trf\s+to|paid\s+to|to)\s+(?:vpa\s+)?([a-z0-9 @&.'_-]+?)(?=\s+on\b|\s+ref\b|\s+refno\b|\s+upi\b|\.\s|\.$|,|\s*\(|$)/i,
+  /\b(?:from|by)\s+(?:(?:neft|imps|upi|rtgs)\s+(?:from\s+)?)?(?:vpa\s+)?([a-z0-9 @&.'_-]+?)(?=\s+on\b|\s+ref\b|\s+upi\b|\.\s|\.$|,|\s*\(|$)/i,
+];
+const OWN_ACCOUNT = /\b(?:a\/?c|acct|account|bank|card|x{2,}\d+|\*\d+)\b/i;
+
+// Enough to tell a bank message from a typed note ("rs 500 paid on hdfc card"): an amount, a money
+// verb and something only a bank writes, like a masked account number or a reference
+const MONEY_VERB = /\b(?:debited|credited|spent|sent|received|withdrawn|refund(?:ed)?|deposited|paid)\b/i;
+const ACCOUNT_WORD = /\b(?:a\/?c|acct|vpa|ref(?:no)?|utr|rrn|avl)\b|[x*]{2,}\d{3,}/i;
+
+export const isBankMessage = (text: string): boolean =>
+  (new RegExp(CURRENCY_AMOUNT.source, 'i').test(text) || BARE_AMOUNT.test(text)) && MONEY_VERB.test(text) && ACCOUNT_WORD.test(text);
+
+const toNumber = (raw: string) => parseFloat(raw.replace(/,/g, ''));
+
+const findAmount = (text: string): number | null => {
+  for (const match of text.matchAll(CURRENCY_AMOUNT)) {
+    if (NOT_THE_AMOUNT.test(text.slice(Math.max(0, match.index! - 20), match.index))) continue;
+    const amount = toNumber(match[1]);
+    if (amount > 0) return amount;
+  }
+  const bare = text.match(BARE_AMOUNT);
+  return bare ? toNumber(bare[1]) : null;
+};
+
+const detectDirection = (text: string): TransactionDirection => {
+  if (ATM.test(text) || CARD_PAYMENT.test(text)) return 'transfer';
+  if (REFUND.test(text)) return 'refund';
+  const debit = text.search(DEBIT);
+  const credit = text.search(CREDIT);
+  // "debited from A/c ...; SWIGGY credited": whichever the message leads with
+  if (debit >= 0 && (credit < 0 || debit < credit)) return 'expense';
+  return credit >= 0 ? 'income' : 'expense';
+};
+
+const fullYear = (year: number) => (year < 100 ? 2000 + year : year);
+
+const validDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(fullYear(year), month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+// Bank messages are day-first: "12-03-25", "12/03/2025", "12Mar25", "12-Mar-25", "2025-03-12"
+const findDate = (text: string): Date | null => {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return validDate(+iso[1], +iso[2] - 1, +iso[3]);
+
+  const named = text.match(/\b(\d{1,2})[\s-]?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[\s-]?(\d{2,4})\b/i);
+  if (named) return validDate(+named[3], MONTHS.indexOf(named[2].toLowerCase()), +named[1]);
+
+  const numeric = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})\b/);
+  if (numeric) return validDate(+numeric[3], +numeric[2] - 1, +numeric[1]);
+  return null;
+};
+
+const findReference = (text: string): string | undefined => {
+  for (const pattern of REFERENCE) {
+    const match = text.match(pattern);
+    // A reference has digits; "Ref" followed by a word is just prose
+    if (match && /\d{4,}/.test(match[1])) return match[1].toUpperCase();
+  }
+  return undefined;
+};
+
+const findMerchant = (text: string, vpa: string | undefined): string | null => {
+  for (const pattern of MERCHANT) {
+    const candidate = text.match(pattern)?.[1]?.trim();
+    if (!candidate || OWN_ACCOUNT.test(candidate) || /^[\d.,]+$/.test(candidate)) continue;
+    return candidate;
+  }
+  return vpa ?? null;
+};
+
+// "swiggy@icici" -> "Swiggy", "ZOMATO LTD" -> "Zomato Ltd"
+export const merchantName = (merchant: string): string => {
+  const base = merchant.includes('@') ? merchant.split('@')[0].replace(/[._-]+/g, ' ').replace(/\d+/g, ' ') : merchant;
+  const words = base.replace(/\s+/g, ' ').trim().toLowerCase().split(' ').filter(Boolean);
+  return words.map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+};
+
+// Reads one bank or UPI message; null when it isn't one or has no amount
+export const parseBankMessage = (text: string): BankMessage | null => {
+  if (!isBankMessage(text)) return null;
+  const amount = findAmount(text);
+  if (!amount) return null;
+
+  const vpa = text.match(VPA)?.[1]?.toLowerCase();
+  const accountSuffix = text.match(ACCOUNT_SUFFIX)?.[1];
+  const reference = findReference(text);
+  return {
+    amount,
+    direction: detectDirection(text),
+    merchant: findMerchant(text, vpa),
+    ...(vpa ? { vpa } : {}),
+    ...(accountSuffix ? { accountSuffix } : {}),
+    card: /\bcard\b/i.test(text),
+    upi: Boolean(vpa) || /\bupi\b/i.test(text),
+    date: findDate(text),
+    ...(reference ? { reference } : {}),
+  };
+};
+
+// Pasted messages start a new item at every line that is itself a bank message;
+// other lines (wrapped text, "Not you? Call ...") belong to the message above
+export const splitBankMessages = (input: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let offset = 0;
+  input.split('\n').forEach(line => {
+    const start = offset;
+    offset += line.length + 1;
+    if (!line.trim()) return;
+    const last = segments[segments.length - 1];
+    if (last && !isBankMessage(line)) {
+      segments[segments.length - 1] = { text: input.slice(last.start, start + line.length), start: last.start, end: start + line.length };
+    } else {
+      segments.push({ text: line, start, end: start + line.length });
+    }
+  });
+  return segments.filter(segment => isBankMessage(segment.text));
+};
+
+// Pasted bank messages are read with parseBankMessages rather than as typed notes
+export const looksLikeBankMessages = (input: string): boolean => splitBankMessages(input).length > 0;
+
+const paymentMethodOf = (message: BankMessage): PaymentMethod | undefined => {
+  if (message.card) return 'card';
+  if (message.upi) return 'upi';
+  return undefined;
+};
+
+// The user's account whose last digits the message names
+export const accountForSuffix = (suffix: string | undefined, accounts: Account[]): Account | undefined =>
+  suffix ? accounts.find(a => !a.archived && a.lastDigits && (a.lastDigits.endsWith(suffix) || suffix.endsWith(a.lastDigits))) : undefined;
+
+const fallbackDescription = (message: BankMessage): string => {
+  if (message.direction !== 'transfer') return 'Bank transaction';
+  return message.card ? 'Card bill payment' : 'ATM withdrawal';
+};
+
+const toParsedExpense = (
+  message: BankMessage,
+  segment: TextSegment,
+  now: Date,
+  categories: CategoryDefinition[],
+  accounts: Account[]
+): ParsedExpense => {
+  const description = message.merchant ? merchantName(message.merchant) : fallbackDescription(message);
+  // The merchant name is matched against category keywords the same way a typed note is
+  const guess = parseExpenseInput(description, now, categories);
+  const spending = message.direction === 'expense' || message.direction === 'refund';
+  const category = spending ? guess.category ?? fallbackCategory(categories) : UNCATEGORISED;
+  const account = accountForSuffix(message.accountSuffix, accounts);
+  const paymentMethod = paymentMethodOf(message);
+  // Card bill payments arrive on the card; everything else moves money on the named account
+  const cardPayment = message.direction === 'transfer' && message.card && account?.type === 'credit_card';
+
+  return {
+    amount: message.amount,
+    direction: message.direction,
+    category,
+    ...(spending && guess.subcategory ? { subcategory: guess.subcategory } : {}),
+    ...(paymentMethod ? { paymentMethod } : {}),
+    ...(account && !cardPayment ? { accountId: account.id } : {}),
+    ...(account && cardPayment ? { toAccountId: account.id } : {}),
+    ...(message.reference ? { reference: message.reference } : {}),
+    description,
+    date: message.date ?? new Date(now),
+    span: { start: segment.start, end: segment.end },
+    source: 'regex',
+    fields: {
+      amount: { source: 'regex', confidence: 0.95 },
+      category: { source: 'regex', confidence: guess.category ? 0.7 : 0.3 },
+      date: { source: 'regex', confidence: message.date ? 0.9 : 0.5 },
+      description: { source: 'regex', confidence: message.merchant ? 0.8 : 0.4 },
+    },
+  };
+};
+
+// One ParsedExpense per bank/UPI message in the input
+export const parseBankMessages = (
+  input: string,
+  now: Date = new Date(),
+  categories: CategoryDefinition[] = DEFAULT_CATEGORIES,
+  accounts: Account[] = []
+): ParsedExpense[] =>
+  splitBankMessages(input)
+    .map(segment => {
+      const message = parseBankMessage(segment.text);
+      return message ? toParsedExpense(message, segment, now, categories, accounts) : null;
+    })
+    .filter((item): item is ParsedExpense => item !== null);
+
+// Marks items whose reference number was already recorded (or appears earlier in the same paste)
+export const markDuplicates = (items: ParsedExpense[], transactions: Transaction[]): ParsedExpense[] => {
+  const known = new Map(transactions.filter(t => t.reference).map(t => [t.reference!, t.id]));
+  const seen = new Set<string>();
+  return items.map(item => {
+    if (!item.reference) return item;
+    const existing = known.get(item.reference);
+    const repeated = seen.has(item.reference);
+    seen.add(item.reference);
+    if (existing) return { ...item, duplicateOf: existing };
+    return repeated ? { ...item, duplicateOf: 'paste' } : item;
+  });
+};
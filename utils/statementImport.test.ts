@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { Transaction } from '../types';
+import {
+    detectFormat,
+    findLikelyDuplicate,
+    guessDateOrder,
+    guessMapping,
+    parseCsv,
+    parseCsvStatement,
+    parseOfx,
+    parseQif,
+    parseStatementAmount,
+    parseStatementDate,
+} from './statementImport';
+
+const day = (date: Date | null) => (date ? format(date, 'yyyy-MM-dd') : null);
+
+describe('statement values', () => {
+    it('reads dates in the given order', () => {
+        expect(day(parseStatementDate('03/04/2025', 'dmy'))).toBe('2025-04-03');
+        expect(day(parseStatementDate('03/04/2025', 'mdy'))).toBe('2025-03-04');
+        expect(day(parseStatementDate('2025-04-03', 'mdy'))).toBe('2025-04-03');
+        expect(day(parseStatementDate('12-Mar-25', 'mdy'))).toBe('2025-03-12');
+        expect(day(parseStatementDate('Mar 12, 2025', 'dmy'))).toBe('2025-03-12');
+        expect(parseStatementDate('31/02/2025', 'dmy')).toBeNull();
+        expect(parseStatementDate('Closing balance', 'dmy')).toBeNull();
+    });
+
+    it('guesses the date order from the samples', () => {
+        expect(guessDateOrder(['03/04/2025', '25/04/2025'])).toBe('dmy');
+        expect(guessDateOrder(['03/04/2025', '04/25/2025'])).toBe('mdy');
+        expect(guessDateOrder(['03/04/2025'], 'mdy')).toBe('mdy');
+    });
+
+    it('reads signed amounts', () => {
+        expect(parseStatementAmount('1,234.50')).toBe(1234.5);
+        expect(parseStatementAmount('-450')).toBe(-450);
+        expect(parseStatementAmount('(450.00)')).toBe(-450);
+        expect(parseStatementAmount('450.00 Dr')).toBe(-450);
+        expect(parseStatementAmount('₹ 1,200 CR')).toBe(1200);
+        expect(parseStatementAmount('')).toBeNull();
+        expect(parseStatementAmount('n/a')).toBeNull();
+    });
+
+    it('tells the file formats apart', () => {
+        expect(detectFormat('statement.ofx', '')).toBe('ofx');
+        expect(detectFormat('export.txt', '!Type:Bank\n')).toBe('qif');
+        expect(detectFormat('statement.csv', 'Date,Amount')).toBe('csv');
+    });
+});
+
+describe('CSV statements', () => {
+    it('splits quoted cells and detects the delimiter', () => {
+        expect(parseCsv('a,"b, c","say ""hi"""\n1,2,3')).toEqual([['a', 'b, c', 'say "hi"'], ['1', '2', '3']]);
+        expect(parseCsv('a;b;c\n1;2;3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+    });
+
+    it('finds the header below account details and skips the value date', () => {
+        const rows = parseCsv([
+            'Account,XXXX1234',
+            'Date,Narration,Value Date,Withdrawal Amt,Deposit Amt,Chq/Ref No',
+            '25/03/2025,UPI-SWIGGY,25/03/2025,450.00,,UTR001',
+            '26/03/2025,SALARY MARCH,26/03/2025,,45000.00,UTR002',
+            ',Closing balance,,,,',
+        ].join('\n'));
+        const mapping = guessMapping(rows);
+        expect(mapping).toMatchObject({ headerRow: 1, date: 0, description: 1, debit: 3, credit: 4, reference: 5, dateOrder: 'dmy' });
+
+        const { entries, skipped } = parseCsvStatement(rows, mapping);
+        expect(skipped).toBe(1);
+        expect(entries.map(e => [day(e.date), e.amount, e.description, e.reference])).toEqual([
+            ['2025-03-25', -450, 'UPI-SWIGGY', 'UTR001'],
+            ['2025-03-26', 45000, 'SALARY MARCH', 'UTR002'],
+        ]);
+    });
+});
+
+describe('OFX and QIF statements', () => {
+    it('reads OFX transactions', () => {
+        const { entries, skipped } = parseOfx([
+            '<OFX><BANKTRANLIST>',
+            '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250325<TRNAMT>-450.00<FITID>F1<NAME>SWIGGY<MEMO>Dinner</STMTTRN>',
+            '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>bad<TRNAMT>-10.00<FITID>F2<NAME>?</STMTTRN>',
+            '</BANKTRANLIST></OFX>',
+        ].join('\n'));
+        expect(skipped).toBe(1);
+        expect(entries).toHaveLength(1);
+        expect(entries[0]).toMatchObject({ amount: -450, description: 'SWIGGY - Dinner', reference: 'F1' });
+        expect(day(entries[0].date)).toBe('2025-03-25');
+    });
+
+    it('reads QIF records month first', () => {
+        const { entries } = parseQif(['!Type:Bank', 'D03/04/2025', 'T-120.00', 'PCafe', '^', 'D04/05/2025', 'T500', 'PRefund', 'N42', '^'].join('\n'));
+        expect(entries.map(e => [day(e.date), e.amount, e.description])).toEqual([
+            ['2025-03-04', -120, 'Cafe'],
+            ['2025-04-05', 500, 'Refund'],
+        ]);
+        expect(entries[1].reference).toBe('42');
+    });
+});
+
+describe('findLikelyDuplicate', () => {
+    const recorded = (overrides: Partial<Transaction>): Transaction => ({
+        id: 't1',
+        amount: 450,
+        category: 'Outings',
+        description: 'swiggy',
+        date: new Date(2025, 2, 25, 20, 0).toISOString(),
+        timestamp: 0,
+        ...overrides,
+    });
+
+    it('matches the same reference first', () => {
+        const entry = { date: new Date(2025, 0, 1), amount: -1, description: 'x', reference: 'UTR001' };
+        expect(findLikelyDuplicate(entry, [recorded({ reference: 'UTR001' })])?.id).toBe('t1');
+    });
+
+    it('matches the same amount posted a day later with a similar description', () => {
+        const entry = { date: new Date(2025, 2, 26), amount: -450, description: 'UPI-SWIGGY-BANGALORE' };
+        expect(findLikelyDuplicate(entry, [recorded({})])?.id).toBe('t1');
+        expect(findLikelyDuplicate(entry, [recorded({ description: 'uber' })])).toBeUndefined();
+        expect(findLikelyDuplicate(entry, [recorded({})], new Set(['t1']))).toBeUndefined();
+    });
+});
@@ -0,0 +1,427 @@
+import { format } from 'date-fns';
+import { Account, CategoryDefinition, CategoryRule, ColumnMapping, DateOrder, ImportPreset, ParsedExpense, StatementFormat, Transaction, TransactionDirection } from '../types';
+import { DEFAULT_CATEGORIES, UNCATEGORISED, fallbackCategory } from './categories';
+import { parseExpenseInput } from './parser';
+import { applyRules } from './rules';
+
+// One line of a bank statement, before it is categorised
+export interface StatementEntry {
+    date: Date;
+    amount: number; // signed: negative is money out of the account
+    description: string;
+    reference?: string; // cheque number, UTR or OFX FITID
+}
+
+export interface StatementParseResult {
+    entries: StatementEntry[];
+    skipped: number; // rows without a readable date or amount (totals, footers, blank lines)
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+    dmy: 'Day / Month / Year',
+    mdy: 'Month / Day / Year',
+    ymd: 'Year / Month / Day',
+};
+
+export const detectFormat = (fileName: string, text: string): StatementFormat => {
+    if (/\.(?:ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text)) return 'ofx';
+    if (/\.qif$/i.test(fileName) || /^!Type:/im.test(text)) return 'qif';
+    return 'csv';
+};
+
+// --- Values ---
+
+const validDate = (year: number, month: number, day: number): Date | null => {
+    const fullYear = year < 100 ? 2000 + year : year;
+    const date = new Date(fullYear, month, day);
+    return date.getFullYear() === fullYear && date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+// "12/03/2025", "12-03-25", "2025-03-12", "12 Mar 2025", "12-Mar-25", "Mar 12, 2025".
+// Numeric dates are read in the given order; ISO and named months need no hint.
+export const parseStatementDate = (text: string, order: DateOrder): Date | null => {
+    const value = text.trim();
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) return validDate(+iso[1], +iso[2] - 1, +iso[3]);
+
+    const dayFirst = value.match(/^(\d{1,2})[\s\-/.]*([a-z]{3})[a-z]*[\s\-/.,']*(\d{2,4})\b/i);
+    if (dayFirst && MONTHS.includes(dayFirst[2].toLowerCase())) {
+        return validDate(+dayFirst[3], MONTHS.indexOf(dayFirst[2].toLowerCase()), +dayFirst[1]);
+    }
+    const monthFirst = value.match(/^([a-z]{3})[a-z]*[\s\-/.]*(\d{1,2}),?[\s\-/.']*(\d{2,4})\b/i);
+    if (monthFirst && MONTHS.includes(monthFirst[1].toLowerCase())) {
+        return validDate(+monthFirst[3], MONTHS.indexOf(monthFirst[1].toLowerCase()), +monthFirst[2]);
+    }
+
+    const numeric = value.match(/^(\d{1,4})[\-/.'](\d{1,2})[\-/.'](\d{1,4})\b/);
+    if (!numeric) return null;
+    const [a, b, c] = [+numeric[1], +numeric[2], +numeric[3]];
+    if (order === 'ymd') return validDate(a, b - 1, c);
+    return order === 'mdy' ? validDate(c, a - 1, b) : validDate(c, b - 1, a);
+};
+
+// Picks the order that reads every sample: a first part above 12 must be the day.
+// Ambiguous samples ("03/04/25") get `preferred`.
+export const guessDateOrder = (samples: string[], preferred: DateOrder = 'dmy'): DateOrder => {
+    const orders: DateOrder[] = [preferred, ...(['dmy', 'mdy', 'ymd'] as DateOrder[]).filter(o => o !== preferred)];
+    const filled = samples.filter(s => s.trim());
+    return orders.find(order => filled.every(s => parseStatementDate(s, order) !== null)) ?? preferred;
+};
+
+// "1,234.50", "-450", "(450.00)", "450.00 Dr", "₹ 1,200 CR". Returns a signed number or null.
+export const parseStatementAmount = (text: string): number | null => {
+    let value = text.trim().replace(/[₹$€£,\s]|rs\.?|inr/gi, '');
+    if (!value) return null;
+    let sign = 1;
+    const marker = value.match(/(dr|cr)\.?$/i);
+    if (marker) {
+        if (marker[1].toLowerCase() === 'dr') sign = -1;
+        value = value.slice(0, marker.index);
+    }
+    const bracketed = value.match(/^\((.*)\)$/);
+    if (bracketed) {
+        sign = -sign;
+        value = bracketed[1];
+    }
+    if (!/^[-+]?\d*\.?\d+$/.test(value)) return null;
+    return sign * parseFloat(value);
+};
+
+// --- CSV ---
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// The delimiter that splits the first lines into the most columns
+const detectDelimiter = (text: string): string => {
+    const sample = text.split(/\r?\n/).slice(0, 20);
+    const score = (delimiter: string) => sample.reduce((sum, line) => sum + line.split(delimiter).length - 1, 0);
+    return DELIMITERS.reduce((best, d) => (score(d) > score(best) ? d : best), ',');
+};
+
+// Splits CSV text into rows of cells. Handles quoted cells with delimiters, doubled
+// quotes and line breaks inside them.
+export const parseCsv = (text: string): string[][] => {
+    const delimiter = detectDelimiter(text);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && !cell.trim()) {
+            quoted = true;
+            cell = '';
+        } else if (char === delimiter) {
+            row.push(cell.trim());
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell.trim());
+            if (row.some(c => c)) rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    row.push(cell.trim());
+    if (row.some(c => c)) rows.push(row);
+    return rows;
+};
+
+const normalizeHeader = (cell: string) => cell.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+
+// Identifies a bank's export format, for matching saved presets
+export const headerSignature = (row: string[]): string => row.map(normalizeHeader).join('|');
+
+const HEADER_PATTERNS = {
+    date: /\b(?:txn|transaction|posting|tran)?\s*date\b/,
+    description: /\b(?:narration|description|particulars|details|remarks|payee|memo|transaction)\b/,
+    debit: /\b(?:withdrawal|withdrawals|debit|dr|paid out|money out)\b/,
+    credit: /\b(?:deposit|deposits|credit|cr|paid in|money in)\b/,
+    amount: /\b(?:amount|amt|value)\b/,
+    reference: /\b(?:ref|reference|chq|cheque|utr)\b/,
+};
+
+// Best guess at the header row and its columns. Banks often put account details above the
+// header, so the first row naming both a date and a description column is taken.
+export const guessMapping = (rows: string[][]): ColumnMapping => {
+    const headerRow = Math.max(0, rows.slice(0, 30).findIndex(row => {
+        const cells = row.map(normalizeHeader);
+        return cells.some(c => HEADER_PATTERNS.date.test(c)) && cells.some(c => HEADER_PATTERNS.description.test(c));
+    }));
+    const cells = (rows[headerRow] ?? []).map(normalizeHeader);
+    const find = (pattern: RegExp, exclude: number[] = []) => {
+        const index = cells.findIndex((c, i) => !exclude.includes(i) && pattern.test(c));
+        return index >= 0 ? index : undefined;
+    };
+
+    // "Value Date" is when the bank settled it; the transaction date is what the user remembers
+    const date = cells.findIndex(c => HEADER_PATTERNS.date.test(c) && !/value/.test(c));
+    const dateColumn = date >= 0 ? date : find(HEADER_PATTERNS.date) ?? 0;
+    // Every date column, so "Value Date" is never taken for the amount ("value") or anything else
+    const dateColumns = cells.flatMap((c, i) => HEADER_PATTERNS.date.test(c) ? [i] : []);
+    const debit = find(HEADER_PATTERNS.debit, [dateColumn, ...dateColumns]);
+    const credit = find(HEADER_PATTERNS.credit, [dateColumn, ...dateColumns]);
+    const taken = [dateColumn, ...dateColumns, debit, credit].filter((i): i is number => i !== undefined);
+    const description = find(HEADER_PATTERNS.description, taken) ?? (dateColumn === 0 ? 1 : 0);
+    const amount = debit === undefined || credit === undefined ? find(HEADER_PATTERNS.amount, [...taken, description]) : undefined;
+    const reference = find(HEADER_PATTERNS.reference, [...taken, description]);
+
+    return {
+        headerRow,
+        date: dateColumn,
+        description,
+        ...(amount !== undefined ? { amount } : { debit, credit }),
+        ...(reference !== undefined ? { reference } : {}),
+        dateOrder: guessDateOrder(rows.slice(headerRow + 1, headerRow + 21).map(row => row[dateColumn] ?? '')),
+    };
+};
+
+export const findPreset = (rows: string[][], presets: ImportPreset[]): ImportPreset | undefined =>
+    presets.find(preset => rows[preset.mapping.headerRow] && headerSignature(rows[preset.mapping.headerRow]) === preset.headers);
+
+export const validateMapping = (mapping: ColumnMapping): string | null => {
+    if (mapping.amount === undefined && mapping.debit === undefined && mapping.credit === undefined) {
+        return 'Choose an amount column, or debit and credit columns';
+    }
+    if (mapping.date === mapping.description) return 'Date and description must be different columns';
+    return null;
+};
+
+// Debit and credit columns hold positive numbers; a single amount column is already signed
+const rowAmount = (row: string[], mapping: ColumnMapping): number | null => {
+    if (mapping.amount !== undefined) return parseStatementAmount(row[mapping.amount] ?? '');
+    const debit = mapping.debit !== undefined ? parseStatementAmount(row[mapping.debit] ?? '') : null;
+    const credit = mapping.credit !== undefined ? parseStatementAmount(row[mapping.credit] ?? '') : null;
+    if (debit) return -Math.abs(debit);
+    if (credit) return Math.abs(credit);
+    return null;
+};
+
+export const parseCsvStatement = (rows: string[][], mapping: ColumnMapping): StatementParseResult => {
+    const entries: StatementEntry[] = [];
+    let skipped = 0;
+    rows.slice(mapping.headerRow + 1).forEach(row => {
+        const date = parseStatementDate(row[mapping.date] ?? '', mapping.dateOrder);
+        const amount = rowAmount(row, mapping);
+        if (!date || !amount) {
+            skipped++;
+            return;
+        }
+        const reference = mapping.reference !== undefined ? row[mapping.reference]?.trim() : undefined;
+        entries.push({
+            date,
+            amount,
+            description: (row[mapping.description] ?? '').replace(/\s+/g, ' ').trim(),
+            ...(reference ? { reference } : {}),
+        });
+    });
+    return { entries, skipped };
+};
+
+// --- OFX / QIF ---
+
+// OFX 1.x is SGML: closing tags are optional, so each field runs to the next tag or line end
+const ofxField = (block: string, tag: string): string | undefined =>
+    block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1]?.trim() || undefined;
+
+export const parseOfx = (text: string): StatementParseResult => {
+    const entries: StatementEntry[] = [];
+    let skipped = 0;
+    text.split(/<STMTTRN>/i).slice(1).forEach(raw => {
+        const block = raw.split(/<\/STMTTRN>/i)[0];
+        const posted = ofxField(block, 'DTPOSTED')?.match(/^(\d{4})(\d{2})(\d{2})/);
+        const date = posted ? validDate(+posted[1], +posted[2] - 1, +posted[3]) : null;
+        const amount = parseStatementAmount(ofxField(block, 'TRNAMT') ?? '');
+        if (!date || !amount) {
+            skipped++;
+            return;
+        }
+        const name = ofxField(block, 'NAME');
+        const memo = ofxField(block, 'MEMO');
+        const reference = ofxField(block, 'FITID') ?? ofxField(block, 'CHECKNUM');
+        entries.push({
+            date,
+            amount,
+            description: [name, memo && memo !== name ? memo : undefined].filter(Boolean).join(' - '),
+            ...(reference ? { reference } : {}),
+        });
+    });
+    return { entries, skipped };
+};
+
+// QIF comes from US software, so ambiguous dates are read month first
+export const parseQif = (text: string): StatementParseResult => {
+    const records = text.split(/^\^\s*$/m).map(record => {
+        const fields = new Map<string, string>();
+        record.split(/\r?\n/).forEach(line => {
+            if (line && !line.startsWith('!') && !fields.has(line[0])) fields.set(line[0], line.slice(1).trim());
+        });
+        return fields;
+    }).filter(fields => fields.has('D') || fields.has('T'));
+    const order = guessDateOrder(records.map(fields => fields.get('D') ?? ''), 'mdy');
+
+    const entries: StatementEntry[] = [];
+    let skipped = 0;
+    records.forEach(fields => {
+        const date = parseStatementDate(fields.get('D') ?? '', order);
+        const amount = parseStatementAmount(fields.get('T') ?? fields.get('U') ?? '');
+        if (!date || !amount) {
+            skipped++;
+            return;
+        }
+        const reference = fields.get('N');
+        entries.push({
+            date,
+            amount,
+            description: [fields.get('P'), fields.get('M')].filter(Boolean).join(' - '),
+            ...(reference ? { reference } : {}),
+        });
+    });
+    return { entries, skipped };
+};
+
+// --- Review ---
+
+// Bank narrations are full of channel codes that say nothing about the merchant
+const NOISE_WORDS = new Set(['upi', 'neft', 'imps', 'rtgs', 'pos', 'ach', 'nach', 'ecom', 'txn', 'ref', 'to', 'from', 'by', 'the', 'and', 'payment', 'paid', 'transfer']);
+
+const descriptionWords = (text: string): Set<string> =>
+    new Set(text.toLowerCase().replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(w => w.length > 2 && !NOISE_WORDS.has(w)));
+
+// Share of the shorter description's words found in the other one, 0..1. Hand-typed
+// descriptions are short ("swiggy") and narrations long, so the shorter one sets the scale.
+export const descriptionSimilarity = (a: string, b: string): number => {
+    const left = descriptionWords(a);
+    const right = descriptionWords(b);
+    if (left.size === 0 || right.size === 0) return 0;
+    const shared = Array.from(left).filter(w => right.has(w)).length;
+    return shared / Math.min(left.size, right.size);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUPLICATE_WINDOW_DAYS = 2; // card and UPI entries often post a day or two after they were made
+
+// An existing transaction that is probably the same as this statement line: same amount,
+// dated within a couple of days, and either the same day or a similar description.
+// `claimed` holds ids already matched to earlier lines, so two lines never match one transaction.
+export const findLikelyDuplicate = (
+    entry: StatementEntry,
+    transactions: Transaction[],
+    claimed: Set<string> = new Set()
+): Transaction | undefined => {
+    if (entry.reference) {
+        const sameReference = transactions.find(t => t.reference === entry.reference && !claimed.has(t.id));
+        if (sameReference) return sameReference;
+    }
+    const amount = Math.abs(entry.amount);
+    return transactions.find(t => {
+        if (claimed.has(t.id) || Math.abs(t.amount - amount) > 0.01) return false;
+        const days = Math.abs(new Date(t.date).getTime() - entry.date.getTime()) / DAY_MS;
+        if (days > DUPLICATE_WINDOW_DAYS + 0.5) return false;
+        const sameDay = new Date(t.date).toDateString() === entry.date.toDateString();
+        return sameDay || descriptionSimilarity(t.description, entry.description) >= 0.5;
+    });
+};
+
+// Money out is spending unless the description says it moved between accounts;
+// money in is income unless it reads as a refund
+const directionFor = (entry: StatementEntry, guessed: TransactionDirection | undefined): TransactionDirection => {
+    if (guessed === 'transfer') return 'transfer';
+    if (entry.amount < 0) return 'expense';
+    return guessed === 'refund' ? 'refund' : 'income';
+};
+
+// Proposes a transaction for each statement line, categorised the same way typed entries are
+// (category keywords, then the user's rules) and flagged when it looks already recorded
+export const proposeImport = (
+    entries: StatementEntry[],
+    transactions: Transaction[],
+    categories: CategoryDefinition[] = DEFAULT_CATEGORIES,
+    rules: CategoryRule[] = [],
+    accounts: Account[] = [],
+    accountId?: string
+): ParsedExpense[] => {
+    const claimed = new Set<string>();
+    return entries.map(entry => {
+        const guess = parseExpenseInput(entry.description, entry.date, categories, accounts);
+        const direction = directionFor(entry, guess.direction);
+        const spending = direction === 'expense' || direction === 'refund';
+        const duplicate = findLikelyDuplicate(entry, transactions, claimed);
+        if (duplicate) claimed.add(duplicate.id);
+
+        const proposed: ParsedExpense = {
+            amount: Math.abs(entry.amount),
+            direction,
+            category: spending ? guess.category ?? fallbackCategory(categories) : UNCATEGORISED,
+            ...(spending && guess.subcategory ? { subcategory: guess.subcategory } : {}),
+            ...(guess.paymentMethod ? { paymentMethod: guess.paymentMethod } : {}),
+            // The statement's own account wins over an account the narration happens to mention
+            ...(accountId ?? guess.accountId ? { accountId: accountId ?? guess.accountId } : {}),
+            ...(entry.reference ? { reference: entry.reference } : {}),
+            ...(duplicate ? { duplicateOf: duplicate.id } : {}),
+            description: entry.description || 'Imported transaction',
+            date: entry.date,
+            source: 'regex',
+            fields: guess.fields,
+        };
+        return spending ? applyRules(proposed, rules) : proposed;
+    });
+};
+
+// The transactions to store for the lines the user kept. Every one carries `importId`,
+// which is all an undo needs.
+export const buildImportedTransactions = (items: ParsedExpense[], importId: string, now: number = Date.now()): Transaction[] =>
+    items
+        .filter(item => item.amount && item.category)
+        .map((item, index) => ({
+            id: `${importId}-${index}`,
+            amount: item.amount!,
+            direction: item.direction ?? 'expense',
+            category: item.category!,
+            description: item.description,
+            date: item.date.toISOString(),
+            // Statements give calendar days, so the day is taken as written, not from the time zone
+            localDate: format(item.date, 'yyyy-MM-dd'),
+            timestamp: now,
+            importId,
+            // Firestore rejects undefined fields, so only copy what exists
+            ...(item.subcategory ? { subcategory: item.subcategory } : {}),
+            ...(item.paymentMethod ? { paymentMethod: item.paymentMethod } : {}),
+            ...(item.accountId ? { accountId: item.accountId } : {}),
+            ...(item.reference ? { reference: item.reference } : {}),
+            ...(item.source ? { source: item.source } : {}),
+            ...(item.fields ? { provenance: item.fields } : {}),
+        }));
+
+export interface ImportSummary {
+    importId: string;
+    count: number;
+    total: number; // money out minus money in
+    importedAt: number;
+}
+
+// Past imports, newest first, for undoing one later
+export const importHistory = (transactions: Transaction[]): ImportSummary[] => {
+    const imports = new Map<string, ImportSummary>();
+    transactions.forEach(t => {
+        if (!t.importId) return;
+        const summary = imports.get(t.importId) ?? { importId: t.importId, count: 0, total: 0, importedAt: t.timestamp };
+        const sign = t.direction === 'income' || t.direction === 'refund' ? -1 : t.direction === 'transfer' ? 0 : 1;
+        imports.set(t.importId, { ...summary, count: summary.count + 1, total: summary.total + sign * t.amount });
+    });
+    return Array.from(imports.values()).sort((a, b) => b.importedAt - a.importedAt);
+};
@@ -0,0 +1,175 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { RecurrenceCadence, RecurringTransaction, Transaction, TransactionCategory } from '../types';
+import { directionOf } from './cashflow';
+import { deriveRulePattern } from './rules';
+import { firstOccurrenceFrom, occurrenceAt } from './recurring';
+import { SUBCATEGORY_KEYWORDS } from './tags';
+import { deviceTimeZone, transactionDay, zonedDate } from './periods';
+
+export interface PriceChange {
+    from: number;
+    to: number;
+    date: string; // ISO, first charge at the new price
+}
+
+export interface DetectedSubscription {
+    key: string; // merchant word shared by every charge, e.g. "netflix"
+    description: string; // description of the latest charge
+    category: TransactionCategory;
+    cadence: RecurrenceCadence;
+    interval: number;
+    amount: number; // latest charge
+    monthlyCost: number;
+    annualCost: number;
+    charges: Transaction[]; // oldest first
+    lastDate: string;
+    nextExpected: string;
+    priceIncrease?: PriceChange;
+    stopped: boolean; // the next charge is well overdue
+    tracked: boolean; // already covered by a recurring schedule
+}
+
+interface CadenceWindow {
+    cadence: RecurrenceCadence;
+    interval: number;
+    days: number; // nominal period
+    min: number;
+    max: number;
+}
+
+// Card statements drift by a few days, so each cadence accepts a window around its period
+const CADENCE_WINDOWS: CadenceWindow[] = [
+    { cadence: 'weekly', interval: 1, days: 7, min: 6, max: 8 },
+    { cadence: 'weekly', interval: 2, days: 14, min: 12, max: 16 },
+    { cadence: 'monthly', interval: 1, days: 30.44, min: 26, max: 35 },
+    { cadence: 'quarterly', interval: 1, days: 91.31, min: 84, max: 98 },
+    { cadence: 'yearly', interval: 1, days: 365.25, min: 350, max: 380 },
+];
+
+const MIN_CHARGES = 3;
+const MIN_CHARGES_KNOWN = 2; // merchants already known to bill on a schedule (Netflix, Spotify, ...)
+const MAX_AMOUNT_SPREAD = 2; // largest charge at most twice the smallest, so price rises still group
+const PRICE_CHANGE_TOLERANCE = 0.02;
+const DAYS_PER_MONTH = 30.44;
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Matches the gaps between charges to a cadence; most gaps (2 in 3) must fit the window
+const detectCadence = (gaps: number[]): CadenceWindow | null => {
+    const typical = median(gaps);
+    const window = CADENCE_WINDOWS.find(w => typical >= w.min && typical <= w.max);
+    if (!window) return null;
+    const regular = gaps.filter(gap => gap >= window.min && gap <= window.max).length;
+    return regular / gaps.length >= 2 / 3 ? window : null;
+};
+
+// The most recent charge that differs from the one before it, if it went up
+const latestPriceIncrease = (charges: Transaction[]): PriceChange | undefined => {
+    for (let i = charges.length - 1; i > 0; i--) {
+        const previous = charges[i - 1].amount;
+        const current = charges[i].amount;
+        if (Math.abs(current - previous) <= previous * PRICE_CHANGE_TOLERANCE) continue;
+        return current > previous ? { from: previous, to: current, date: charges[i].date } : undefined;
+    }
+    return undefined;
+};
+
+const detectGroup = (
+    key: string,
+    group: Transaction[],
+    trackedKeys: Set<string>,
+    now: Date,
+    timeZone: string
+): DetectedSubscription | null => {
+    const charges = [...group].sort((a, b) => a.date.localeCompare(b.date));
+    const minCharges = SUBCATEGORY_KEYWORDS[key] === 'Subscriptions' ? MIN_CHARGES_KNOWN : MIN_CHARGES;
+    if (charges.length < minCharges) return null;
+
+    const amounts = charges.map(t => t.amount);
+    if (Math.max(...amounts) > Math.min(...amounts) * MAX_AMOUNT_SPREAD) return null;
+
+    // Gaps are counted between the days the charges count on, like the rest of the app
+    const days = charges.map(t => transactionDay(t, timeZone));
+    const gaps = days.slice(1).map((day, i) => differenceInCalendarDays(day, days[i]));
+    if (gaps.some(gap => gap === 0)) return null; // several charges on one day are not a schedule
+    const window = detectCadence(gaps);
+    if (!window) return null;
+
+    const last = charges[charges.length - 1];
+    const periodDays = median(gaps);
+    const nextExpected = addDays(days[days.length - 1], Math.round(periodDays));
+    const monthlyCost = round(last.amount * DAYS_PER_MONTH / window.days);
+    const priceIncrease = latestPriceIncrease(charges);
+
+    return {
+        key,
+        description: last.description,
+        category: last.category,
+        cadence: window.cadence,
+        interval: window.interval,
+        amount: last.amount,
+        monthlyCost,
+        annualCost: round(monthlyCost * 12),
+        charges,
+        lastDate: last.date,
+        nextExpected: nextExpected.toISOString(),
+        ...(priceIncrease ? { priceIncrease } : {}),
+        // Half a period of grace before calling it stopped
+        stopped: differenceInCalendarDays(zonedDate(now, timeZone), nextExpected) > Math.max(3, periodDays / 2),
+        tracked: trackedKeys.has(key) || charges.some(t => t.recurringId),
+    };
+};
+
+// Scans expense history for same-merchant, similar-amount charges at a regular interval.
+// Results are sorted with active subscriptions first, most expensive first.
+export const detectSubscriptions = (
+    transactions: Transaction[],
+    recurring: RecurringTransaction[] = [],
+    now: Date = new Date(),
+    timeZone: string = deviceTimeZone()
+): DetectedSubscription[] => {
+    const groups = new Map<string, Transaction[]>();
+    transactions.forEach(t => {
+        if (directionOf(t) !== 'expense') return;
+        const key = deriveRulePattern(t.description);
+        if (!key) return;
+        groups.set(key, [...(groups.get(key) ?? []), t]);
+    });
+
+    const trackedKeys = new Set(recurring.map(r => deriveRulePattern(r.description)).filter((k): k is string => k !== null));
+
+    return Array.from(groups.entries())
+        .map(([key, group]) => detectGroup(key, group, trackedKeys, now, timeZone))
+        .filter((s): s is DetectedSubscription => s !== null)
+        .sort((a, b) => Number(a.stopped) - Number(b.stopped) || b.monthlyCost - a.monthlyCost);
+};
+
+// A recurring schedule continuing the detected pattern. The charges already recorded are
+// not re-posted: the first due date is the next one after the latest charge (or today).
+export const subscriptionToRecurring = (
+    subscription: DetectedSubscription,
+    now: Date = new Date()
+): RecurringTransaction => {
+    const created = now.getTime();
+    const schedule: RecurringTransaction = {
+        id: crypto.randomUUID(), // several detected subscriptions can be turned into schedules at once
+        description: subscription.description,
+        amount: subscription.amount,
+        direction: 'expense',
+        category: subscription.category,
+        cadence: subscription.cadence,
+        interval: subscription.interval,
+        startDate: subscription.lastDate,
+        nextDueDate: subscription.lastDate,
+        paused: false,
+        createdAt: created,
+    };
+    const from = Math.max(startOfDay(occurrenceAt(schedule, 1)).getTime(), startOfDay(now).getTime());
+    return { ...schedule, nextDueDate: firstOccurrenceFrom(schedule, new Date(from)).toISOString() };
+};
@@ -0,0 +1,80 @@
+import { TransactionCategory } from '../types';
+
+// Merchant or keyword -> sub-category within the user's category
+export const SUBCATEGORY_KEYWORDS: Record<string, string> = {
+  'zomato': 'Food Delivery',
+  'swiggy': 'Food Delivery',
+  'uber eats': 'Food Delivery',
+  'blinkit': 'Groceries',
+  'zepto': 'Groceries',
+  'bigbasket': 'Groceries',
+  'instamart': 'Groceries',
+  'dmart': 'Groceries',
+  'grocery': 'Groceries',
+  'petrol': 'Petrol / Transport',
+  'fuel': 'Petrol / Transport',
+  'uber': 'Petrol / Transport',
+  'ola': 'Petrol / Transport',
+  'rapido': 'Petrol / Transport',
+  'netflix': 'Subscriptions',
+  'spotify': 'Subscriptions',
+  'prime': 'Subscriptions',
+  'youtube': 'Subscriptions',
+};
+
+export const MAX_TAGS = 5;
+const MAX_TAG_LENGTH = 24;
+const MAX_SUBCATEGORY_LENGTH = 30;
+
+// Tags are stored lowercase with dashes: "#Goa Trip" and "goa-trip" are the same tag
+export const normalizeTag = (raw: string): string | null => {
+  const tag = raw
+    .toLowerCase()
+    .replace(/^#+/, '')
+    .replace(/[^a-z0-9\s_-]/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+  return tag || null;
+};
+
+export const normalizeTags = (raw: unknown[]): string[] => {
+  const tags = raw
+    .filter((t): t is string => typeof t === 'string')
+    .map(normalizeTag)
+    .filter((t): t is string => t !== null);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+};
+
+// "goa trip, work" as typed in an edit box
+export const parseTagList = (text: string): string[] => normalizeTags(text.split(','));
+
+export const normalizeSubcategory = (raw: unknown): string | null => {
+  if (typeof raw !== 'string') return null;
+  const subcategory = raw.replace(/[<>]/g, '').replace(/\s+/g, ' ').trim().slice(0, MAX_SUBCATEGORY_LENGTH);
+  return subcategory || null;
+};
+
+// Pulls "#goa" style tags out of free text and returns the text without them
+export const extractHashtags = (text: string): { tags: string[]; text: string } => {
+  const found: string[] = [];
+  const stripped = text.replace(/(^|\s)#([\w-]+)/g, (_match, lead: string, tag: string) => {
+    found.push(tag);
+    return lead;
+  });
+  return { tags: normalizeTags(found), text: found.length > 0 ? stripped.replace(/\s{2,}/g, ' ').trim() : text };
+};
+
+// Keywords must start a word ("ola" is not in "cola"); the longest keyword wins ("uber eats" over "uber").
+// A sub-category that just repeats the category adds nothing, so it is dropped.
+export const inferSubcategory = (description: string, category?: TransactionCategory | null): string | null => {
+  const text = description.toLowerCase();
+  const keyword = Object.keys(SUBCATEGORY_KEYWORDS)
+    .filter(k => new RegExp(`\\b${k}\\b`).test(text))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!keyword) return null;
+  const subcategory = SUBCATEGORY_KEYWORDS[keyword];
+  return subcategory.toLowerCase() === category?.toLowerCase() ? null : subcategory;
+};
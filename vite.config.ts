@@ -1,13 +1,46 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
 
+// Serves api/parse-expense during `npm run dev` with the same handler Vercel runs.
+// Without GROQ_API_KEY / AI_PROVIDER in .env.local it answers from the mock provider,
+// which the handler only defaults to in development.
+const parseExpenseDevApi = (env: Record<string, string>): Plugin => ({
+  name: 'parse-expense-dev-api',
+  configureServer(server) {
+    let handler: ((request: Request) => Promise<Response>) | null = null;
+    server.middlewares.use('/api/parse-expense', async (req, res) => {
+      try {
+        if (!handler) {
+          const { createDefaultParseExpenseHandler } = await server.ssrLoadModule('/server/parseExpenseHandler.ts');
+          handler = createDefaultParseExpenseHandler({ NODE_ENV: 'development', ...env });
+        }
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const response = await handler!(new Request(`http://localhost${req.originalUrl ?? req.url}`, {
+          method: req.method,
+          headers: req.headers as Record<string, string>,
+          body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks),
+        }));
+        res.statusCode = response.status;
+        response.headers.forEach((value, key) => res.setHeader(key, value));
+        res.end(await response.text());
+      } catch (error) {
+        console.error('parse-expense dev api failed:', error);
+        res.statusCode = 500;
+        res.end();
+      }
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
   return {
     plugins: [
       react(),
+      parseExpenseDevApi(env),
       VitePWA({
         registerType: 'autoUpdate',
         includeAssets: ['favicon.ico', 'apple-touch-icon.png', 'masked-icon.svg'],